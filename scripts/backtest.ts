@@ -0,0 +1,72 @@
+// Walk-forward backtest CLI - scores a prediction strategy against stored real observations
+//
+//   npm run backtest                                  # default strategy, last 90 days, 7-day horizon
+//   npm run backtest -- --strategy probability-threshold --days 60 --horizon 5
+//   npm run backtest -- --routes LHR-JFK,LHR-CDG --json   # full per-route results as JSON
+//   npm run backtest -- --calibrate                   # backtest every strategy and save the calibrations
+import { Backtester, BacktestOptions } from '../src/lib/backtester';
+import { PredictionEngine } from '../src/lib/prediction-engine';
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const options: BacktestOptions = {};
+
+  const strategy = getArg(args, '--strategy');
+  if (strategy) {
+    if (!PredictionEngine.hasStrategy(strategy)) {
+      throw new Error(`Unknown prediction strategy: ${strategy}`);
+    }
+    options.strategyId = strategy;
+  }
+
+  const routes = getArg(args, '--routes');
+  if (routes) options.routes = routes.split(',').map(r => r.trim().toUpperCase()).filter(Boolean);
+
+  const days = getArg(args, '--days');
+  if (days) options.testPeriodDays = parseInt(days, 10);
+
+  const horizon = getArg(args, '--horizon');
+  if (horizon) options.horizonDays = parseInt(horizon, 10);
+
+  if (args.includes('--calibrate')) {
+    const calibrations = await Backtester.calibrate(
+      options.strategyId ? [options.strategyId] : undefined,
+      { testPeriodDays: options.testPeriodDays, horizonDays: options.horizonDays }
+    );
+    console.table(calibrations.map(c => ({
+      strategy: `${c.strategy.id}@${c.strategy.version}`,
+      predictions: c.predictions,
+      accuracy: c.accuracy,
+      brierScore: c.brierScore,
+      buckets: Object.keys(c.buckets).length
+    })));
+    return;
+  }
+
+  const run = await Backtester.run(options);
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(run, null, 2));
+    return;
+  }
+
+  console.table(Object.entries({ ...run.routeMetrics, ALL: run.aggregate }).map(([route, metrics]) => ({
+    route,
+    predictions: metrics.predictions,
+    accuracy: metrics.accuracy,
+    precision: metrics.precision,
+    recall: metrics.recall,
+    moneySaved: metrics.moneySaved,
+    mae: metrics.meanAbsoluteError
+  })));
+}
+
+main().catch(error => {
+  console.error('Backtest failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+// Price snapshot collector CLI - run from cron or leave running with --watch
+//
+//   npm run collect-prices                      # collect now
+//   npm run collect-prices -- --if-due          # only when COLLECTOR_INTERVAL_HOURS has passed (for frequent cron)
+//   npm run collect-prices -- --watch           # keep running, collecting every COLLECTOR_INTERVAL_HOURS
+//   npm run collect-prices -- --routes LHR-JFK,LHR-CDG --windows 7,30
+import { PriceSnapshotCollector, CollectorConfig } from '../src/lib/price-snapshot-collector';
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const overrides: Partial<CollectorConfig> = {};
+
+  const routes = getArg(args, '--routes');
+  if (routes) overrides.routes = routes.split(',').map(r => r.trim().toUpperCase()).filter(Boolean);
+
+  const windows = getArg(args, '--windows');
+  if (windows) overrides.bookingWindows = windows.split(',').map(w => parseInt(w, 10)).filter(w => w > 0);
+
+  if (args.includes('--watch')) {
+    const intervalMs = PriceSnapshotCollector.getConfig().intervalHours * 60 * 60 * 1000;
+    console.log(`Collecting every ${intervalMs / (60 * 60 * 1000)} hours (Ctrl+C to stop)`);
+    for (;;) {
+      await PriceSnapshotCollector.collect(overrides);
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  const run = args.includes('--if-due')
+    ? await PriceSnapshotCollector.collectIfDue(overrides)
+    : await PriceSnapshotCollector.collect(overrides);
+
+  if (run && run.failed > 0 && run.collected === 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Price collection failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+// Provider fixture recorder CLI - calls every configured live provider for the given searches and
+// saves the raw responses under PROVIDER_FIXTURES_DIR (default fixtures/providers). Serve them
+// offline with PROVIDER_FIXTURES=replay.
+//
+//   npm run record-fixtures -- --routes LHR-JFK,LHR-CDG --date 2026-12-01
+//   npm run record-fixtures -- --routes LHR-JFK --date 2026-12-01 --return 2026-12-08 --providers amadeus
+//   npm run record-fixtures -- --airports lon,par         # Amadeus airport lookups
+//   npm run record-fixtures -- --list                     # show what's recorded
+import { ProviderFixtures } from '../src/lib/provider-fixtures';
+import { ProviderRegistry } from '../src/lib/provider-registry';
+import { AmadeusService } from '../src/lib/amadeus';
+import { toNormalizedSearchRequest } from '../src/lib/flight-provider';
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--list')) {
+    const files = await ProviderFixtures.list(getArg(args, '--provider'));
+    files.forEach(file => console.log(file));
+    console.log(`${files.length} fixture(s) in ${ProviderFixtures.getDirectory()}`);
+    return;
+  }
+
+  ProviderFixtures.configure({ mode: 'record', directory: process.env.PROVIDER_FIXTURES_DIR });
+
+  const routes = splitList(getArg(args, '--routes')).map(route => route.toUpperCase());
+  const airports = splitList(getArg(args, '--airports'));
+  if (routes.length === 0 && airports.length === 0) {
+    console.error('Nothing to record: pass --routes ORIGIN-DESTINATION[,...] and/or --airports keyword[,...]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const departureDate = getArg(args, '--date') || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const returnDate = getArg(args, '--return');
+  const currency = getArg(args, '--currency') || 'GBP';
+  const only = splitList(getArg(args, '--providers'));
+
+  // Live providers only; the mock provider has nothing to record
+  const providers = ProviderRegistry.getProviders().filter(provider =>
+    provider.id !== 'mock' && provider.isConfigured() && (only.length === 0 || only.includes(provider.id))
+  );
+  if (routes.length > 0 && providers.length === 0) {
+    console.error('No live provider is configured; set its API credentials first');
+    process.exitCode = 1;
+    return;
+  }
+
+  let failed = 0;
+  for (const route of routes) {
+    const [origin, destination] = route.split('-');
+    const request = toNormalizedSearchRequest({ origin, destination, departureDate, returnDate, currency });
+    for (const provider of providers) {
+      const { offers, attempts } = await ProviderRegistry.search(request, provider, { bypassCache: true });
+      const attempt = attempts[0];
+      console.log(`${provider.id} ${route} ${departureDate}: ${attempt?.status}${attempt?.reason ? ` (${attempt.reason})` : ''}, ${offers.length} offers`);
+      if (attempt?.status === 'failed') failed++;
+    }
+  }
+
+  for (const keyword of airports) {
+    try {
+      const results = await AmadeusService.searchAirports(keyword);
+      console.log(`amadeus airports "${keyword}": ${results.length} results`);
+    } catch (error) {
+      console.error(`amadeus airports "${keyword}" failed:`, error);
+      failed++;
+    }
+  }
+
+  console.log(`Fixtures saved under ${ProviderFixtures.getDirectory()}`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error('Fixture recording failed:', error);
+  process.exit(1);
+});
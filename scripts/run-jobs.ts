@@ -0,0 +1,41 @@
+// Job runner CLI - executes due deferred jobs (A/B outcome checks, price watch checks, validation and calibration backtests). Run from cron or leave running with --watch
+//
+//   npm run run-jobs                     # run what's due now
+//   npm run run-jobs -- --watch          # keep running, checking every JOBS_INTERVAL_MINUTES (default 15)
+//   npm run run-jobs -- --limit 50       # at most 50 jobs this run
+import { JobQueue } from '../src/lib/job-queue';
+// Registers the job handlers
+import '../src/lib/ab-testing';
+import '../src/lib/price-watch';
+import '../src/lib/statistical-validator';
+import '../src/lib/backtester';
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const limitArg = getArg(args, '--limit');
+  const limit = limitArg ? parseInt(limitArg, 10) : undefined;
+
+  if (args.includes('--watch')) {
+    const intervalMs = (parseFloat(process.env.JOBS_INTERVAL_MINUTES || '15') || 15) * 60 * 1000;
+    console.log(`Running due jobs every ${intervalMs / (60 * 1000)} minutes (Ctrl+C to stop)`);
+    for (;;) {
+      await JobQueue.runDue({ limit });
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  const summary = await JobQueue.runDue({ limit });
+  if (summary.failed > 0 && summary.completed === 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Job run failed:', error);
+  process.exit(1);
+});
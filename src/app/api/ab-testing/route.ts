@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ABTestingFramework } from '@/lib/ab-testing';
+
+// Admin API for the A/B experiment. GET shows the config and per-variant metrics,
+// PUT replaces the config (a new id starts a new experiment) and POST { "action": "stop" }
+// ends it. When AB_TEST_SECRET is set, PUT and POST need "Authorization: Bearer <secret>".
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.AB_TEST_SECRET;
+  return !secret || request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+export async function GET() {
+  try {
+    const [experiment, metrics, winningVariant] = await Promise.all([
+      ABTestingFramework.getConfig(),
+      ABTestingFramework.calculateTestMetrics(),
+      ABTestingFramework.getWinningVariant()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      experiment,
+      metrics,
+      winningVariant: winningVariant.winner,
+      isSignificant: winningVariant.significant
+    });
+  } catch (error) {
+    console.error('A/B testing API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load A/B experiment' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const validationError = body ? ABTestingFramework.validateConfig(body) : 'Request body must be a JSON experiment config';
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const experiment = await ABTestingFramework.saveConfig(body);
+    return NextResponse.json({ success: true, experiment });
+  } catch (error) {
+    console.error('A/B testing config update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save A/B experiment' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    switch (body.action) {
+      case 'stop': {
+        // Serve the given variant (e.g. the winner) to everyone from now on
+        const variants = await ABTestingFramework.getVariants();
+        if (body.serveVariantId && !variants.some(v => v.id === body.serveVariantId)) {
+          return NextResponse.json(
+            { error: `Unknown variant: ${body.serveVariantId}` },
+            { status: 400 }
+          );
+        }
+
+        const experiment = await ABTestingFramework.stopExperiment(body.serveVariantId);
+        return NextResponse.json({ success: true, experiment });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'Unknown action' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('A/B testing action error:', error);
+    return NextResponse.json(
+      { error: 'Action failed' },
+      { status: 500 }
+    );
+  }
+}
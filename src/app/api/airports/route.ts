@@ -18,14 +18,15 @@ export async function GET(request: NextRequest) {
     }
 
     // Search airports using keyword
-    const airports = await AirportService.searchAirports(keyword);
+    const { airports, cache } = await AirportService.searchAirports(keyword, request.signal);
     
     return NextResponse.json({
       success: true,
       airports,
       count: airports.length,
       keyword,
-      source: airports.length > 0 ? 'amadeus' : 'fallback'
+      source: airports.length > 0 ? 'amadeus' : 'fallback',
+      metadata: { cache: cache || 'BYPASS' }
     });
 
   } catch (error) {
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PriceSnapshotCollector } from '@/lib/price-snapshot-collector';
+
+// Cron entry point: POST runs the collector when it's due (or always with { "force": true }).
+// When COLLECTOR_SECRET is set, callers must send "Authorization: Bearer <secret>". A forced run
+// spends provider quota on every route, so it's refused when no secret is configured.
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.COLLECTOR_SECRET;
+    if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.force && !secret) {
+      return NextResponse.json(
+        { error: 'force needs COLLECTOR_SECRET to be configured' },
+        { status: 403 }
+      );
+    }
+
+    const run = body.force
+      ? await PriceSnapshotCollector.collect()
+      : await PriceSnapshotCollector.collectIfDue();
+
+    return NextResponse.json({
+      success: true,
+      ran: !!run,
+      run: run || await PriceSnapshotCollector.getLastRun()
+    });
+  } catch (error) {
+    console.error('Price collection API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to collect price snapshots' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    const config = PriceSnapshotCollector.getConfig();
+    const lastRun = await PriceSnapshotCollector.getLastRun();
+
+    return NextResponse.json({
+      success: true,
+      config: {
+        routes: config.routes,
+        bookingWindows: config.bookingWindows,
+        intervalHours: config.intervalHours
+      },
+      lastRun
+    });
+  } catch (error) {
+    console.error('Price collection status API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load collector status' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AmadeusService } from '@/lib/amadeus';
-import { EnhancedPredictionService } from '@/lib/enhanced-prediction';
+import { NormalizedFlightOffer, toNormalizedSearchRequest } from '@/lib/flight-provider';
+import { ProviderAttempt, ProviderRegistry } from '@/lib/provider-registry';
+import type { CacheStatus } from '@/lib/provider-cache';
+import { EnhancedPricePrediction } from '@/lib/enhanced-prediction';
+import { PredictionEngine } from '@/lib/prediction-engine';
+import { RouteProfileService } from '@/lib/route-profiles';
+import { VisitorService } from '@/lib/visitor';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { origin, destination, departureDate, returnDate, passengers, directFlightsOnly } = body;
+    const { visitorId } = VisitorService.fromRequest(request);
 
     // Validate required fields
     if (!origin || !destination || !departureDate) {
@@ -20,59 +26,81 @@ export async function POST(request: NextRequest) {
     const departure = new Date(departureDate);
     const bookingDaysAhead = Math.ceil((departure.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
 
-    // Search flights using Amadeus API
-    const searchParams = {
-      originLocationCode: origin,
-      destinationLocationCode: destination,
+    // Typical fare for the route and month, used when no provider returns a price
+    const typicalPrice = RouteProfileService.getMonthProfile(
+      `${origin}-${destination}`,
+      new Date(departureDate).getMonth() + 1
+    ).averagePrice;
+
+    // Search flights through the provider fallback chain
+    const searchParams = toNormalizedSearchRequest({
+      origin,
+      destination,
       departureDate,
       returnDate,
-      adults: passengers || 1,
-      currencyCode: 'GBP',
-      nonStop: directFlightsOnly || false,
-      max: 10
-    };
+      passengers,
+      directFlightsOnly
+    });
 
     let currentPrice: number;
-    let flightOffers: any[] = [];
+    let flightOffers: NormalizedFlightOffer[] = [];
+    let provider: string | undefined;
+    let providerAttempts: ProviderAttempt[] = [];
+    let cache: CacheStatus | undefined;
     let usingFallback = false;
 
     try {
-      // Get real flight data from Amadeus
-      flightOffers = await AmadeusService.searchFlights(searchParams);
+      // Get real flight data from the first healthy provider in the fallback chain
+      ({ provider, offers: flightOffers, attempts: providerAttempts, cache } = await ProviderRegistry.search(searchParams, undefined, { serveExpired: true, signal: request.signal }));
       currentPrice = flightOffers.length > 0 
-        ? parseFloat(flightOffers[0].price.total)
-        : Math.floor(Math.random() * 400) + 200;
-    } catch (amadeusError) {
-      console.error('Amadeus API error:', amadeusError);
+        ? flightOffers[0].price
+        : typicalPrice; // Typical fare if no results
+    } catch (providerError) {
+      if (request.signal.aborted) throw providerError;
+      console.error('Flight provider error:', providerError);
       // Fallback to estimated price
-      currentPrice = Math.floor(Math.random() * 400) + 200;
+      currentPrice = typicalPrice;
       usingFallback = true;
     }
 
-    // Generate enhanced prediction with high confidence
-    const enhancedPrediction = await EnhancedPredictionService.generateEnhancedPrediction(
-      currentPrice,
-      origin,
-      destination,
-      departureDate,
-      bookingDaysAhead
+    // Generate enhanced prediction (confidence comes from the strategy's backtested calibration)
+    const enhancedPrediction = await PredictionEngine.predict<EnhancedPricePrediction>(
+      {
+        currentPrice, origin, destination, departureDate, bookingDaysAhead,
+        audit: {
+          source: 'enhanced-search',
+          visitorId,
+          pricing: provider && flightOffers.length > 0
+            ? { provider, price: currentPrice, offerPrices: flightOffers.slice(0, 10).map(offer => offer.price) }
+            : { provider: 'typical', price: currentPrice }
+        }
+      },
+      'enhanced'
     );
 
     return NextResponse.json({
       success: true,
       enhancedPrediction,
       flightOffers: flightOffers.slice(0, 3),
+      provider,
+      providerAttempts,
       searchParams,
       usingFallback,
       metadata: {
         searchTimestamp: new Date().toISOString(),
         bookingDaysAhead,
+        cache,
+        strategy: enhancedPrediction.strategy,
         dataQuality: enhancedPrediction.dataQuality,
         modelAccuracy: enhancedPrediction.modelAccuracy
       }
     });
 
   } catch (error) {
+    if (request.signal.aborted) {
+      // The client went away; provider calls were cancelled with it
+      return NextResponse.json({ error: 'Request cancelled' }, { status: 499 });
+    }
     console.error('Enhanced search API error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -87,9 +115,9 @@ export async function GET() {
     methods: ['POST'],
     requiredFields: ['origin', 'destination', 'departureDate'],
     features: [
-      'Real-time Amadeus flight data',
+      'Real-time flight data from the provider fallback chain',
       'Enhanced prediction algorithm',
-      'High confidence calculations (65-98%)',
+      'Confidence calibrated from backtested accuracy',
       'Comprehensive historical analysis',
       'Multiple prediction factors',
       'Data quality metrics'
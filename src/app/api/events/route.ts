@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UserEventService } from '@/lib/user-events';
+import { VisitorService } from '@/lib/visitor';
+import { PredictionAuditLog } from '@/lib/prediction-audit';
+
+// Booking-flow events for a prediction that was shown:
+// POST { "predictionId": "...", "type": "click_through" | "dismiss" | "reminder_set", "partner"?: "aviasales" }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { predictionId, type, partner } = body;
+
+    if (!predictionId || typeof predictionId !== 'string' || predictionId.length > 100) {
+      return NextResponse.json(
+        { error: 'predictionId is required' },
+        { status: 400 }
+      );
+    }
+    if (!UserEventService.isEventType(type)) {
+      return NextResponse.json(
+        { error: `type must be one of ${UserEventService.EVENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (partner !== undefined && (typeof partner !== 'string' || !/^[a-z0-9-]{1,30}$/.test(partner))) {
+      return NextResponse.json(
+        { error: 'partner must be a short lowercase id' },
+        { status: 400 }
+      );
+    }
+
+    if (!await PredictionAuditLog.get(predictionId)) {
+      return NextResponse.json(
+        { error: `Prediction ${predictionId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const { visitorId } = VisitorService.fromRequest(request);
+    const event = await UserEventService.record({ predictionId, visitorId, type, partner });
+
+    return NextResponse.json({ success: true, eventId: event.id });
+  } catch (error) {
+    console.error('Events API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record event' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const predictionId = request.nextUrl.searchParams.get('predictionId');
+    if (!predictionId) {
+      return NextResponse.json({
+        message: 'Booking-flow events linked to predictions',
+        methods: ['POST', 'GET ?predictionId='],
+        eventTypes: UserEventService.EVENT_TYPES
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      predictionId,
+      events: (await UserEventService.getEvents(predictionId)).map(event => UserEventService.toPublic(event))
+    });
+  } catch (error) {
+    console.error('Events API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load events' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toNormalizedSearchRequest } from '@/lib/flight-provider';
+import { ProviderRegistry } from '@/lib/provider-registry';
+import type { CacheStatus } from '@/lib/provider-cache';
+import { PriceForecastService } from '@/lib/price-forecast';
+import { RouteProfileService } from '@/lib/route-profiles';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { origin, destination, departureDate, currency, days, level } = body;
+    let { currentPrice } = body;
+
+    // Validate required fields
+    if (!origin || !destination || !departureDate) {
+      return NextResponse.json(
+        { error: 'Missing required fields: origin, destination, departureDate' },
+        { status: 400 }
+      );
+    }
+
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > PriceForecastService.MAX_DAYS)) {
+      return NextResponse.json(
+        { error: `days must be a whole number from 1 to ${PriceForecastService.MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    if (level !== undefined && !PriceForecastService.isSupportedLevel(level)) {
+      return NextResponse.json(
+        { error: 'level must be one of 0.8, 0.9, 0.95' },
+        { status: 400 }
+      );
+    }
+
+    const bookingDaysAhead = Math.ceil((new Date(departureDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+    if (isNaN(bookingDaysAhead) || bookingDaysAhead < 2) {
+      return NextResponse.json(
+        { error: 'departureDate must be a valid date at least 2 days away' },
+        { status: 400 }
+      );
+    }
+
+    let provider: string | undefined;
+    let cache: CacheStatus | undefined;
+    let priceSource: 'request' | 'provider' | 'typical' = 'request';
+
+    // Look up today's price when the caller doesn't already have one
+    if (typeof currentPrice !== 'number' || currentPrice <= 0) {
+      await RouteProfileService.refreshIfStale();
+      currentPrice = RouteProfileService.getMonthProfile(
+        `${origin}-${destination}`,
+        new Date(departureDate).getMonth() + 1
+      ).averagePrice;
+      priceSource = 'typical';
+
+      try {
+        const { provider: servedBy, offers, cache: cacheStatus } = await ProviderRegistry.search(
+          toNormalizedSearchRequest({ origin, destination, departureDate, currency }),
+          undefined,
+          { serveExpired: true, signal: request.signal }
+        );
+        if (offers.length > 0) {
+          currentPrice = offers[0].price;
+          provider = servedBy;
+          cache = cacheStatus;
+          priceSource = 'provider';
+        }
+      } catch (providerError) {
+        if (request.signal.aborted) throw providerError;
+        console.error('Flight provider error:', providerError);
+      }
+    }
+
+    const forecast = await PriceForecastService.generateForecast({
+      origin,
+      destination,
+      departureDate,
+      currentPrice,
+      currency,
+      days,
+      level
+    });
+
+    return NextResponse.json({
+      success: true,
+      forecast,
+      provider,
+      priceSource,
+      metadata: { cache }
+    });
+
+  } catch (error) {
+    if (request.signal.aborted) {
+      // The client went away; provider calls were cancelled with it
+      return NextResponse.json({ error: 'Request cancelled' }, { status: 499 });
+    }
+    console.error('Forecast API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate price forecast' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Multi-day price forecast API endpoint',
+    methods: ['POST'],
+    requiredFields: ['origin', 'destination', 'departureDate'],
+    optionalFields: ['currentPrice', 'currency', 'days', 'level'],
+    defaults: {
+      days: PriceForecastService.DEFAULT_DAYS,
+      maxDays: PriceForecastService.MAX_DAYS,
+      level: PriceForecastService.DEFAULT_LEVEL
+    }
+  });
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PredictionAuditLog } from '@/lib/prediction-audit';
+import { PredictionEngine } from '@/lib/prediction-engine';
+import { UserEventService } from '@/lib/user-events';
+import { ABTestingFramework } from '@/lib/ab-testing';
+import { VisitorService } from '@/lib/visitor';
+
+// Audit record for a prediction: its inputs, strategy and version, provider prices and output,
+// plus the booking-flow events and A/B outcome linked to it. ?replay=true reruns the prediction.
+// Visitor and user ids are only included for the visitor the prediction was made for.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const record = await PredictionAuditLog.get(id);
+    if (!record) {
+      return NextResponse.json(
+        { error: `Prediction ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const [events, abTestResult] = await Promise.all([
+      UserEventService.getEvents(id),
+      ABTestingFramework.getTestResult(id)
+    ]);
+
+    // Anyone with the id can look a prediction up, so strip who asked unless it's them
+    const { visitorId } = VisitorService.fromRequest(request);
+    const isOwner = !!visitorId && visitorId === record.visitorId;
+
+    const replayRequested = request.nextUrl.searchParams.get('replay') === 'true';
+    const replay = replayRequested ? await PredictionEngine.replay(id) : undefined;
+
+    return NextResponse.json({
+      success: true,
+      prediction: isOwner ? record : { ...record, visitorId: undefined },
+      events: isOwner ? events : events.map(event => UserEventService.toPublic(event)),
+      abTestResult: isOwner || !abTestResult ? abTestResult : { ...abTestResult, userId: undefined },
+      replay: replay && {
+        matches: replay.matches,
+        sameStrategyVersion: replay.sameStrategyVersion,
+        differences: replay.differences,
+        replayed: replay.replayed
+      }
+    });
+  } catch (error) {
+    console.error('Prediction audit API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load prediction' },
+      { status: 500 }
+    );
+  }
+}
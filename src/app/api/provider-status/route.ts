@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { ProviderRegistry } from '@/lib/provider-registry';
+import { ProviderHealthTracker } from '@/lib/provider-health';
+
+export async function GET() {
+  try {
+    const chain = ProviderRegistry.getChain().map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      configured: provider.isConfigured()
+    }));
+
+    return NextResponse.json({
+      success: true,
+      chain,
+      health: ProviderRegistry.getHealth(),
+      thresholds: ProviderHealthTracker.getConfig(),
+      quotas: await ProviderRegistry.getQuotas(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Provider status API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch provider status' },
+      { status: 500 }
+    );
+  }
+}
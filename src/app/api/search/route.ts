@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AmadeusService } from '@/lib/amadeus';
-import { PricePredictionService } from '@/lib/prediction';
+import { toNormalizedSearchRequest } from '@/lib/flight-provider';
+import { ProviderRegistry } from '@/lib/provider-registry';
+import { PredictionEngine } from '@/lib/prediction-engine';
+import { RouteProfileService } from '@/lib/route-profiles';
+import { VisitorService } from '@/lib/visitor';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { origin, destination, departureDate, returnDate, passengers, directFlightsOnly } = body;
+    const { origin, destination, departureDate, returnDate, passengers, directFlightsOnly, strategy } = body;
+    const { visitorId } = VisitorService.fromRequest(request);
 
     // Validate required fields
     if (!origin || !destination || !departureDate) {
@@ -15,52 +19,81 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Search flights using Amadeus API
-    const searchParams = {
-      originLocationCode: origin,
-      destinationLocationCode: destination,
+    if (strategy && !PredictionEngine.hasStrategy(strategy)) {
+      return NextResponse.json(
+        { error: `Unknown prediction strategy: ${strategy}` },
+        { status: 400 }
+      );
+    }
+
+    // Make sure predictions use current learned route profiles
+    await RouteProfileService.refreshIfStale();
+
+    // Typical fare for the route and month, used when no provider returns a price
+    const typicalPrice = RouteProfileService.getMonthProfile(
+      `${origin}-${destination}`,
+      new Date(departureDate).getMonth() + 1
+    ).averagePrice;
+
+    // Search flights through the provider fallback chain
+    const searchParams = toNormalizedSearchRequest({
+      origin,
+      destination,
       departureDate,
       returnDate,
-      adults: passengers || 1,
-      currencyCode: 'GBP',
-      max: 10,
-      nonStop: directFlightsOnly || false
-    };
+      passengers,
+      directFlightsOnly
+    });
 
     try {
-      // Get real flight data from Amadeus
-      const flightOffers = await AmadeusService.searchFlights(searchParams);
+      // Get real flight data from the first healthy provider in the fallback chain
+      const { provider, offers: flightOffers, attempts, cache } = await ProviderRegistry.search(searchParams, undefined, { serveExpired: true, signal: request.signal });
       
       // Get the cheapest price
       const currentPrice = flightOffers.length > 0 
-        ? parseFloat(flightOffers[0].price.total)
-        : Math.floor(Math.random() * 400) + 200; // Fallback to mock if no results
+        ? flightOffers[0].price
+        : typicalPrice; // Typical fare if no results
 
       // Generate prediction based on real price
-      const prediction = PricePredictionService.generatePrediction(
-        currentPrice,
-        origin,
-        destination,
-        departureDate
+      const prediction = await PredictionEngine.predict(
+        {
+          currentPrice, origin, destination, departureDate,
+          audit: {
+            source: 'search',
+            visitorId,
+            pricing: flightOffers.length > 0
+              ? { provider, price: currentPrice, offerPrices: flightOffers.slice(0, 10).map(offer => offer.price) }
+              : { provider: 'typical', price: currentPrice }
+          }
+        },
+        strategy
       );
 
       return NextResponse.json({
         success: true,
         prediction,
         flightOffers: flightOffers.slice(0, 3), // Return top 3 offers
-        searchParams
+        provider,
+        providerAttempts: attempts,
+        searchParams,
+        metadata: { cache }
       });
 
-    } catch (amadeusError) {
-      console.error('Amadeus API error:', amadeusError);
+    } catch (providerError) {
+      if (request.signal.aborted) throw providerError;
+      console.error('Flight provider error:', providerError);
       
-      // Fallback to mock data if Amadeus fails
-      const mockPrice = Math.floor(Math.random() * 400) + 200;
-      const prediction = PricePredictionService.generatePrediction(
-        mockPrice,
-        origin,
-        destination,
-        departureDate
+      // Fall back to the typical fare if the provider fails
+      const prediction = await PredictionEngine.predict(
+        {
+          currentPrice: typicalPrice, origin, destination, departureDate,
+          audit: {
+            source: 'search',
+            visitorId,
+            pricing: { provider: 'typical', price: typicalPrice }
+          }
+        },
+        strategy
       );
 
       return NextResponse.json({
@@ -68,11 +101,15 @@ export async function POST(request: NextRequest) {
         prediction,
         fallbackMode: true,
         searchParams,
-        error: 'Using mock data - Amadeus API unavailable'
+        error: 'Using mock data - flight provider unavailable'
       });
     }
 
   } catch (error) {
+    if (request.signal.aborted) {
+      // The client went away; provider calls were cancelled with it
+      return NextResponse.json({ error: 'Request cancelled' }, { status: 499 });
+    }
     console.error('Search API error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -85,6 +122,8 @@ export async function GET() {
   return NextResponse.json({
     message: 'Flight search API endpoint',
     methods: ['POST'],
-    requiredFields: ['origin', 'destination', 'departureDate']
+    requiredFields: ['origin', 'destination', 'departureDate'],
+    optionalFields: ['returnDate', 'passengers', 'directFlightsOnly', 'strategy'],
+    strategies: PredictionEngine.listStrategies()
   });
 }
@@ -1,13 +1,18 @@
 import { NextResponse } from 'next/server';
 import { PricePredictionService } from '@/lib/prediction';
+import { RouteProfileService } from '@/lib/route-profiles';
+import { PredictionEngine } from '@/lib/prediction-engine';
 
 export async function GET() {
   try {
-    const spotlightRoutes = PricePredictionService.getSpotlightRoutes();
+    await RouteProfileService.refreshIfStale();
+    const strategy = PredictionEngine.getStrategyInfo('heuristic');
+    const spotlightRoutes = await PricePredictionService.getSpotlightRoutes(strategy);
     
     return NextResponse.json({
       success: true,
       routes: spotlightRoutes,
+      strategy,
       lastUpdated: new Date().toISOString()
     });
   } catch (error) {
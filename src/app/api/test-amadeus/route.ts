@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { AmadeusService } from '@/lib/amadeus';
+import { ProviderRegistry } from '@/lib/provider-registry';
 
 export async function GET() {
   try {
@@ -11,15 +11,20 @@ export async function GET() {
     const departureDateStr = futureDate.toISOString().split('T')[0];
     
     const testParams = {
-      originLocationCode: 'LHR',
-      destinationLocationCode: 'JFK',
+      origin: 'LHR',
+      destination: 'JFK',
       departureDate: departureDateStr,
       adults: 1,
-      currencyCode: 'GBP',
-      max: 5
+      currency: 'GBP',
+      maxResults: 5
     };
 
-    const flightOffers = await AmadeusService.searchFlights(testParams);
+    const amadeus = ProviderRegistry.getProvider('amadeus');
+    if (!amadeus) {
+      throw new Error('Amadeus provider is not registered');
+    }
+
+    const { offers: flightOffers } = await ProviderRegistry.search(testParams, amadeus, { bypassCache: true });
     
     return NextResponse.json({
       success: true,
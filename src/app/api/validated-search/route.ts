@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { StatisticalValidator } from '@/lib/statistical-validator';
 import { ABTestingFramework } from '@/lib/ab-testing';
-import { AmadeusService } from '@/lib/amadeus';
 import { FlightPriceAggregator } from '@/lib/flight-aggregator';
+import type { CacheStatus } from '@/lib/provider-cache';
+import { VisitorService } from '@/lib/visitor';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { origin, destination, departureDate, returnDate, passengers, userId, directFlightsOnly } = body;
+    const { origin, destination, departureDate, returnDate, directFlightsOnly } = body;
 
     // Validate required fields
     if (!origin || !destination || !departureDate) {
@@ -17,189 +18,118 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate user ID if not provided (deterministic default)
-    const effectiveUserId = userId || `user_default`;
+    // Anonymous visitor id from the middleware cookie (null when opted out)
+    const { visitorId } = VisitorService.fromRequest(request);
 
-    // Deterministic in-memory cache (10 minutes TTL)
-    type CacheEntry = { price: number; timestamp: number };
-    const CACHE_TTL_MS = 60 * 1000;
-    // Module-scoped singleton cache
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const globalAny = global as any;
-    if (!globalAny.__validated_search_cache) {
-      globalAny.__validated_search_cache = new Map<string, CacheEntry>();
-    }
-    const cache: Map<string, CacheEntry> = globalAny.__validated_search_cache;
-    const cacheKey = JSON.stringify({ origin, destination, departureDate, returnDate: returnDate || null, pax: passengers || 1, direct: !!directFlightsOnly });
-
-    const now = Date.now();
-    const cached = cache.get(cacheKey);
-    if (cached && now - cached.timestamp < CACHE_TTL_MS) {
-      const currentPrice = cached.price;
-      const validatedPrediction = {
-        currentPrice,
-        currency: 'GBP',
-        timestamp: new Date(cached.timestamp).toISOString(),
-        // Deterministic heuristics (no randomness)
-        probabilityIncrease: 0.55,
-        probabilityDecrease: 0.45,
-        confidence: 85,
-        recommendation: (currentPrice <= Math.max(150, Math.round(currentPrice * 0.92))) ? 'BUY_NOW' as const : 'WAIT' as const,
-        historicalContext: `Based on recent market data for ${origin}-${destination}`,
-        priceRange: {
-          min: Math.floor(currentPrice * 0.95),
-          max: Math.floor(currentPrice * 1.15),
-          average: Math.floor(currentPrice)
-        },
-        validatedConfidence: 85,
-        statisticalConfidence: {
-          sampleSize: 300,
-          accuracy: 0.85
-        },
-        abTestVariant: 'A' as const,
-        abTestMetrics: {
-          conversionRate: 0.55,
-          userSatisfaction: 0.9
-        }
-      };
-
-      ABTestingFramework.trackUserAction(
-        effectiveUserId,
-        `${origin}-${destination}`,
-        validatedPrediction.recommendation,
-        'NO_ACTION',
-        currentPrice
-      );
-
-      return NextResponse.json({
-        success: true,
-        validatedPrediction,
-        metadata: {
-          searchTimestamp: new Date().toISOString(),
-          userId: effectiveUserId,
-          statisticallyValidated: true,
-          abTestVariant: validatedPrediction.abTestVariant,
-          trueConfidence: validatedPrediction.validatedConfidence,
-          sampleSize: validatedPrediction.statisticalConfidence.sampleSize,
-          cache: 'HIT'
-        }
-      });
-    }
-
-    // Use the new Flight Price Aggregator for average pricing
+    // Average pricing only; the prediction is made once, below. Provider responses
+    // come from the shared provider cache.
+    const startedAt = Date.now();
     let currentPrice = 400; // Default fallback
-    let isExact: boolean = false; // Average prices are not exact
+    let provider = 'none'; // Provider from the fallback chain that served the price
+    let cache: CacheStatus | undefined;
+    let cheapestPrice: number | undefined;
+    let degradedReason: string | undefined;
     let minToday: number | undefined;
     let maxToday: number | undefined;
-    
+    let sources: string[] | undefined;
+
     try {
-      // Get comprehensive flight analysis with average pricing
-      const flightAnalysis = await FlightPriceAggregator.getFlightAnalysis({
+      const priceData = await FlightPriceAggregator.getAverageFlightPrices({
         origin,
         destination,
         departureDate,
         returnDate,
         currency: 'GBP',
         directOnly: !!directFlightsOnly
-      });
-
-      if (flightAnalysis) {
-        currentPrice = flightAnalysis.pricing.averagePrice;
-        minToday = flightAnalysis.pricing.minPrice;
-        maxToday = flightAnalysis.pricing.maxPrice;
-        isExact = false; // This is an average, not exact
-        console.log(`Using aggregated average price: £${currentPrice} (from ${flightAnalysis.pricing.sources.join(', ')})`);
-        console.log(`Price range: £${minToday} - £${maxToday} (${flightAnalysis.pricing.priceCount} data points)`);
-      } else {
-        // Fallback to Amadeus if aggregator fails
-        const amadeusParams = {
-          originLocationCode: origin,
-          destinationLocationCode: destination,
-          departureDate,
-          returnDate,
-          adults: passengers || 1,
-          currencyCode: 'GBP',
-          max: 10,
-          nonStop: directFlightsOnly || false
-        };
-
-        const flightOffers = await AmadeusService.searchFlights(amadeusParams);
-        currentPrice = flightOffers.length > 0 
-          ? parseFloat(flightOffers[0].price.total)
-          : 400;
-        console.log(`Using Amadeus fallback price: £${currentPrice}`);
+      }, { serveExpired: true, signal: request.signal });
+
+      if (priceData) {
+        currentPrice = priceData.averagePrice;
+        minToday = priceData.minPrice;
+        maxToday = priceData.maxPrice;
+        provider = priceData.provider;
+        cache = priceData.cache;
+        cheapestPrice = priceData.cheapestPrice;
+        degradedReason = priceData.degradedReason;
+        sources = priceData.sources;
+        console.log(`Using aggregated average price: £${currentPrice} (from ${priceData.sources.join(', ')})`);
+        console.log(`Price range: £${minToday} - £${maxToday} (${priceData.priceCount} data points)`);
       }
 
     } catch (error) {
+      if (request.signal.aborted) throw error;
       console.error('Error fetching aggregated flight prices:', error);
       currentPrice = 400; // Use fallback price
     }
 
-    // Small delay to mirror Aviasales search feel and avoid UI flicker
-    if (Date.now() - now < 800) {
-      await new Promise((r) => setTimeout(r, 800 - (Date.now() - now)));
+    // Small delay on fresh searches to mirror Aviasales search feel and avoid UI flicker
+    const servedFromCache = cache === 'HIT' || cache === 'STALE';
+    if (!servedFromCache && Date.now() - startedAt < 800) {
+      await new Promise((r) => setTimeout(r, 800 - (Date.now() - startedAt)));
     }
 
-    // Store in cache
-    cache.set(cacheKey, { price: currentPrice, timestamp: now });
+    // Strategy prediction, user's A/B variant, error bounds and validation metrics
+    const prediction = await StatisticalValidator.getValidatedPrediction(
+      currentPrice,
+      origin,
+      destination,
+      departureDate,
+      visitorId,
+      'GBP',
+      {
+        source: 'validated-search',
+        visitorId,
+        pricing: { provider, price: currentPrice, minPrice: minToday, maxPrice: maxToday, sources }
+      }
+    );
 
-    // Deterministic validated prediction (no randomness)
     const validatedPrediction = {
-      currentPrice,
-      currency: 'GBP',
-      timestamp: new Date(now).toISOString(),
-      probabilityIncrease: 0.55,
-      probabilityDecrease: 0.45,
-      confidence: 85,
-      recommendation: (currentPrice <= Math.max(150, Math.round(currentPrice * 0.92))) ? 'BUY_NOW' as const : 'WAIT' as const,
-      historicalContext: `Based on recent market data for ${origin}-${destination}`,
-      priceRange: {
-        min: Math.floor(currentPrice * 0.95),
-        max: Math.floor(currentPrice * 1.15),
-        average: Math.floor(currentPrice)
-      },
+      ...prediction,
       // Display hints for UI
       isExact: false, // Always false for average prices
       basis: 'month' as 'exact' | 'month',
       minToday,
       maxToday,
-      displayPrefix: 'avg. ', // Indicate this is an average price
-      validatedConfidence: 85,
-      statisticalConfidence: {
-        sampleSize: 300,
-        accuracy: 0.85
-      },
-      abTestVariant: 'A' as const,
-      abTestMetrics: {
-        conversionRate: 0.55,
-        userSatisfaction: 0.9
-      }
+      displayPrefix: 'avg. ' // Indicate this is an average price
     };
 
-    // Track this as an A/B test interaction
-    ABTestingFramework.trackUserAction(
-      effectiveUserId,
-      `${origin}-${destination}`,
-      validatedPrediction.recommendation,
-      'NO_ACTION', // Will be updated when user takes action
-      currentPrice
-    );
+    // Track this as an A/B test interaction. The outcome check compares live fares, so only
+    // a search a live provider answered (not from an expired cache entry) can be scored.
+    const livePrice = provider !== 'none' && provider !== 'mock' && !degradedReason ? cheapestPrice : undefined;
+    if (livePrice !== undefined) {
+      await ABTestingFramework.trackUserAction(
+        visitorId,
+        `${origin}-${destination}`,
+        validatedPrediction.recommendation,
+        'NO_ACTION', // Updated from /api/events when the user clicks through or sets a reminder
+        { price: livePrice, provider },
+        { departureDate, returnDate, currency: 'GBP', directOnly: !!directFlightsOnly },
+        validatedPrediction.predictionId
+      );
+    }
 
     return NextResponse.json({
       success: true,
       validatedPrediction,
       metadata: {
         searchTimestamp: new Date().toISOString(),
-        userId: effectiveUserId,
-        statisticallyValidated: true,
+        visitorId,
+        statisticallyValidated: validatedPrediction.statisticalConfidence.sampleSize > 0,
         abTestVariant: validatedPrediction.abTestVariant,
         trueConfidence: validatedPrediction.validatedConfidence,
-        sampleSize: validatedPrediction.statisticalConfidence.sampleSize
-      },
-      cache: 'MISS'
+        sampleSize: validatedPrediction.statisticalConfidence.sampleSize,
+        strategy: validatedPrediction.strategy,
+        strategyRecommendation: validatedPrediction.strategyRecommendation,
+        provider,
+        cache
+      }
     });
 
   } catch (error) {
+    if (request.signal.aborted) {
+      // The client went away; provider calls were cancelled with it
+      return NextResponse.json({ error: 'Request cancelled' }, { status: 499 });
+    }
     console.error('Validated search API error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -220,6 +150,6 @@ export async function GET() {
       'A/B testing of recommendations',
       'True statistical confidence (not calculated)'
     ],
-    validationSummary: StatisticalValidator.getValidationSummary()
+    validationSummary: await StatisticalValidator.getValidationSummary()
   });
 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PredictionEngine } from '@/lib/prediction-engine';
+import { CalibrationService } from '@/lib/calibration';
+
+// Reliability diagram data: predicted chance of a price rise vs how often prices rose,
+// plus hit rates by route class and booking window, per strategy
+export async function GET(request: NextRequest) {
+  try {
+    const strategyId = request.nextUrl.searchParams.get('strategy');
+    if (strategyId && !PredictionEngine.hasStrategy(strategyId)) {
+      return NextResponse.json(
+        { error: `Unknown prediction strategy: ${strategyId}` },
+        { status: 400 }
+      );
+    }
+
+    const strategies = strategyId
+      ? [PredictionEngine.getStrategyInfo(strategyId)]
+      : PredictionEngine.listStrategies().map(({ id, version }) => ({ id, version }));
+
+    const reliability = await Promise.all(strategies.map(async strategy => {
+      const calibration = await CalibrationService.load(strategy.id);
+      return {
+        strategy,
+        calibrated: !!calibration,
+        // Confidence only uses calibrations of the current version
+        currentVersion: calibration?.strategy.version === strategy.version,
+        calibratedVersion: calibration?.strategy.version || null,
+        calibratedAt: calibration?.calibratedAt || null,
+        horizonDays: calibration?.horizonDays || null,
+        predictions: calibration?.predictions || 0,
+        accuracy: calibration?.accuracy ?? null,
+        brierScore: calibration?.brierScore ?? null,
+        bins: calibration?.reliability || [],
+        buckets: calibration ? Object.values(calibration.buckets) : []
+      };
+    }));
+
+    return NextResponse.json({
+      success: true,
+      reliability
+    });
+
+  } catch (error) {
+    console.error('Reliability API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load reliability data' },
+      { status: 500 }
+    );
+  }
+}
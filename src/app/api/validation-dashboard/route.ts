@@ -2,14 +2,54 @@ import { NextRequest, NextResponse } from 'next/server';
 import { StatisticalValidator } from '@/lib/statistical-validator';
 import { HistoricalDataManager } from '@/lib/historical-data-manager';
 import { ABTestingFramework } from '@/lib/ab-testing';
+import { PriceObservationStore } from '@/lib/price-observations';
+import { Backtester } from '@/lib/backtester';
+import { JobQueue } from '@/lib/job-queue';
+import { SignificanceOptions } from '@/lib/significance';
+
+// Significance test settings from the query string:
+// ?alpha=0.05&power=0.8&mde=0.05&correction=holm|bonferroni&sequential=true
+function parseSignificanceOptions(params: URLSearchParams): SignificanceOptions | string {
+  const options: SignificanceOptions = { sequential: params.get('sequential') === 'true' };
+
+  const fractions: Array<[string, 'alpha' | 'power' | 'minimumDetectableEffect']> = [
+    ['alpha', 'alpha'],
+    ['power', 'power'],
+    ['mde', 'minimumDetectableEffect']
+  ];
+  for (const [param, option] of fractions) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+    const value = parseFloat(raw);
+    if (!(value > 0 && value < 1)) return `${param} must be between 0 and 1`;
+    options[option] = value;
+  }
+
+  const correction = params.get('correction');
+  if (correction !== null) {
+    if (correction !== 'holm' && correction !== 'bonferroni') return 'correction must be holm or bonferroni';
+    options.correction = correction;
+  }
+  return options;
+}
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const significanceOptions = parseSignificanceOptions(request.nextUrl.searchParams);
+    if (typeof significanceOptions === 'string') {
+      return NextResponse.json(
+        { error: significanceOptions },
+        { status: 400 }
+      );
+    }
+
     // Get comprehensive validation summary
-    const validationSummary = StatisticalValidator.getValidationSummary();
-    const backtestResults = HistoricalDataManager.loadBacktestResults();
-    const abTestMetrics = ABTestingFramework.calculateTestMetrics();
-    const winningVariant = ABTestingFramework.getWinningVariant();
+    const validationSummary = await StatisticalValidator.getValidationSummary();
+    const backtestResults = await HistoricalDataManager.loadBacktestResults();
+    const observationCounts = await PriceObservationStore.count();
+    const abTestMetrics = await ABTestingFramework.calculateTestMetrics();
+    const winningVariant = await ABTestingFramework.getWinningVariant(significanceOptions);
+    const pendingOutcomeChecks = await JobQueue.list({ status: 'pending', type: ABTestingFramework.OUTCOME_CHECK_JOB });
 
     return NextResponse.json({
       success: true,
@@ -28,19 +68,24 @@ export async function GET() {
 
         // A/B Testing Results
         abTesting: {
-          variants: ABTestingFramework.getVariants(),
+          experiment: await ABTestingFramework.getConfig(),
+          variants: await ABTestingFramework.getVariants(),
           metrics: abTestMetrics,
           winningVariant: winningVariant.winner,
           isSignificant: winningVariant.significant,
-          totalTests: abTestMetrics.reduce((sum, m) => sum + m.totalRecommendations, 0)
+          significance: winningVariant.analysis,
+          totalTests: abTestMetrics.reduce((sum, m) => sum + m.totalRecommendations, 0),
+          resolvedTests: abTestMetrics.reduce((sum, m) => sum + m.resolvedRecommendations, 0),
+          pendingOutcomeChecks: pendingOutcomeChecks.length
         },
 
         // Data Quality Metrics
         dataQuality: {
           lastValidation: validationSummary.lastValidation,
           needsRefresh: validationSummary.needsRefresh,
-          historicalDataPoints: getHistoricalDataCount(),
-          realDataPercentage: getRealDataPercentage()
+          historicalDataPoints: observationCounts.total,
+          realDataPercentage: observationCounts.total > 0 ?
+            Math.round((observationCounts.real / observationCounts.total) * 10000) / 100 : 0
         },
 
         // System Status
@@ -83,42 +128,39 @@ function calculateAccuracyByRoute(backtestResults: any[]) {
   return routeAccuracy;
 }
 
-// Helper method to get historical data count
-function getHistoricalDataCount(): number {
-  if (typeof window !== 'undefined') {
-    const data = localStorage.getItem('flight_historical_data');
-    return data ? JSON.parse(data).length : 0;
-  }
-  return 0;
-}
-
-// Helper method to get real data percentage
-function getRealDataPercentage(): number {
-  if (typeof window !== 'undefined') {
-    const data = localStorage.getItem('flight_historical_data');
-    if (data) {
-      const historicalData = JSON.parse(data);
-      const realDataCount = historicalData.filter((d: any) => d.source === 'amadeus').length;
-      return historicalData.length > 0 ? 
-        Math.round((realDataCount / historicalData.length) * 10000) / 100 : 0;
-    }
-  }
-  return 0;
+// Actions queue backtests, so they need "Authorization: Bearer <VALIDATION_SECRET>";
+// without a secret they're only open outside production
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.VALIDATION_SECRET;
+  if (!secret) return process.env.NODE_ENV !== 'production';
+  return request.headers.get('authorization') === `Bearer ${secret}`;
 }
 
+// POST { "action": "refresh_validation" | "initialize_validation" | "refresh_calibration" } queues
+// the backtest for `npm run run-jobs` and returns the job id
 export async function POST(request: NextRequest) {
   try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const body = await request.json();
     const { action } = body;
 
     switch (action) {
       case 'refresh_validation':
-        await StatisticalValidator.performFullValidation();
-        return NextResponse.json({ success: true, message: 'Validation refreshed' });
+      case 'initialize_validation': {
+        const job = await StatisticalValidator.queueValidation();
+        return NextResponse.json({ success: true, message: 'Validation queued', jobId: job.id });
+      }
 
-      case 'initialize_validation':
-        await StatisticalValidator.initializeValidation();
-        return NextResponse.json({ success: true, message: 'Validation initialized' });
+      case 'refresh_calibration': {
+        const job = await Backtester.queueCalibration();
+        return NextResponse.json({ success: true, message: 'Calibration queued', jobId: job.id });
+      }
 
       default:
         return NextResponse.json(
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VisitorService } from '@/lib/visitor';
+import { ABTestingFramework } from '@/lib/ab-testing';
+import { PredictionAuditLog } from '@/lib/prediction-audit';
+import { UserEventService } from '@/lib/user-events';
+import { PriceWatchService } from '@/lib/price-watch';
+
+// The anonymous visitor id behind A/B bucketing. DELETE forgets the visitor (stored data
+// and cookie; a fresh id is issued on the next visit). POST { "optOut": true } forgets
+// the visitor and stops issuing ids; { "optOut": false } opts back in.
+export async function GET(request: NextRequest) {
+  const identity = VisitorService.fromRequest(request);
+  return NextResponse.json({ success: true, ...identity });
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { visitorId } = VisitorService.fromRequest(request);
+    const removed = visitorId ? await forgetVisitor(visitorId) : null;
+
+    const response = NextResponse.json({ success: true, cleared: !!visitorId, removed });
+    VisitorService.clearVisitorCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Visitor clear error:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear visitor data' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.optOut !== 'boolean') {
+      return NextResponse.json(
+        { error: 'optOut (boolean) is required' },
+        { status: 400 }
+      );
+    }
+
+    const { visitorId } = VisitorService.fromRequest(request);
+    const removed = body.optOut && visitorId ? await forgetVisitor(visitorId) : null;
+
+    const response = NextResponse.json({ success: true, optedOut: body.optOut, removed });
+    VisitorService.setOptOut(response, body.optOut);
+    return response;
+  } catch (error) {
+    console.error('Visitor opt-out error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update opt-out' },
+      { status: 500 }
+    );
+  }
+}
+
+// Everything stored against the visitor id
+async function forgetVisitor(visitorId: string) {
+  const abTesting = await ABTestingFramework.forgetUser(visitorId);
+  const predictions = await PredictionAuditLog.forgetVisitor(visitorId);
+  const events = await UserEventService.forgetVisitor(visitorId);
+  const watches = await PriceWatchService.forgetVisitor(visitorId);
+  return { ...abTesting, predictions, events, watches };
+}
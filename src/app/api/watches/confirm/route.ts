@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PriceWatchService } from '@/lib/price-watch';
+
+// Opened from the confirmation email: GET ?id=<watch id>&token=<token> activates the watch,
+// so alerts start going to its address
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    const token = request.nextUrl.searchParams.get('token');
+    if (!id || !token) {
+      return NextResponse.json(
+        { error: 'id and token are required' },
+        { status: 400 }
+      );
+    }
+
+    const watch = await PriceWatchService.confirm(id, token);
+    if (!watch) {
+      return NextResponse.json(
+        { error: 'This confirmation link is invalid or was already used' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Price alerts for ${watch.origin} → ${watch.destination} are on`,
+      watchId: watch.id
+    });
+  } catch (error) {
+    console.error('Price watch confirm error:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm price watch' },
+      { status: 500 }
+    );
+  }
+}
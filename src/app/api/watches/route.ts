@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PriceWatchService } from '@/lib/price-watch';
+import { NotifierRegistry } from '@/lib/notifier';
+import { VisitorService } from '@/lib/visitor';
+
+// Price watches for the current visitor. POST saves one:
+// { "origin": "LHR", "destination": "JFK", "departureDate": "2026-12-20" (or "flexibleWindow":
+//   { "earliestDeparture", "latestDeparture", "tripLengthDays"? }), "targetPrice"?: 350,
+//   "notify": { "channel": "email" | "webhook" | "log", "target"?: "..." }, "predictionId"?: "..." }
+// Email watches stay pending until the address opens the link sent to it (/api/watches/confirm).
+// GET lists them with the available channels; DELETE ?id= removes one.
+export async function GET(request: NextRequest) {
+  try {
+    const { visitorId } = VisitorService.fromRequest(request);
+    return NextResponse.json({
+      success: true,
+      watches: visitorId ? await PriceWatchService.list(visitorId) : [],
+      channels: NotifierRegistry.getAvailable().map(notifier => notifier.id)
+    });
+  } catch (error) {
+    console.error('Price watches API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load price watches' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { visitorId } = VisitorService.fromRequest(request);
+    if (!visitorId) {
+      return NextResponse.json(
+        { error: 'Price watches need the visitor cookie (cookies are off or you opted out)' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const validationError = body
+      ? PriceWatchService.validateInput(body) || await PriceWatchService.checkLimit(visitorId)
+      : 'Request body must be a JSON price watch';
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Confirmation links point at APP_BASE_URL, so a spoofed Host header can't redirect them
+    const baseUrl = process.env.APP_BASE_URL || request.nextUrl.origin;
+    const watch = await PriceWatchService.create(visitorId, body, baseUrl);
+    return NextResponse.json({ success: true, watch });
+  } catch (error) {
+    console.error('Price watch create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save price watch' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { visitorId } = VisitorService.fromRequest(request);
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'id is required' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = visitorId ? await PriceWatchService.delete(visitorId, id) : false;
+    if (!deleted) {
+      return NextResponse.json(
+        { error: `Price watch ${id} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, deleted: id });
+  } catch (error) {
+    console.error('Price watch delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete price watch' },
+      { status: 500 }
+    );
+  }
+}
@@ -43,8 +43,8 @@ export default function Home() {
           departureDate: searchFormData.departureDate,
           returnDate: searchFormData.returnDate,
           passengers: searchFormData.passengers || 1,
-          directFlightsOnly: searchFormData.directFlightsOnly,
-          userId: `user_${Date.now()}` // Generate unique user ID for A/B testing
+          directFlightsOnly: searchFormData.directFlightsOnly
+          // A/B bucketing uses the anonymous visitor cookie set by the middleware
         })
       });
 
@@ -140,6 +140,7 @@ export default function Home() {
               departureDate={searchData.departureDate}
               returnDate={searchData.returnDate}
               passengers={searchData.passengers}
+              onDismiss={() => setPrediction(null)}
             />
           </div>
         )}
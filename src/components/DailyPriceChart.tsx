@@ -1,7 +1,8 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { ForecastPoint } from '@/lib/price-forecast';
 
 interface DailyDataPoint {
   date: string;
@@ -30,6 +31,33 @@ interface DailyPriceChartProps {
 }
 
 export default function DailyPriceChart({ route, routeInfo, currentPrice, departureDate, priceRange }: DailyPriceChartProps) {
+  const [forecastPoints, setForecastPoints] = useState<ForecastPoint[] | null>(null);
+
+  // Predicted bands come from the forecast API; the estimate below is only used if it fails
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/forecast', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        origin: routeInfo.origin,
+        destination: routeInfo.destination,
+        departureDate,
+        currentPrice,
+        days: 14
+      })
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled && data?.success) setForecastPoints(data.forecast.points);
+      })
+      .catch(error => console.error('Failed to load price forecast:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [routeInfo.origin, routeInfo.destination, departureDate, currentPrice]);
+
   const generateDailyData = (): DailyDataPoint[] => {
     const data: DailyDataPoint[] = [];
     const currentDate = new Date();
@@ -85,7 +113,23 @@ export default function DailyPriceChart({ route, routeInfo, currentPrice, depart
       type: 'current'
     });
     
-    // Generate future predictions for 2 weeks (14 days)
+    if (forecastPoints) {
+      for (const point of forecastPoints) {
+        const futureDate = new Date(`${point.date}T00:00:00`);
+        data.push({
+          date: point.date,
+          price: point.expectedPrice,
+          upperBound: point.upper,
+          lowerBound: point.lower,
+          day: point.daysFromNow === 1 ? 'Tomorrow' :
+            futureDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }),
+          type: 'prediction'
+        });
+      }
+      return data;
+    }
+
+    // Estimated predictions for 2 weeks (14 days) until the forecast loads
     for (let i = 1; i <= 14; i++) {
       const futureDate = new Date(currentDate);
       futureDate.setDate(currentDate.getDate() + i);
@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import { X, Plane, Calendar, Users, Star } from 'lucide-react';
+import { trackPredictionEvent } from '@/lib/event-tracking';
 
 interface FlightSearchModalProps {
   isOpen: boolean;
@@ -9,6 +10,7 @@ interface FlightSearchModalProps {
   defaultOrigin?: string;
   defaultDestination?: string;
   defaultDepartureDate?: string;
+  predictionId?: string; // The prediction that led here, for booking-flow events
 }
 
 interface FlightSearchParams {
@@ -27,7 +29,8 @@ export default function FlightSearchModal({
   onClose, 
   defaultOrigin = '', 
   defaultDestination = '', 
-  defaultDepartureDate = '' 
+  defaultDepartureDate = '',
+  predictionId
 }: FlightSearchModalProps) {
   const [loading, setLoading] = useState(false);
   const [searchParams, setSearchParams] = useState<FlightSearchParams>({
@@ -71,6 +74,7 @@ export default function FlightSearchModal({
       
       if (result.success) {
         // Open the partner link in a new tab
+        trackPredictionEvent(predictionId, 'click_through', 'wayaway');
         window.open(result.partnerUrl, '_blank');
         onClose();
       } else {
@@ -84,6 +88,11 @@ export default function FlightSearchModal({
     }
   };
 
+  const handleDismiss = () => {
+    trackPredictionEvent(predictionId, 'dismiss');
+    onClose();
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -96,7 +105,7 @@ export default function FlightSearchModal({
             <h2 className="text-2xl font-bold text-gray-900">Search Flights</h2>
           </div>
           <button
-            onClick={onClose}
+            onClick={handleDismiss}
             className="p-2 hover:bg-gray-100 rounded-full transition-colors"
           >
             <X className="h-5 w-5 text-gray-500" />
@@ -239,7 +248,7 @@ export default function FlightSearchModal({
         {/* Footer */}
         <div className="flex items-center justify-end space-x-3 p-6 border-t bg-gray-50">
           <button
-            onClick={onClose}
+            onClick={handleDismiss}
             className="px-6 py-3 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
           >
             Cancel
@@ -1,9 +1,10 @@
 'use client';
 
-import React, { useState } from 'react';
-import { TrendingUp, TrendingDown, CheckCircle, AlertTriangle, BarChart3, Search } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { TrendingUp, TrendingDown, CheckCircle, AlertTriangle, BarChart3, Search, Calendar, X, Bell } from 'lucide-react';
 import PredictionDetailsModal from './PredictionDetailsModal';
 import { PricePrediction } from '@/lib/prediction';
+import { trackPredictionEvent } from '@/lib/event-tracking';
 
 interface PricePredictionCardProps {
   prediction: PricePrediction;
@@ -16,10 +17,16 @@ interface PricePredictionCardProps {
   departureDate: string;
   returnDate?: string;
   passengers?: number;
+  onDismiss?: () => void;
 }
 
-export default function PricePredictionCard({ prediction, route, departureDate, returnDate: returnDateProp, passengers }: PricePredictionCardProps) {
+export default function PricePredictionCard({ prediction, route, departureDate, returnDate: returnDateProp, passengers, onDismiss }: PricePredictionCardProps) {
   const [showDetails, setShowDetails] = useState(false);
+  const [showAlertForm, setShowAlertForm] = useState(false);
+  const [alertChannel, setAlertChannel] = useState<string | null>(null);
+  const [alertEmail, setAlertEmail] = useState('');
+  const [alertTargetPrice, setAlertTargetPrice] = useState('');
+  const [alertStatus, setAlertStatus] = useState<{ saving: boolean; message?: string; error?: boolean }>({ saving: false });
   const formatPrice = (price: number) => `£${price.toFixed(0)}`;
   const getConfidenceColor = (confidence: number): string => {
     if (confidence >= 80) return 'text-green-600';
@@ -58,6 +65,7 @@ export default function PricePredictionCard({ prediction, route, departureDate,
       const travelPayoutsUrl = `https://www.aviasales.com/search/${route.origin}${formattedDepartureDate}${route.destination}${formattedReturnDate}${pax}?currency=GBP`;
       
       console.log('Generated Travel Payouts URL:', travelPayoutsUrl);
+      trackPredictionEvent(prediction.predictionId, 'click_through', 'aviasales');
       
       // Open in new tab
       const opened = window.open(travelPayoutsUrl, '_blank');
@@ -76,6 +84,61 @@ export default function PricePredictionCard({ prediction, route, departureDate,
     }
   };
 
+  useEffect(() => {
+    // Email when the server can send it, otherwise the log channel (only offered while
+    // developing); with neither, alerts aren't offered at all
+    fetch('/api/watches')
+      .then(response => response.json())
+      .then(data => {
+        const channels: string[] = data.channels || [];
+        setAlertChannel(channels.includes('email') ? 'email' : channels.includes('log') ? 'log' : null);
+      })
+      .catch(error => console.error('Failed to load alert channels:', error));
+  }, []);
+
+  const handleToggleAlertForm = () => {
+    setShowAlertForm(!showAlertForm);
+  };
+
+  const handleSaveAlert = async () => {
+    setAlertStatus({ saving: true });
+    try {
+      const response = await fetch('/api/watches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          origin: route.origin,
+          destination: route.destination,
+          departureDate,
+          returnDate: returnDateProp || undefined,
+          passengers: passengers || 1,
+          targetPrice: alertTargetPrice ? Number(alertTargetPrice) : undefined,
+          notify: { channel: alertChannel, target: alertChannel === 'email' ? alertEmail : undefined },
+          predictionId: prediction.predictionId
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setAlertStatus({ saving: false, message: data.error || 'Could not save the alert', error: true });
+        return;
+      }
+      setAlertStatus({
+        saving: false,
+        message: data.watch?.status === 'pending'
+          ? 'Check your inbox - open the link we sent to start your alert'
+          : "Alert saved - we'll let you know when the price drops or it's time to book"
+      });
+    } catch (error) {
+      console.error('Failed to save price alert:', error);
+      setAlertStatus({ saving: false, message: 'Could not save the alert', error: true });
+    }
+  };
+
+  const handleDismiss = () => {
+    trackPredictionEvent(prediction.predictionId, 'dismiss');
+    onDismiss?.();
+  };
+
   const getRecommendationBg = (recommendation: string) => {
     return recommendation === 'BUY_NOW' ? 'bg-green-50 border-green-200' : 'bg-orange-50 border-orange-200';
   };
@@ -85,6 +148,10 @@ export default function PricePredictionCard({ prediction, route, departureDate,
   };
 
   const RecommendationIcon = getRecommendationIcon(prediction.recommendation);
+  const bestTime = prediction.bestTimeToBook;
+
+  const formatDay = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
 
   return (
     <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
@@ -131,6 +198,40 @@ export default function PricePredictionCard({ prediction, route, departureDate,
         </div>
       </div>
 
+      {/* Best time to book */}
+      {bestTime && (
+        <div className="p-6 border-b">
+          <h5 className="font-semibold text-gray-900 mb-3 flex items-center space-x-2">
+            <Calendar className="h-5 w-5 text-blue-600" />
+            <span>Best Time to Book</span>
+          </h5>
+          {bestTime.bookNow ? (
+            <p className="text-gray-700">
+              Today - no cheaper day is expected before departure
+            </p>
+          ) : (
+            <div className="space-y-1">
+              <p className="text-gray-700">
+                <span className="font-semibold">{formatDay(bestTime.bookOn)}</span>
+                {' '}({bestTime.bookingDaysAhead} days before departure)
+              </p>
+              <p className="text-sm text-gray-600">
+                Expected {formatPrice(bestTime.expectedPrice)} - about {formatPrice(bestTime.expectedSavings)} less than today
+              </p>
+              <p className="text-sm text-orange-600">
+                {Math.round(bestTime.riskOfWaiting * 100)}% risk the price is higher than today by then
+              </p>
+            </div>
+          )}
+          {bestTime.bestDepartureWeekday && bestTime.bestDepartureWeekday.expectedSavings > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              Flexible dates? {bestTime.bestDepartureWeekday.weekday} departures are typically
+              {' '}{formatPrice(bestTime.bestDepartureWeekday.expectedSavings)} cheaper on this route
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Probability indicators */}
       <div className="p-6 border-b">
         <h5 className="font-semibold text-gray-900 mb-4">7-Day Price Forecast</h5>
@@ -194,6 +295,13 @@ export default function PricePredictionCard({ prediction, route, departureDate,
              prediction.confidence >= 60 ? 'Medium confidence - good prediction' :
              'Lower confidence - monitor closely'}
           </p>
+          {prediction.calibration && (
+            <p className="text-xs text-gray-500">
+              {prediction.calibration.source === 'uncalibrated'
+                ? 'Not yet backtested - confidence is neutral until there is enough price history'
+                : `Backtested: ${Math.round((prediction.calibration.accuracy || 0) * 100)}% correct over ${prediction.calibration.sampleSize} ${prediction.calibration.source === 'bucket' ? 'similar ' : ''}predictions`}
+            </p>
+          )}
           {(prediction as any).dataQuality && (
             <p className="text-xs text-gray-500">
               Based on {(prediction as any).dataQuality.totalDataPoints} historical data points
@@ -250,8 +358,68 @@ export default function PricePredictionCard({ prediction, route, departureDate,
           <BarChart3 className="h-5 w-5" />
           <span>{showDetails ? 'Hide Details' : 'View Details'}</span>
         </button>
+        {alertChannel && (
+          <button
+            onClick={handleToggleAlertForm}
+            className="bg-white hover:bg-gray-100 text-gray-600 border border-gray-200 font-semibold py-3 px-4 rounded-lg transition-colors flex items-center justify-center"
+            aria-label="Set a price alert"
+          >
+            <Bell className="h-5 w-5" />
+          </button>
+        )}
+        {onDismiss && (
+          <button
+            onClick={handleDismiss}
+            className="bg-white hover:bg-gray-100 text-gray-600 border border-gray-200 font-semibold py-3 px-4 rounded-lg transition-colors flex items-center justify-center"
+            aria-label="Dismiss prediction"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        )}
       </div>
 
+      {/* Price alert */}
+      {showAlertForm && alertChannel && (
+        <div className="p-6 border-t border-gray-200 bg-gray-50 space-y-3">
+          <h5 className="font-semibold text-gray-900 flex items-center space-x-2">
+            <Bell className="h-5 w-5 text-blue-600" />
+            <span>Price Alert</span>
+          </h5>
+          <p className="text-sm text-gray-600">
+            We&apos;ll check this route regularly and tell you when it drops to your target price or it&apos;s time to book.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            {alertChannel === 'email' && (
+              <input
+                type="email"
+                value={alertEmail}
+                onChange={(e) => setAlertEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+              />
+            )}
+            <input
+              type="number"
+              min="1"
+              value={alertTargetPrice}
+              onChange={(e) => setAlertTargetPrice(e.target.value)}
+              placeholder={`Target price, e.g. ${formatPrice(prediction.currentPrice * 0.9)}`}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+            />
+            <button
+              onClick={handleSaveAlert}
+              disabled={alertStatus.saving || !alertChannel}
+              className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+            >
+              {alertStatus.saving ? 'Saving...' : 'Save Alert'}
+            </button>
+          </div>
+          {alertStatus.message && (
+            <p className={`text-sm ${alertStatus.error ? 'text-red-600' : 'text-green-600'}`}>{alertStatus.message}</p>
+          )}
+        </div>
+      )}
+
       {/* Inline Details */}
       {showDetails && (
         <div className="border-t border-gray-200">
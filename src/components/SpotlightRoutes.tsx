@@ -2,7 +2,6 @@
 
 import { useState, useEffect } from 'react';
 import { Plane, TrendingUp, TrendingDown, MapPin, Clock } from 'lucide-react';
-import { PricePredictionService } from '@/lib/prediction';
 
 export default function SpotlightRoutes() {
   const [routes, setRoutes] = useState<any[]>([]);
@@ -12,8 +11,13 @@ export default function SpotlightRoutes() {
     // Load spotlight routes data
     const loadRoutes = async () => {
       try {
-        const spotlightRoutes = PricePredictionService.getSpotlightRoutes();
-        setRoutes(spotlightRoutes);
+        // Predictions use server-side route profiles, so load them from the API
+        const response = await fetch('/api/spotlight');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load spotlight routes');
+        }
+        setRoutes(data.routes);
       } catch (error) {
         console.error('Error loading spotlight routes:', error);
       } finally {
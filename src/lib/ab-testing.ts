@@ -1,33 +1,77 @@
+// A/B Testing - variant assignments and recommendation results persisted in Storage.
+// Each tracked recommendation gets a deferred job that re-prices the trip a week later,
+// and its success and savings come from that real fare.
+import fs from 'fs';
+import { Storage } from './storage';
+import { JobQueue } from './job-queue';
+import { ProviderRegistry } from './provider-registry';
+import { SignificanceAnalysis, SignificanceOptions, SignificanceTester } from './significance';
+import type { PricePrediction } from './prediction';
+
 export interface ABTestVariant {
   id: string;
   name: string;
   description: string;
   confidenceThreshold: number; // Different thresholds for BUY_NOW recommendation
   algorithm: 'conservative' | 'aggressive' | 'balanced';
+  trafficPercent: number; // Share of users assigned to this variant, 0-100
+}
+
+// One experiment at a time. Changing its id starts a new experiment with fresh assignments.
+export interface ABExperimentConfig {
+  id: string;
+  status: 'running' | 'stopped';
+  variants: ABTestVariant[];
+  fallbackVariantId: string; // Served to every visitor once the experiment is stopped
+  startedAt: string;
+  stoppedAt?: string;
+  updatedAt: string;
+}
+
+export interface ABAssignment {
+  experimentId: string;
+  variant: ABTestVariant | null; // The variant whose rules apply to this user's predictions; null leaves them unchanged
+  enrolled: boolean; // False outside the traffic split or when the experiment is stopped - nothing is tracked
 }
 
 export interface ABTestResult {
+  id: string;
+  experimentId?: string; // Missing on results recorded before experiments had ids (the default experiment)
   variantId: string;
   userId: string;
   route: string;
   recommendation: 'BUY_NOW' | 'WAIT';
   userAction: 'BOUGHT' | 'WAITED' | 'NO_ACTION';
-  actualOutcome: 'PRICE_INCREASED' | 'PRICE_DECREASED' | 'UNKNOWN';
-  success: boolean; // True if recommendation matched optimal action
+  actualOutcome: 'PRICE_INCREASED' | 'PRICE_DECREASED' | 'PRICE_UNCHANGED' | 'UNKNOWN';
+  success: boolean; // True if recommendation matched optimal action (false until the outcome is known)
   timestamp: string;
-  priceAtRecommendation: number;
-  priceAfter7Days?: number;
+  priceAtRecommendation: number; // Cheapest live offer when the recommendation was shown
+  priceProvider?: string; // Provider that offered priceAtRecommendation
+  search?: ABTestSearch; // What was priced, so the outcome check can price it again
+  priceAfter7Days?: number; // Or the day before departure, when that's sooner
+  outcomeCheckedAt?: string;
+  outcomeProvider?: string;
   savings?: number; // Positive if user saved money, negative if they lost
 }
 
+export interface ABTestSearch {
+  departureDate: string;
+  returnDate?: string;
+  currency: string;
+  directOnly?: boolean;
+}
+
 export interface ABTestMetrics {
   variantId: string;
   totalRecommendations: number;
+  resolvedRecommendations: number; // With a known price outcome; successRate is over these
+  successfulRecommendations: number;
   buyNowRecommendations: number;
   waitRecommendations: number;
   successRate: number;
   averageSavings: number;
-  userFollowRate: number; // How often users follow recommendations
+  actedRecommendations: number; // Where the user bought or waited (from booking-flow events)
+  userFollowRate: number; // How often users who acted followed the recommendation
   confidenceInterval: {
     lower: number;
     upper: number;
@@ -35,60 +79,182 @@ export interface ABTestMetrics {
 }
 
 export class ABTestingFramework {
-  private static readonly TEST_KEY = 'flight_ab_test_data';
-  private static readonly USER_VARIANT_KEY = 'flight_user_variant';
-
-  // Define test variants
-  private static readonly VARIANTS: ABTestVariant[] = [
+  private static readonly RESULTS_KEY = 'ab-testing/results';
+  private static readonly ASSIGNMENTS_PREFIX = 'ab-testing/assignments/';
+  private static readonly CONFIG_KEY = 'ab-testing/config';
+  private static readonly DEFAULT_EXPERIMENT_ID = 'default';
+  private static readonly ALGORITHMS: ABTestVariant['algorithm'][] = ['conservative', 'balanced', 'aggressive'];
+  static readonly OUTCOME_CHECK_JOB = 'ab-outcome-check';
+  private static readonly OUTCOME_CHECK_DAYS = 7;
+
+  // Variants used until a config is saved or AB_TEST_CONFIG names a JSON file
+  private static readonly DEFAULT_VARIANTS: ABTestVariant[] = [
     {
       id: 'conservative',
       name: 'Conservative',
       description: 'High confidence threshold (85%) for BUY_NOW recommendations',
       confidenceThreshold: 85,
-      algorithm: 'conservative'
+      algorithm: 'conservative',
+      trafficPercent: 34
     },
     {
       id: 'balanced',
       name: 'Balanced',
       description: 'Medium confidence threshold (75%) for BUY_NOW recommendations',
       confidenceThreshold: 75,
-      algorithm: 'balanced'
+      algorithm: 'balanced',
+      trafficPercent: 33
     },
     {
       id: 'aggressive',
       name: 'Aggressive',
       description: 'Lower confidence threshold (65%) for BUY_NOW recommendations',
       confidenceThreshold: 65,
-      algorithm: 'aggressive'
+      algorithm: 'aggressive',
+      trafficPercent: 33
     }
   ];
 
   /**
-   * Assign user to A/B test variant
+   * Current experiment: the config saved through the admin API, else the JSON file
+   * named by AB_TEST_CONFIG, else the default variants with an even split
+   */
+  static async getConfig(): Promise<ABExperimentConfig> {
+    const stored = await Storage.get<ABExperimentConfig>(this.CONFIG_KEY);
+    if (stored) return stored;
+
+    const configPath = process.env.AB_TEST_CONFIG;
+    if (configPath) {
+      try {
+        const fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8')) as Partial<ABExperimentConfig>;
+        const error = this.validateConfig(fileConfig);
+        if (!error) return this.normalizeConfig(fileConfig, null);
+        console.error(`Invalid A/B test config in ${configPath}, using defaults: ${error}`);
+      } catch (error) {
+        console.error(`Failed to read A/B test config from ${configPath}, using defaults:`, error);
+      }
+    }
+
+    return this.normalizeConfig({ id: this.DEFAULT_EXPERIMENT_ID, variants: this.DEFAULT_VARIANTS }, null);
+  }
+
+  /**
+   * Problem with a proposed config, or null when it's valid. Traffic may add up to less
+   * than 100%; the rest of the users get the strategy's predictions unchanged and aren't tracked.
+   */
+  static validateConfig(config: Partial<ABExperimentConfig>): string | null {
+    if (!config.id || typeof config.id !== 'string') return 'id is required';
+    if (!Array.isArray(config.variants) || config.variants.length === 0) return 'at least one variant is required';
+
+    const ids = new Set<string>();
+    let totalTraffic = 0;
+    for (const variant of config.variants) {
+      if (!variant?.id || typeof variant.id !== 'string') return 'every variant needs an id';
+      if (ids.has(variant.id)) return `duplicate variant id: ${variant.id}`;
+      ids.add(variant.id);
+      if (!this.ALGORITHMS.includes(variant.algorithm)) {
+        return `variant ${variant.id}: algorithm must be one of ${this.ALGORITHMS.join(', ')}`;
+      }
+      if (typeof variant.confidenceThreshold !== 'number' || variant.confidenceThreshold < 0 || variant.confidenceThreshold > 100) {
+        return `variant ${variant.id}: confidenceThreshold must be between 0 and 100`;
+      }
+      if (typeof variant.trafficPercent !== 'number' || variant.trafficPercent < 0 || variant.trafficPercent > 100) {
+        return `variant ${variant.id}: trafficPercent must be between 0 and 100`;
+      }
+      totalTraffic += variant.trafficPercent;
+    }
+
+    if (totalTraffic > 100) return `trafficPercent adds up to ${totalTraffic}, more than 100`;
+    if (config.fallbackVariantId !== undefined && !ids.has(config.fallbackVariantId)) {
+      return `fallbackVariantId ${config.fallbackVariantId} is not one of the variants`;
+    }
+    if (config.status !== undefined && config.status !== 'running' && config.status !== 'stopped') {
+      return 'status must be running or stopped';
+    }
+    return null;
+  }
+
+  /**
+   * Save a new experiment config (validate it first). A new id starts a new experiment.
    */
-  static assignUserToVariant(userId: string): ABTestVariant {
+  static async saveConfig(config: Partial<ABExperimentConfig>): Promise<ABExperimentConfig> {
+    const error = this.validateConfig(config);
+    if (error) throw new Error(`Invalid A/B test config: ${error}`);
+
+    const current = await this.getConfig();
+    const saved = this.normalizeConfig(config, current);
+    await Storage.set(this.CONFIG_KEY, saved);
+    console.log(`Saved A/B experiment ${saved.id} (${saved.status}): ` +
+      saved.variants.map(v => `${v.id} ${v.trafficPercent}%`).join(', '));
+    return saved;
+  }
+
+  /**
+   * Stop the experiment: no new assignments or results, and everyone gets the given
+   * variant (or the current fallback) from now on
+   */
+  static async stopExperiment(serveVariantId?: string): Promise<ABExperimentConfig> {
+    const current = await this.getConfig();
+    if (serveVariantId && !current.variants.some(v => v.id === serveVariantId)) {
+      throw new Error(`Unknown variant: ${serveVariantId}`);
+    }
+
+    const now = new Date().toISOString();
+    const stopped: ABExperimentConfig = {
+      ...current,
+      status: 'stopped',
+      fallbackVariantId: serveVariantId || current.fallbackVariantId,
+      stoppedAt: current.stoppedAt || now,
+      updatedAt: now
+    };
+    await Storage.set(this.CONFIG_KEY, stopped);
+    console.log(`Stopped A/B experiment ${stopped.id}, serving ${stopped.fallbackVariantId} to everyone`);
+    return stopped;
+  }
+
+  /**
+   * Assign user to A/B test variant. Users keep their variant for the whole experiment;
+   * new users are split by a hash of their id against the variants' traffic percentages.
+   * Once stopped, every visitor gets the variant it was stopped with.
+   */
+  static async assignUserToVariant(userId: string | null): Promise<ABAssignment> {
+    const config = await this.getConfig();
+    // Visitors without an id (opted out) aren't part of the experiment
+    if (!userId) {
+      return { experimentId: config.id, variant: null, enrolled: false };
+    }
+    if (config.status === 'stopped') {
+      const served = config.variants.find(v => v.id === config.fallbackVariantId) || config.variants[0];
+      return { experimentId: config.id, variant: served, enrolled: false };
+    }
+
     // Check if user already has a variant assigned
-    const existingVariant = this.getUserVariant(userId);
-    if (existingVariant) return existingVariant;
+    const existingVariant = await this.getUserVariant(config, userId);
+    if (existingVariant) return { experimentId: config.id, variant: existingVariant, enrolled: true };
 
     // Assign based on user ID hash for consistent assignment
-    const hash = this.hashUserId(userId);
-    const variantIndex = hash % this.VARIANTS.length;
-    const variant = this.VARIANTS[variantIndex];
+    const bucket = this.hashUserId(`${config.id}:${userId}`) % 100;
+    let cumulative = 0;
+    const variant = config.variants.find(v => bucket < (cumulative += v.trafficPercent));
+    if (!variant) {
+      return { experimentId: config.id, variant: null, enrolled: false };
+    }
 
     // Save assignment
-    this.saveUserVariant(userId, variant);
-    return variant;
+    await this.saveUserVariant(config, userId, variant);
+    return { experimentId: config.id, variant, enrolled: true };
   }
 
   /**
-   * Apply A/B test variant to prediction
+   * Apply A/B test variant to prediction; without a variant the prediction is returned as it is
    */
-  static applyVariantToPrediction(
-    prediction: any,
-    variant: ABTestVariant
-  ): any {
-    const modifiedPrediction = { ...prediction };
+  static applyVariantToPrediction<T extends PricePrediction>(
+    prediction: T,
+    variant: ABTestVariant | null
+  ): T & { abTestVariant?: string; abTestThreshold?: number } {
+    if (!variant) return prediction;
+
+    const modifiedPrediction: T & { abTestVariant?: string; abTestThreshold?: number } = { ...prediction };
 
     // Adjust recommendation based on variant
     switch (variant.algorithm) {
@@ -134,61 +300,114 @@ export class ABTestingFramework {
   /**
    * Record A/B test result
    */
-  static recordTestResult(result: ABTestResult): void {
-    const existingResults = this.loadTestResults();
-    existingResults.push(result);
-    this.saveTestResults(existingResults);
+  static async recordTestResult(result: ABTestResult): Promise<void> {
+    await Storage.update<ABTestResult[]>(this.RESULTS_KEY, results => [...(results || []), result]);
   }
 
   /**
-   * Track user action on recommendation
+   * Track user action on recommendation. With the search that was priced, an outcome
+   * check is scheduled to price it again a week later and compare its cheapest live offer
+   * with the one given here. The prediction id shown to the user becomes the result id,
+   * so booking-flow events can update the action later.
    */
-  static trackUserAction(
-    userId: string,
+  static async trackUserAction(
+    userId: string | null,
     route: string,
     recommendation: 'BUY_NOW' | 'WAIT',
     userAction: 'BOUGHT' | 'WAITED' | 'NO_ACTION',
-    priceAtRecommendation: number
-  ): void {
-    const variant = this.getUserVariant(userId);
-    if (!variant) return;
-
+    pricing: { price: number; provider: string }, // Cheapest live offer and its provider
+    search?: ABTestSearch,
+    predictionId?: string
+  ): Promise<ABTestResult | null> {
+    // Only users enrolled in a running experiment produce results
+    if (!userId) return null;
+    const config = await this.getConfig();
+    const variant = config.status === 'running' ? await this.getUserVariant(config, userId) : null;
+    if (!variant) return null;
+
+    const timestamp = new Date().toISOString();
     const result: ABTestResult = {
+      id: predictionId || `${userId}:${route}:${timestamp}`,
+      experimentId: config.id,
       variantId: variant.id,
       userId,
       route,
       recommendation,
       userAction,
-      actualOutcome: 'UNKNOWN', // Will be updated later
-      success: false, // Will be calculated later
-      timestamp: new Date().toISOString(),
-      priceAtRecommendation
+      actualOutcome: 'UNKNOWN', // Set by the outcome check
+      success: false, // Set by the outcome check
+      timestamp,
+      priceAtRecommendation: pricing.price,
+      priceProvider: pricing.provider,
+      search
     };
 
-    this.recordTestResult(result);
+    await this.recordTestResult(result);
 
     // Schedule follow-up to check actual price outcome
-    this.scheduleOutcomeCheck(result);
+    await this.scheduleOutcomeCheck(result);
+    return result;
+  }
+
+  /**
+   * Record what the user did after seeing a tracked recommendation. A purchase outranks
+   * waiting, and waiting outranks no action, so a later weaker event never downgrades it.
+   */
+  static async recordUserAction(
+    resultId: string,
+    userId: string,
+    userAction: 'BOUGHT' | 'WAITED'
+  ): Promise<ABTestResult | null> {
+    const rank = { NO_ACTION: 0, WAITED: 1, BOUGHT: 2 };
+    let updated: ABTestResult | null = null;
+
+    await Storage.update<ABTestResult[]>(this.RESULTS_KEY, results => (results || []).map(r => {
+      if (r.id !== resultId || r.userId !== userId) return r;
+      updated = rank[userAction] > rank[r.userAction] ? { ...r, userAction } : r;
+      return updated;
+    }));
+    return updated;
+  }
+
+  /**
+   * Stored results of an experiment (the current one by default), optionally for one variant
+   */
+  static async getTestResults(variantId?: string, experimentId?: string): Promise<ABTestResult[]> {
+    const id = experimentId || (await this.getConfig()).id;
+    const results = (await this.loadTestResults())
+      .filter(r => (r.experimentId || this.DEFAULT_EXPERIMENT_ID) === id);
+    return variantId ? results.filter(r => r.variantId === variantId) : results;
+  }
+
+  /**
+   * A tracked recommendation by id (the predictionId it was shown with), from any experiment
+   */
+  static async getTestResult(id: string): Promise<ABTestResult | null> {
+    return (await this.loadTestResults()).find(r => r.id === id) || null;
   }
 
   /**
    * Calculate A/B test metrics for each variant
    */
-  static calculateTestMetrics(): ABTestMetrics[] {
-    const results = this.loadTestResults();
+  static async calculateTestMetrics(): Promise<ABTestMetrics[]> {
+    const config = await this.getConfig();
+    const results = await this.getTestResults(undefined, config.id);
     const metrics: ABTestMetrics[] = [];
 
-    for (const variant of this.VARIANTS) {
+    for (const variant of config.variants) {
       const variantResults = results.filter(r => r.variantId === variant.id);
       
       if (variantResults.length === 0) {
         metrics.push({
           variantId: variant.id,
           totalRecommendations: 0,
+          resolvedRecommendations: 0,
+          successfulRecommendations: 0,
           buyNowRecommendations: 0,
           waitRecommendations: 0,
           successRate: 0,
           averageSavings: 0,
+          actedRecommendations: 0,
           userFollowRate: 0,
           confidenceInterval: { lower: 0, upper: 0 }
         });
@@ -199,31 +418,41 @@ export class ABTestingFramework {
       const buyNowRecommendations = variantResults.filter(r => r.recommendation === 'BUY_NOW').length;
       const waitRecommendations = totalRecommendations - buyNowRecommendations;
       
-      const successfulResults = variantResults.filter(r => r.success);
-      const successRate = successfulResults.length / totalRecommendations;
+      // Only recommendations whose price outcome is known can have succeeded or failed
+      const resolvedResults = variantResults.filter(r => r.actualOutcome !== 'UNKNOWN');
+      const resolvedRecommendations = resolvedResults.length;
+      const successfulRecommendations = resolvedResults.filter(r => r.success).length;
+      const successRate = resolvedRecommendations > 0 ? successfulRecommendations / resolvedRecommendations : 0;
       
       const resultsWithSavings = variantResults.filter(r => r.savings !== undefined);
       const averageSavings = resultsWithSavings.length > 0 
         ? resultsWithSavings.reduce((sum, r) => sum + (r.savings || 0), 0) / resultsWithSavings.length
         : 0;
 
+      // NO_ACTION says nothing about following, so the rate is over users who did something
+      const actedRecommendations = variantResults.filter(r => r.userAction !== 'NO_ACTION').length;
       const followedRecommendations = variantResults.filter(r => 
         (r.recommendation === 'BUY_NOW' && r.userAction === 'BOUGHT') ||
         (r.recommendation === 'WAIT' && r.userAction === 'WAITED')
       ).length;
-      const userFollowRate = followedRecommendations / totalRecommendations;
+      const userFollowRate = actedRecommendations > 0 ? followedRecommendations / actedRecommendations : 0;
 
       // Calculate 95% confidence interval for success rate
-      const standardError = Math.sqrt((successRate * (1 - successRate)) / totalRecommendations);
+      const standardError = resolvedRecommendations > 0
+        ? Math.sqrt((successRate * (1 - successRate)) / resolvedRecommendations)
+        : 0;
       const marginOfError = 1.96 * standardError;
 
       metrics.push({
         variantId: variant.id,
         totalRecommendations,
+        resolvedRecommendations,
+        successfulRecommendations,
         buyNowRecommendations,
         waitRecommendations,
         successRate: Math.round(successRate * 10000) / 100,
         averageSavings: Math.round(averageSavings * 100) / 100,
+        actedRecommendations,
         userFollowRate: Math.round(userFollowRate * 10000) / 100,
         confidenceInterval: {
           lower: Math.max(0, Math.round((successRate - marginOfError) * 10000) / 100),
@@ -236,27 +465,23 @@ export class ABTestingFramework {
   }
 
   /**
-   * Get winning variant based on statistical significance
+   * Get winning variant based on statistical significance: chi-square across variants and
+   * pairwise z-tests with Holm (or Bonferroni) correction, optionally with sequential looks
    */
-  static getWinningVariant(): { winner: ABTestVariant | null; significant: boolean } {
-    const metrics = this.calculateTestMetrics();
-    
-    if (metrics.length < 2) {
-      return { winner: null, significant: false };
-    }
-
-    // Sort by success rate
-    const sortedMetrics = metrics.sort((a, b) => b.successRate - a.successRate);
-    const best = sortedMetrics[0];
-    const second = sortedMetrics[1];
-
-    // Check if difference is statistically significant
-    // Simple check: confidence intervals don't overlap
-    const significant = best.confidenceInterval.lower > second.confidenceInterval.upper;
-
-    const winner = significant ? this.VARIANTS.find(v => v.id === best.variantId) || null : null;
-
-    return { winner, significant };
+  static async getWinningVariant(
+    options: SignificanceOptions = {}
+  ): Promise<{ winner: ABTestVariant | null; significant: boolean; analysis: SignificanceAnalysis }> {
+    const config = await this.getConfig();
+    const metrics = await this.calculateTestMetrics();
+
+    const analysis = SignificanceTester.analyze(metrics.map(m => ({
+      variantId: m.variantId,
+      successes: m.successfulRecommendations,
+      trials: m.resolvedRecommendations
+    })), options);
+    const winner = analysis.winner ? config.variants.find(v => v.id === analysis.winner) || null : null;
+
+    return { winner, significant: !!winner, analysis };
   }
 
   /**
@@ -272,95 +497,177 @@ export class ABTestingFramework {
     return Math.abs(hash);
   }
 
-  private static scheduleOutcomeCheck(result: ABTestResult): void {
-    // In a real implementation, this would schedule a job to check prices after 7 days
-    // For demo purposes, we'll simulate this
-    setTimeout(() => {
-      this.checkActualOutcome(result);
-    }, 1000); // Simulate immediate check for demo
+  /**
+   * Queue the re-pricing job: a week after the recommendation, or the day before
+   * departure when that's sooner. Too close to departure, the outcome stays unknown.
+   */
+  private static async scheduleOutcomeCheck(result: ABTestResult): Promise<void> {
+    if (!result.search) return;
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const recommendedAt = new Date(result.timestamp).getTime();
+    const dayBeforeDeparture = new Date(`${result.search.departureDate}T00:00:00.000Z`).getTime() - dayMs;
+    const runAt = Math.min(recommendedAt + this.OUTCOME_CHECK_DAYS * dayMs, dayBeforeDeparture);
+    if (runAt <= recommendedAt) return;
+
+    await JobQueue.enqueue(this.OUTCOME_CHECK_JOB, { resultId: result.id }, {
+      id: `${this.OUTCOME_CHECK_JOB}-${this.hashUserId(result.id)}-${recommendedAt}`,
+      runAt: new Date(runAt)
+    });
   }
 
-  private static checkActualOutcome(result: ABTestResult): void {
-    // In reality, this would fetch current prices and compare
-    // For demo, we'll simulate outcomes
-    const priceChange = (Math.random() - 0.5) * 100; // Random price change
-    const newPrice = result.priceAtRecommendation + priceChange;
-    
-    const actualOutcome: 'PRICE_INCREASED' | 'PRICE_DECREASED' = 
-      newPrice > result.priceAtRecommendation ? 'PRICE_INCREASED' : 'PRICE_DECREASED';
+  /**
+   * Price the recommended trip again from a live provider (never the cache) and score the
+   * recommendation against the cheapest fare: BUY_NOW was right if the fare rose, WAIT if
+   * it didn't
+   */
+  static async checkActualOutcome(resultId: string): Promise<ABTestResult | null> {
+    const result = (await this.loadTestResults()).find(r => r.id === resultId);
+    if (!result?.search) {
+      console.warn(`A/B result ${resultId} not found or has no search to re-price`);
+      return null;
+    }
+
+    const [origin, destination] = result.route.split('-');
+    const pricing = await ProviderRegistry.search({
+      origin,
+      destination,
+      departureDate: result.search.departureDate,
+      returnDate: result.search.returnDate,
+      adults: 1,
+      currency: result.search.currency,
+      directOnly: result.search.directOnly,
+      maxResults: 10
+    }, undefined, { bypassCache: true });
+
+    // Estimated or stale prices aren't a fare anyone could book today, so they can't settle
+    // the outcome; throwing makes the job retry later
+    const served = pricing.attempts.find(attempt => attempt.status === 'served');
+    const live = pricing.offers.length > 0 && pricing.provider !== 'mock' &&
+      pricing.cache !== 'STALE' && !served?.reason;
+    if (!live) {
+      if (pricing.quotaExceeded) throw pricing.quotaExceeded;
+      throw new Error(`No live fare for ${result.route} on ${result.search.departureDate}`);
+    }
+
+    const newPrice = Math.min(...pricing.offers.map(offer => offer.price));
+    const actualOutcome: ABTestResult['actualOutcome'] =
+      newPrice > result.priceAtRecommendation ? 'PRICE_INCREASED' :
+      newPrice < result.priceAtRecommendation ? 'PRICE_DECREASED' : 'PRICE_UNCHANGED';
 
     // Determine if recommendation was successful
-    const success = 
-      (result.recommendation === 'BUY_NOW' && actualOutcome === 'PRICE_INCREASED') ||
-      (result.recommendation === 'WAIT' && actualOutcome === 'PRICE_DECREASED');
+    const success = (result.recommendation === 'BUY_NOW') === (actualOutcome === 'PRICE_INCREASED');
 
     const savings = result.recommendation === 'BUY_NOW' 
       ? (newPrice - result.priceAtRecommendation) // Savings if bought early
       : (result.priceAtRecommendation - newPrice); // Savings if waited
 
-    // Update the result
-    const updatedResult = {
+    const updatedResult: ABTestResult = {
       ...result,
       actualOutcome,
       success,
       priceAfter7Days: newPrice,
-      savings
+      outcomeCheckedAt: new Date().toISOString(),
+      outcomeProvider: pricing.provider,
+      savings: Math.round(savings * 100) / 100
     };
 
     // Update stored results
-    const results = this.loadTestResults();
-    const index = results.findIndex(r => 
-      r.userId === result.userId && 
-      r.timestamp === result.timestamp
+    await Storage.update<ABTestResult[]>(this.RESULTS_KEY, results =>
+      (results || []).map(r => r.id === resultId ? updatedResult : r)
     );
-    
-    if (index >= 0) {
-      results[index] = updatedResult;
-      this.saveTestResults(results);
+
+    console.log(`A/B outcome for ${result.route}: ${actualOutcome} (£${result.priceAtRecommendation} -> £${newPrice}), ` +
+      `${result.recommendation} ${success ? 'succeeded' : 'failed'}`);
+    return updatedResult;
+  }
+
+  /**
+   * Remove everything stored for a visitor: variant assignments in every experiment and
+   * their tracked recommendations (pending outcome checks then find nothing to score)
+   */
+  static async forgetUser(userId: string): Promise<{ assignments: number; results: number }> {
+    // Only documents holding the visitor are rewritten, since each update is a full write
+    let assignments = 0;
+    for (const key of await Storage.keys(this.ASSIGNMENTS_PREFIX)) {
+      const stored = await Storage.get<{ [userId: string]: string }>(key);
+      if (!stored || !(userId in stored)) continue;
+
+      await Storage.update<{ [userId: string]: string }>(key, current => {
+        if (!current || !(userId in current)) return current || {};
+        assignments++;
+        const remaining = { ...current };
+        delete remaining[userId];
+        return remaining;
+      });
     }
+
+    let results = 0;
+    if ((await this.loadTestResults()).some(r => r.userId === userId)) {
+      await Storage.update<ABTestResult[]>(this.RESULTS_KEY, current => {
+        const remaining = (current || []).filter(r => r.userId !== userId);
+        results = (current || []).length - remaining.length;
+        return remaining;
+      });
+    }
+
+    console.log(`Forgot visitor ${userId}: ${assignments} assignments, ${results} A/B results`);
+    return { assignments, results };
   }
 
   // Storage methods
-  private static saveUserVariant(userId: string, variant: ABTestVariant): void {
-    if (typeof window !== 'undefined') {
-      const assignments = this.loadUserVariants();
-      assignments[userId] = variant;
-      localStorage.setItem(this.USER_VARIANT_KEY, JSON.stringify(assignments));
-    }
+  private static async saveUserVariant(config: ABExperimentConfig, userId: string, variant: ABTestVariant): Promise<void> {
+    await Storage.update<{ [userId: string]: string }>(this.assignmentsKey(config.id), assignments => ({
+      ...(assignments || {}),
+      [userId]: variant.id
+    }));
   }
 
-  private static getUserVariant(userId: string): ABTestVariant | null {
-    if (typeof window !== 'undefined') {
-      const assignments = this.loadUserVariants();
-      return assignments[userId] || null;
-    }
-    return null;
+  // Null when the user's assigned variant has since been removed from the experiment
+  private static async getUserVariant(config: ABExperimentConfig, userId: string): Promise<ABTestVariant | null> {
+    const assignments = await Storage.get<{ [userId: string]: string }>(this.assignmentsKey(config.id));
+    const variantId = assignments?.[userId];
+    return config.variants.find(v => v.id === variantId) || null;
   }
 
-  private static loadUserVariants(): { [userId: string]: ABTestVariant } {
-    if (typeof window !== 'undefined') {
-      const data = localStorage.getItem(this.USER_VARIANT_KEY);
-      return data ? JSON.parse(data) : {};
-    }
-    return {};
+  private static assignmentsKey(experimentId: string): string {
+    return `${this.ASSIGNMENTS_PREFIX}${experimentId}`;
   }
 
-  private static saveTestResults(results: ABTestResult[]): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(this.TEST_KEY, JSON.stringify(results));
-    }
+  private static normalizeConfig(config: Partial<ABExperimentConfig>, current: ABExperimentConfig | null): ABExperimentConfig {
+    const now = new Date().toISOString();
+    const variants = config.variants!.map(v => ({
+      id: v.id,
+      name: v.name || v.id,
+      description: v.description || '',
+      confidenceThreshold: v.confidenceThreshold,
+      algorithm: v.algorithm,
+      trafficPercent: v.trafficPercent
+    }));
+    const sameExperiment = current?.id === config.id;
+    const status = config.status || 'running';
+
+    return {
+      id: config.id!,
+      status,
+      variants,
+      fallbackVariantId: config.fallbackVariantId || variants[0].id,
+      startedAt: sameExperiment ? current!.startedAt : now,
+      stoppedAt: status === 'stopped' ? (sameExperiment && current!.stoppedAt) || now : undefined,
+      updatedAt: now
+    };
   }
 
-  private static loadTestResults(): ABTestResult[] {
-    if (typeof window !== 'undefined') {
-      const data = localStorage.getItem(this.TEST_KEY);
-      return data ? JSON.parse(data) : [];
-    }
-    return [];
+  private static async loadTestResults(): Promise<ABTestResult[]> {
+    return await Storage.get<ABTestResult[]>(this.RESULTS_KEY) || [];
   }
 
   // Public method to get all variants for admin interface
-  static getVariants(): ABTestVariant[] {
-    return [...this.VARIANTS];
+  static async getVariants(): Promise<ABTestVariant[]> {
+    return [...(await this.getConfig()).variants];
   }
 }
+
+JobQueue.registerHandler<{ resultId: string }>(ABTestingFramework.OUTCOME_CHECK_JOB, payload =>
+  ABTestingFramework.checkActualOutcome(payload.resultId)
+);
@@ -1,4 +1,6 @@
-import { AmadeusService, Airport } from './amadeus';
+import { AmadeusService, Airport, amadeusProvider } from './amadeus';
+import { CacheStatus, ProviderCache } from './provider-cache';
+import { ProviderRateLimiter, QuotaExceededError } from './provider-rate-limit';
 
 // Popular airports to show by default
 export const POPULAR_AIRPORTS: Airport[] = [
@@ -81,11 +83,106 @@ export const POPULAR_AIRPORTS: Airport[] = [
   { iataCode: 'LIM', name: 'Lima', address: { cityName: 'Lima', countryName: 'Peru' } }
 ];
 
-export class AirportService {
-  private static airportCache: Map<string, Airport[]> = new Map();
-  private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-  private static cacheTimestamp: Map<string, number> = new Map();
+export type AirportRegion =
+  | 'UK'
+  | 'Europe'
+  | 'North America'
+  | 'Asia'
+  | 'Middle East'
+  | 'Africa'
+  | 'Oceania'
+  | 'South America';
+
+export interface AirportLocation {
+  latitude: number;
+  longitude: number;
+  region: AirportRegion;
+}
+
+// Coordinates and region for the popular airports (used for distance-based price priors)
+export const AIRPORT_LOCATIONS: { [iataCode: string]: AirportLocation } = {
+  // UK
+  LHR: { latitude: 51.47, longitude: -0.45, region: 'UK' },
+  LGW: { latitude: 51.15, longitude: -0.19, region: 'UK' },
+  STN: { latitude: 51.89, longitude: 0.24, region: 'UK' },
+  LTN: { latitude: 51.87, longitude: -0.37, region: 'UK' },
+  MAN: { latitude: 53.35, longitude: -2.27, region: 'UK' },
+  EDI: { latitude: 55.95, longitude: -3.37, region: 'UK' },
+  GLA: { latitude: 55.87, longitude: -4.43, region: 'UK' },
+  BHX: { latitude: 52.45, longitude: -1.75, region: 'UK' },
+
+  // Europe
+  CDG: { latitude: 49.01, longitude: 2.55, region: 'Europe' },
+  AMS: { latitude: 52.31, longitude: 4.76, region: 'Europe' },
+  FRA: { latitude: 50.03, longitude: 8.57, region: 'Europe' },
+  MUC: { latitude: 48.35, longitude: 11.79, region: 'Europe' },
+  BCN: { latitude: 41.30, longitude: 2.08, region: 'Europe' },
+  MAD: { latitude: 40.47, longitude: -3.57, region: 'Europe' },
+  FCO: { latitude: 41.80, longitude: 12.25, region: 'Europe' },
+  MXP: { latitude: 45.63, longitude: 8.72, region: 'Europe' },
+  ZUR: { latitude: 47.46, longitude: 8.55, region: 'Europe' },
+  VIE: { latitude: 48.11, longitude: 16.57, region: 'Europe' },
+  CPH: { latitude: 55.62, longitude: 12.66, region: 'Europe' },
+  ARN: { latitude: 59.65, longitude: 17.92, region: 'Europe' },
+  OSL: { latitude: 60.19, longitude: 11.10, region: 'Europe' },
+  HEL: { latitude: 60.32, longitude: 24.96, region: 'Europe' },
+
+  // North America
+  JFK: { latitude: 40.64, longitude: -73.78, region: 'North America' },
+  LGA: { latitude: 40.78, longitude: -73.87, region: 'North America' },
+  EWR: { latitude: 40.69, longitude: -74.17, region: 'North America' },
+  LAX: { latitude: 33.94, longitude: -118.41, region: 'North America' },
+  SFO: { latitude: 37.62, longitude: -122.38, region: 'North America' },
+  ORD: { latitude: 41.98, longitude: -87.90, region: 'North America' },
+  MIA: { latitude: 25.79, longitude: -80.29, region: 'North America' },
+  DFW: { latitude: 32.90, longitude: -97.04, region: 'North America' },
+  ATL: { latitude: 33.64, longitude: -84.43, region: 'North America' },
+  BOS: { latitude: 42.36, longitude: -71.01, region: 'North America' },
+  YYZ: { latitude: 43.68, longitude: -79.63, region: 'North America' },
+  YVR: { latitude: 49.19, longitude: -123.18, region: 'North America' },
+
+  // Asia
+  NRT: { latitude: 35.77, longitude: 140.39, region: 'Asia' },
+  HND: { latitude: 35.55, longitude: 139.78, region: 'Asia' },
+  ICN: { latitude: 37.46, longitude: 126.44, region: 'Asia' },
+  PEK: { latitude: 40.08, longitude: 116.58, region: 'Asia' },
+  PVG: { latitude: 31.14, longitude: 121.81, region: 'Asia' },
+  HKG: { latitude: 22.31, longitude: 113.91, region: 'Asia' },
+  SIN: { latitude: 1.36, longitude: 103.99, region: 'Asia' },
+  BKK: { latitude: 13.69, longitude: 100.75, region: 'Asia' },
+  KUL: { latitude: 2.75, longitude: 101.71, region: 'Asia' },
+  CGK: { latitude: -6.13, longitude: 106.66, region: 'Asia' },
+  MNL: { latitude: 14.51, longitude: 121.02, region: 'Asia' },
+  DEL: { latitude: 28.56, longitude: 77.10, region: 'Asia' },
+  BOM: { latitude: 19.09, longitude: 72.87, region: 'Asia' },
+
+  // Middle East
+  DXB: { latitude: 25.25, longitude: 55.36, region: 'Middle East' },
+  DOH: { latitude: 25.27, longitude: 51.61, region: 'Middle East' },
+  AUH: { latitude: 24.43, longitude: 54.65, region: 'Middle East' },
 
+  // Africa
+  CAI: { latitude: 30.12, longitude: 31.41, region: 'Africa' },
+  ACC: { latitude: 5.61, longitude: -0.17, region: 'Africa' },
+  JNB: { latitude: -26.14, longitude: 28.24, region: 'Africa' },
+  CPT: { latitude: -33.97, longitude: 18.60, region: 'Africa' },
+
+  // Oceania
+  SYD: { latitude: -33.95, longitude: 151.18, region: 'Oceania' },
+  MEL: { latitude: -37.67, longitude: 144.84, region: 'Oceania' },
+  BNE: { latitude: -27.38, longitude: 153.12, region: 'Oceania' },
+  PER: { latitude: -31.94, longitude: 115.97, region: 'Oceania' },
+  AKL: { latitude: -37.01, longitude: 174.79, region: 'Oceania' },
+
+  // South America
+  GRU: { latitude: -23.43, longitude: -46.47, region: 'South America' },
+  GIG: { latitude: -22.81, longitude: -43.25, region: 'South America' },
+  EZE: { latitude: -34.82, longitude: -58.54, region: 'South America' },
+  SCL: { latitude: -33.39, longitude: -70.79, region: 'South America' },
+  LIM: { latitude: -12.02, longitude: -77.11, region: 'South America' }
+};
+
+export class AirportService {
   /**
    * Get all popular airports for dropdown
    */
@@ -94,41 +191,41 @@ export class AirportService {
   }
 
   /**
-   * Search airports with caching
+   * Search airports through the provider cache ("airports" policy)
    */
-  static async searchAirports(keyword: string): Promise<Airport[]> {
+  static async searchAirports(keyword: string, signal?: AbortSignal): Promise<{ airports: Airport[]; cache?: CacheStatus }> {
     if (!keyword || keyword.length < 2) {
-      return this.getPopularAirports();
-    }
-
-    const cacheKey = keyword.toLowerCase();
-    const now = Date.now();
-    
-    // Check cache
-    if (this.airportCache.has(cacheKey) && 
-        this.cacheTimestamp.has(cacheKey) &&
-        (now - this.cacheTimestamp.get(cacheKey)!) < this.CACHE_DURATION) {
-      return this.airportCache.get(cacheKey)!;
+      return { airports: this.getPopularAirports() };
     }
 
     try {
-      // Search using Amadeus API
-      const results = await AmadeusService.searchAirports(keyword);
-      
-      // Cache results
-      this.airportCache.set(cacheKey, results);
-      this.cacheTimestamp.set(cacheKey, now);
-      
-      return results;
+      // Search using Amadeus API (charged to its quota); empty results (no credentials)
+      // aren't cached, and upstream errors fall back to the popular airports below
+      const { value: airports, status } = await ProviderCache.getOrFetch(
+        'airports',
+        { keyword: keyword.toLowerCase() },
+        async sharedSignal => {
+          if (amadeusProvider.isConfigured()) await ProviderRateLimiter.acquire(amadeusProvider.id);
+          return AmadeusService.searchAirports(keyword, sharedSignal);
+        },
+        {
+          shouldCache: results => results.length > 0,
+          serveExpiredOnError: error => error instanceof QuotaExceededError,
+          signal
+        }
+      );
+      return { airports, cache: status };
     } catch (error) {
       console.error('Airport search failed, falling back to popular airports:', error);
       
       // Fallback: filter popular airports by keyword
-      return this.getPopularAirports().filter(airport => 
-        airport.name.toLowerCase().includes(keyword.toLowerCase()) ||
-        airport.iataCode.toLowerCase().includes(keyword.toLowerCase()) ||
-        airport.address?.cityName?.toLowerCase().includes(keyword.toLowerCase())
-      );
+      return {
+        airports: this.getPopularAirports().filter(airport => 
+          airport.name.toLowerCase().includes(keyword.toLowerCase()) ||
+          airport.iataCode.toLowerCase().includes(keyword.toLowerCase()) ||
+          airport.address?.cityName?.toLowerCase().includes(keyword.toLowerCase())
+        )
+      };
     }
   }
 
@@ -141,6 +238,31 @@ export class AirportService {
     );
   }
 
+  /**
+   * Get coordinates and region for an airport (popular airports only)
+   */
+  static getAirportLocation(iataCode: string): AirportLocation | undefined {
+    return AIRPORT_LOCATIONS[iataCode.toUpperCase()];
+  }
+
+  /**
+   * Great-circle distance between two airports in km (undefined if either is unknown)
+   */
+  static getDistanceKm(originCode: string, destinationCode: string): number | undefined {
+    const origin = this.getAirportLocation(originCode);
+    const destination = this.getAirportLocation(destinationCode);
+    if (!origin || !destination) return undefined;
+
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const earthRadiusKm = 6371;
+    const dLat = toRadians(destination.latitude - origin.latitude);
+    const dLon = toRadians(destination.longitude - origin.longitude);
+    const a = Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(origin.latitude)) * Math.cos(toRadians(destination.latitude)) * Math.sin(dLon / 2) ** 2;
+
+    return Math.round(2 * earthRadiusKm * Math.asin(Math.sqrt(a)));
+  }
+
   /**
    * Format airport display name
    */
@@ -158,10 +280,9 @@ export class AirportService {
   }
 
   /**
-   * Clear cache (useful for testing or manual refresh)
+   * Clear cached airport searches (useful for testing or manual refresh)
    */
-  static clearCache(): void {
-    this.airportCache.clear();
-    this.cacheTimestamp.clear();
+  static async clearCache(): Promise<void> {
+    await ProviderCache.clear('airports');
   }
 }
@@ -1,4 +1,22 @@
 import Amadeus from 'amadeus';
+import {
+  FlightPriceProvider,
+  NormalizedFlightOffer,
+  NormalizedSearchRequest,
+  parseIsoDurationMinutes,
+  ProviderSearchOptions,
+  sortByPrice
+} from './flight-provider';
+import { RequestCoalescer } from './request-coalescer';
+import { ProviderFixtures } from './provider-fixtures';
+import {
+  ProviderAuthError,
+  ProviderBadResponseError,
+  ProviderHttpClient,
+  ProviderNetworkError,
+  ProviderRateLimitedError,
+  ProviderRequestError
+} from './provider-http';
 
 // Initialize Amadeus client with fallback handling
 let amadeus: any = null;
@@ -12,6 +30,81 @@ if (hasCredentials) {
   });
 }
 
+// Live calls need credentials; replayed ones are answered from fixtures
+const isAvailable = () => (!!hasCredentials && !!amadeus) || ProviderFixtures.isReplaying();
+
+// Shape of SDK responses: result is the parsed body, data its "data" member
+interface AmadeusSdkResponse {
+  statusCode?: number;
+  result?: unknown;
+  data?: unknown;
+}
+
+// Shape of the errors the SDK rejects with
+interface AmadeusSdkError {
+  code?: string; // NetworkError, ParserError, ServerError, ClientError, AuthenticationError, ...
+  description?: Array<{ title?: string; detail?: string }>;
+  response?: { statusCode?: number; headers?: { [key: string]: string }; result?: unknown };
+}
+
+// Map an SDK error (code plus the upstream response) onto ProviderRequestError
+function toProviderError(error: unknown): unknown {
+  if (error instanceof ProviderRequestError || !error || typeof error !== 'object') return error;
+  const { code, description, response } = error as AmadeusSdkError;
+  const status = response?.statusCode;
+  if (code === 'AuthenticationError' || status === 401 || status === 403) {
+    return new ProviderAuthError('amadeus', status);
+  }
+  if (status === 429) {
+    const retryAfter = Number(response?.headers?.['retry-after']);
+    return new ProviderRateLimitedError('amadeus', isNaN(retryAfter) ? undefined : retryAfter * 1000);
+  }
+  if (code === 'NetworkError') return new ProviderNetworkError('amadeus', code);
+  if (code === 'ParserError') return new ProviderBadResponseError('amadeus', 'returned a body that is not JSON', status);
+  if (status) {
+    const detail = Array.isArray(description) ? description[0]?.detail || description[0]?.title : undefined;
+    return new ProviderBadResponseError('amadeus', `responded ${status}${detail ? `: ${detail}` : ''}`, status);
+  }
+  return error;
+}
+
+// The SDK takes no abort signal, so a call that outlives its deadline is abandoned rather than
+// cancelled. In fixture mode the call is recorded, or answered from its recording.
+function callAmadeus<T extends AmadeusSdkResponse>(
+  label: string,
+  params: unknown,
+  operation: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const request = { hostname: process.env.AMADEUS_HOSTNAME || 'test', params };
+  return ProviderHttpClient.call('amadeus', async () => {
+    if (ProviderFixtures.isReplaying()) return await replayAmadeus(label, request) as T;
+    try {
+      const response = await operation();
+      if (ProviderFixtures.isRecording()) await recordAmadeus(label, request, response.statusCode || 200, response.result);
+      return response;
+    } catch (error) {
+      const response = (error as AmadeusSdkError | undefined)?.response;
+      if (ProviderFixtures.isRecording() && response?.statusCode) await recordAmadeus(label, request, response.statusCode, response.result);
+      throw toProviderError(error);
+    }
+  }, { signal });
+}
+
+function recordAmadeus(label: string, request: unknown, status: number, body: unknown): Promise<void> {
+  return ProviderFixtures.write({ provider: 'amadeus', label, request, recordedAt: new Date().toISOString(), status, body });
+}
+
+// A recorded error is rethrown the way the SDK would have reported it
+async function replayAmadeus(label: string, request: unknown): Promise<AmadeusSdkResponse> {
+  const fixture = await ProviderFixtures.read('amadeus', label, request);
+  const result = fixture.body as { data?: unknown; errors?: AmadeusSdkError['description'] } | undefined;
+  if (fixture.status >= 400) {
+    throw toProviderError({ description: result?.errors, response: { statusCode: fixture.status, result } });
+  }
+  return { statusCode: fixture.status, result, data: result?.data };
+}
+
 export interface FlightOffer {
   id: string;
   price: {
@@ -81,66 +174,79 @@ export interface Airport {
 
 export class AmadeusService {
   /**
-   * Search for flight offers
+   * Search for flight offers, falling back to mock data when no credentials are set. API
+   * failures are thrown as ProviderRequestError.
    */
   static async searchFlights(params: FlightSearchParams): Promise<FlightOffer[]> {
     // If no Amadeus credentials, return mock data
-    if (!hasCredentials || !amadeus) {
+    if (!isAvailable()) {
       console.log('No Amadeus credentials found, returning mock flight data');
       return this.generateMockFlightData(params);
     }
 
-    try {
-      console.log('Searching flights with params:', params);
-      
-      const searchParams: any = {
-        originLocationCode: params.originLocationCode,
-        destinationLocationCode: params.destinationLocationCode,
-        departureDate: params.departureDate,
-        adults: params.adults,
-        currencyCode: params.currencyCode || 'GBP',
-        max: params.max || 10
-      };
+    return this.fetchFlights(params);
+  }
 
-      // Add optional parameters only if they exist
-      if (params.returnDate) {
-        searchParams.returnDate = params.returnDate;
-      }
-      if (params.children && params.children > 0) {
-        searchParams.children = params.children;
-      }
-      if (params.infants && params.infants > 0) {
-        searchParams.infants = params.infants;
-      }
-      if (params.travelClass) {
-        searchParams.travelClass = params.travelClass;
-      }
-      if (params.nonStop) {
-        searchParams.nonStop = params.nonStop;
-      }
+  /**
+   * Search for flight offers against the live API (throws ProviderRequestError on failure).
+   * Concurrent calls with the same params share one upstream request.
+   */
+  static fetchFlights(params: FlightSearchParams, signal?: AbortSignal): Promise<FlightOffer[]> {
+    return RequestCoalescer.run(
+      RequestCoalescer.keyFor('amadeus/flights', params),
+      sharedSignal => this.requestFlights(params, sharedSignal),
+      signal
+    );
+  }
 
-      console.log('Final search params:', searchParams);
+  private static async requestFlights(params: FlightSearchParams, signal: AbortSignal): Promise<FlightOffer[]> {
+    if (!isAvailable()) {
+      throw new Error('Amadeus credentials are not configured');
+    }
 
-      const response = await amadeus.shopping.flightOffersSearch.get(searchParams);
-      
-      console.log('Amadeus response received:', {
-        dataLength: response.data?.length || 0,
-        hasData: !!response.data
-      });
+    console.log('Searching flights with params:', params);
+    
+    const searchParams: any = {
+      originLocationCode: params.originLocationCode,
+      destinationLocationCode: params.destinationLocationCode,
+      departureDate: params.departureDate,
+      adults: params.adults,
+      currencyCode: params.currencyCode || 'GBP',
+      max: params.max || 10
+    };
 
-      return response.data || [];
-    } catch (error: any) {
-      console.error('Amadeus API Error Details:', {
-        message: error.message,
-        code: error.code,
-        description: error.description,
-        response: error.response?.data
-      });
-      
-      // Fallback to mock data on API error
-      console.log('Amadeus API failed, falling back to mock data');
-      return this.generateMockFlightData(params);
+    // Add optional parameters only if they exist
+    if (params.returnDate) {
+      searchParams.returnDate = params.returnDate;
+    }
+    if (params.children && params.children > 0) {
+      searchParams.children = params.children;
+    }
+    if (params.infants && params.infants > 0) {
+      searchParams.infants = params.infants;
+    }
+    if (params.travelClass) {
+      searchParams.travelClass = params.travelClass;
     }
+    if (params.nonStop) {
+      searchParams.nonStop = params.nonStop;
+    }
+
+    console.log('Final search params:', searchParams);
+
+    const response = await callAmadeus<{ data?: FlightOffer[] }>(
+      'shopping/flight-offers',
+      searchParams,
+      () => amadeus.shopping.flightOffersSearch.get(searchParams),
+      signal
+    );
+    
+    console.log('Amadeus response received:', {
+      dataLength: response.data?.length || 0,
+      hasData: !!response.data
+    });
+
+    return response.data || [];
   }
 
   /**
@@ -262,26 +368,24 @@ export class AmadeusService {
   }
 
   /**
-   * Search airports by keyword
+   * Search airports by keyword (throws ProviderRequestError on failure)
    */
-  static async searchAirports(keyword: string): Promise<Airport[]> {
+  static async searchAirports(keyword: string, signal?: AbortSignal): Promise<Airport[]> {
     // If no Amadeus credentials, return empty array (airport selector will use built-in list)
-    if (!hasCredentials || !amadeus) {
+    if (!isAvailable()) {
       console.log('No Amadeus credentials found, airport search unavailable');
       return [];
     }
 
-    try {
-      const response = await amadeus.referenceData.locations.get({
-        keyword,
-        subType: 'AIRPORT,CITY'
-      });
+    const locationParams = { keyword, subType: 'AIRPORT,CITY' };
+    const response = await callAmadeus<{ data: Airport[] }>(
+      'reference-data/locations',
+      locationParams,
+      () => amadeus.referenceData.locations.get(locationParams),
+      signal
+    );
 
-      return response.data;
-    } catch (error) {
-      console.error('Error searching airports:', error);
-      return []; // Return empty array instead of throwing error
-    }
+    return response.data;
   }
 
   /**
@@ -294,18 +398,23 @@ export class AmadeusService {
     returnDate?: string
   ) {
     try {
-      const response = await amadeus.analytics.itineraryPriceMetrics.get({
+      const metricsParams = {
         originIataCode: origin,
         destinationIataCode: destination,
         departureDate,
         returnDate,
         currencyCode: 'GBP'
-      });
+      };
+      const response = await callAmadeus<{ data: unknown }>(
+        'analytics/itinerary-price-metrics',
+        metricsParams,
+        () => amadeus.analytics.itineraryPriceMetrics.get(metricsParams)
+      );
 
       return response.data;
     } catch (error) {
       console.error('Error getting price analysis:', error);
-      throw new Error('Failed to get price analysis');
+      throw error;
     }
   }
 
@@ -339,4 +448,52 @@ export class AmadeusService {
   }
 }
 
+/**
+ * Map an Amadeus flight offer into the provider-neutral shape
+ */
+export function normalizeAmadeusOffer(
+  offer: FlightOffer,
+  request: NormalizedSearchRequest
+): NormalizedFlightOffer {
+  const outbound = offer.itineraries[0];
+  const firstSegment = outbound?.segments[0];
+
+  return {
+    id: `amadeus-${offer.id}`,
+    provider: 'amadeus',
+    price: parseFloat(offer.price.total),
+    currency: offer.price.currency,
+    origin: request.origin,
+    destination: request.destination,
+    departureDate: request.departureDate,
+    returnDate: request.returnDate,
+    airline: firstSegment?.carrierCode || 'Multiple Airlines',
+    flightNumber: firstSegment ? `${firstSegment.carrierCode}${firstSegment.number}` : undefined,
+    durationMinutes: parseIsoDurationMinutes(outbound?.duration),
+    stops: Math.max(0, (outbound?.segments.length || 1) - 1)
+  };
+}
+
+export const amadeusProvider: FlightPriceProvider = {
+  id: 'amadeus',
+  name: 'Amadeus',
+  isConfigured: () => isAvailable(),
+  async search(request: NormalizedSearchRequest, options: ProviderSearchOptions = {}): Promise<NormalizedFlightOffer[]> {
+    const offers = await AmadeusService.fetchFlights({
+      originLocationCode: request.origin,
+      destinationLocationCode: request.destination,
+      departureDate: request.departureDate,
+      returnDate: request.returnDate,
+      adults: request.adults,
+      children: request.children,
+      infants: request.infants,
+      travelClass: request.cabinClass,
+      currencyCode: request.currency,
+      max: request.maxResults,
+      nonStop: request.directOnly
+    }, options.signal);
+    return sortByPrice(offers.map(offer => normalizeAmadeusOffer(offer, request)));
+  }
+};
+
 export default amadeus;
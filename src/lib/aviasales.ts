@@ -1,6 +1,17 @@
 // Aviasales API integration via Travel Payouts
 // Get your API key from: https://www.travelpayouts.com/
 
+import {
+  FlightPriceProvider,
+  NormalizedFlightOffer,
+  NormalizedSearchRequest,
+  ProviderSearchOptions,
+  sortByPrice
+} from './flight-provider';
+import { RequestCoalescer } from './request-coalescer';
+import { ProviderFixtures } from './provider-fixtures';
+import { ProviderHttpClient, ProviderRequestError } from './provider-http';
+
 export interface AviasalesFlightOffer {
   id: string;
   price: {
@@ -35,102 +46,120 @@ export class AviasalesService {
   private static readonly BASE_URL = 'https://api.travelpayouts.com';
 
   /**
-   * Search for flights using Flight Data API (cached data)
+   * Whether calls can be made: an API key is set, or responses are replayed from fixtures
+   */
+  static isAvailable(): boolean {
+    return !!this.API_KEY || ProviderFixtures.isReplaying();
+  }
+
+  /**
+   * Search for flights using Flight Data API (cached data), falling back to mock data when
+   * no API key is set or no prices come back. API failures are thrown as ProviderRequestError.
    */
   static async searchFlights(params: AviasalesSearchParams): Promise<AviasalesFlightOffer[]> {
     console.log('AviasalesService.searchFlights called with:', params);
     console.log('API_KEY available:', !!this.API_KEY);
     console.log('API_KEY value:', this.API_KEY ? `${this.API_KEY.substring(0, 8)}...` : 'undefined');
     
-    if (!this.API_KEY) {
+    if (!this.isAvailable()) {
       console.log('No Travel Payouts API key found, using mock Aviasales data');
       return this.generateMockAviasalesData(params);
     }
 
-    try {
-      // Use Flight Data API endpoints for cached data
-      const flights: AviasalesFlightOffer[] = [];
-      
-      // Convert airport codes to city codes (Travel Payouts uses city codes)
-      const originCity = this.convertAirportToCity(params.origin);
-      const destinationCity = this.convertAirportToCity(params.destination);
-      
-      // Try multiple Flight Data API endpoints to get comprehensive data
+    const flights = await this.fetchFlights(params);
+    if (flights.length > 0) {
+      return flights;
+    }
+    console.log('No flight data available from Travel Payouts, falling back to mock data');
+    return this.generateMockAviasalesData(params);
+  }
+
+  /**
+   * Search for flights against the live Flight Data API (throws ProviderRequestError on failure).
+   * Concurrent calls with the same params share one upstream request.
+   */
+  static fetchFlights(params: AviasalesSearchParams, signal?: AbortSignal): Promise<AviasalesFlightOffer[]> {
+    return RequestCoalescer.run(
+      RequestCoalescer.keyFor('aviasales/flights', params),
+      sharedSignal => this.requestFlights(params, sharedSignal),
+      signal
+    );
+  }
+
+  private static async requestFlights(params: AviasalesSearchParams, signal: AbortSignal): Promise<AviasalesFlightOffer[]> {
+    if (!this.isAvailable()) {
+      throw new Error('Travel Payouts API key is not configured');
+    }
+
+    // Use Flight Data API endpoints for cached data
+    const flights: AviasalesFlightOffer[] = [];
+    
+    // Convert airport codes to city codes (Travel Payouts uses city codes)
+    const originCity = this.convertAirportToCity(params.origin);
+    const destinationCity = this.convertAirportToCity(params.destination);
+    
+    // Try multiple Flight Data API endpoints to get comprehensive data
+    
+    // 1. Latest prices endpoint
+    const latestParams = new URLSearchParams({
+      origin: originCity,
+      destination: destinationCity,
+      currency: params.currency,
+      token: this.API_KEY || ''
+    });
+    
+    if (params.departure_date) {
+      latestParams.set('depart_date', params.departure_date);
+    }
+    if (params.return_date) {
+      latestParams.set('return_date', params.return_date);
+    }
+
+    console.log('Calling Travel Payouts Latest Prices API:', `${this.BASE_URL}/v1/prices/latest?${latestParams.toString()}`);
+    
+    const latestData = await ProviderHttpClient.getJson<{ success?: boolean; data?: unknown }>('aviasales', `${this.BASE_URL}/v1/prices/latest?${latestParams.toString()}`, { signal });
+    console.log('Latest Prices API response received, success:', latestData.success);
+
+    if (latestData.success && latestData.data) {
+      const parsedFlights = this.parseLatestPricesResponse(latestData, params);
+      flights.push(...parsedFlights);
+    }
+    
+    // 2. If we don't have enough data, try month matrix for more prices
+    if (flights.length < 5) {
+      const departureDate = new Date(params.departure_date);
+      const monthStr = `${departureDate.getFullYear()}-${String(departureDate.getMonth() + 1).padStart(2, '0')}`;
       
-      // 1. Latest prices endpoint
-      const latestParams = new URLSearchParams({
+      const monthParams = new URLSearchParams({
         origin: originCity,
         destination: destinationCity,
+        month: monthStr,
         currency: params.currency,
-        token: this.API_KEY
-      });
-      
-      if (params.departure_date) {
-        latestParams.set('depart_date', params.departure_date);
-      }
-      if (params.return_date) {
-        latestParams.set('return_date', params.return_date);
-      }
-
-      console.log('Calling Travel Payouts Latest Prices API:', `${this.BASE_URL}/v1/prices/latest?${latestParams.toString()}`);
-      
-      const latestResponse = await fetch(`${this.BASE_URL}/v1/prices/latest?${latestParams.toString()}`, {
-        method: 'GET',
-        headers: { 'Accept': 'application/json' }
+        token: this.API_KEY || ''
       });
 
-      if (latestResponse.ok) {
-        const latestData = await latestResponse.json();
-        console.log('Latest Prices API response received, success:', latestData.success);
-        
-        if (latestData.success && latestData.data) {
-          const parsedFlights = this.parseLatestPricesResponse(latestData, params);
-          flights.push(...parsedFlights);
-        }
-      }
+      console.log('Calling Travel Payouts Month Matrix API for additional data:', `${this.BASE_URL}/v2/prices/month-matrix?${monthParams.toString()}`);
       
-      // 2. If we don't have enough data, try month matrix for more prices
-      if (flights.length < 5) {
-        const departureDate = new Date(params.departure_date);
-        const monthStr = `${departureDate.getFullYear()}-${String(departureDate.getMonth() + 1).padStart(2, '0')}`;
-        
-        const monthParams = new URLSearchParams({
-          origin: originCity,
-          destination: destinationCity,
-          month: monthStr,
-          currency: params.currency,
-          token: this.API_KEY
-        });
-
-        console.log('Calling Travel Payouts Month Matrix API for additional data:', `${this.BASE_URL}/v2/prices/month-matrix?${monthParams.toString()}`);
-        
-        const monthResponse = await fetch(`${this.BASE_URL}/v2/prices/month-matrix?${monthParams.toString()}`, {
-          method: 'GET',
-          headers: { 'Accept': 'application/json' }
-        });
-
-        if (monthResponse.ok) {
-          const monthData = await monthResponse.json();
-          if (monthData.data && monthData.data.length > 0) {
-            const monthFlights = this.parseMonthMatrixResponse(monthData, params);
-            flights.push(...monthFlights);
-          }
+      try {
+        const monthData = await ProviderHttpClient.getJson<{ data?: unknown[] }>('aviasales', `${this.BASE_URL}/v2/prices/month-matrix?${monthParams.toString()}`, { signal });
+        if (monthData.data && monthData.data.length > 0) {
+          const monthFlights = this.parseMonthMatrixResponse(monthData, params);
+          flights.push(...monthFlights);
         }
+      } catch (error) {
+        // Supplementary data: keep the latest prices we have unless the call was cancelled
+        if (flights.length === 0 || !(error instanceof ProviderRequestError) || error.kind === 'aborted') throw error;
+        console.error('Month Matrix API failed, using latest prices only:', error.message);
       }
-      
-      if (flights.length > 0) {
-        console.log(`Successfully retrieved ${flights.length} flights from Flight Data API`);
-        return flights.slice(0, 10); // Limit to 10 for consistency
-      }
-
-      console.log('Travel Payouts Flight Data API returned no data, falling back to mock data');
-      throw new Error('No flight data available from Travel Payouts Flight Data API');
-
-    } catch (error) {
-      console.error('Aviasales Flight Data API error:', error);
-      console.log('Falling back to mock data due to API error');
-      return this.generateMockAviasalesData(params);
     }
+    
+    if (flights.length === 0) {
+      console.log('Travel Payouts Flight Data API returned no data');
+      return [];
+    }
+
+    console.log(`Successfully retrieved ${flights.length} flights from Flight Data API`);
+    return flights.slice(0, 10); // Limit to 10 for consistency
   }
 
   /**
@@ -272,7 +301,7 @@ export class AviasalesService {
     max?: number;
     basis: 'exact' | 'month';
   } | null> {
-    if (!this.API_KEY) return null;
+    if (!this.isAvailable()) return null;
     
     try {
       // Use Flight Data API to get cached price data
@@ -306,7 +335,7 @@ export class AviasalesService {
   static async getExactPriceForDates(
     params: AviasalesSearchParams & { directOnly?: boolean }
   ): Promise<{ price: number; currency: string; isExact: boolean } | null> {
-    if (!this.API_KEY) return null;
+    if (!this.isAvailable()) return null;
 
     try {
       // Use Flight Data API to get cached price data
@@ -575,3 +604,45 @@ export class AviasalesService {
     };
   }
 }
+
+/**
+ * Map an Aviasales offer into the provider-neutral shape
+ */
+export function normalizeAviasalesOffer(offer: AviasalesFlightOffer): NormalizedFlightOffer {
+  return {
+    id: `aviasales-${offer.id}`,
+    provider: 'aviasales',
+    price: offer.price.amount,
+    currency: offer.price.currency,
+    origin: offer.origin,
+    destination: offer.destination,
+    departureDate: offer.departure_date,
+    returnDate: offer.return_date,
+    airline: offer.airline,
+    flightNumber: offer.flight_number,
+    durationMinutes: offer.duration,
+    stops: offer.transfers,
+    deepLink: offer.link,
+    recencyWeight: offer.recencyWeight,
+    foundAt: offer.foundAt
+  };
+}
+
+export const aviasalesProvider: FlightPriceProvider = {
+  id: 'aviasales',
+  name: 'Aviasales',
+  isConfigured: () => AviasalesService.isAvailable(),
+  async search(request: NormalizedSearchRequest, options: ProviderSearchOptions = {}): Promise<NormalizedFlightOffer[]> {
+    const offers = await AviasalesService.fetchFlights({
+      origin: request.origin,
+      destination: request.destination,
+      departure_date: request.departureDate,
+      return_date: request.returnDate,
+      currency: request.currency,
+      limit: request.maxResults
+    }, options.signal);
+    const normalized = offers.map(normalizeAviasalesOffer);
+    const filtered = request.directOnly ? normalized.filter(o => o.stops === 0) : normalized;
+    return sortByPrice(filtered);
+  }
+};
@@ -0,0 +1,258 @@
+// Backtester - walk-forward replay of stored observations. Each day, every observed price
+// is run through a prediction strategy as of that day, and the BUY_NOW/WAIT call is scored
+// against what the same trip's price actually did over the following days.
+import type { BacktestResult } from './historical-data-manager';
+import { PredictionEngine } from './prediction-engine';
+import { PriceForecastService } from './price-forecast';
+import { PriceObservation, PriceObservationStore } from './price-observations';
+import type { PredictionStrategyInfo } from './prediction';
+import { fixedClock } from './determinism';
+import { CalibrationService, StrategyCalibration } from './calibration';
+import { Job, JobQueue } from './job-queue';
+
+export interface BacktestOptions {
+  strategyId?: string; // Default strategy when missing
+  routes?: string[]; // Every route with observations when missing
+  testPeriodDays?: number; // Days of history to replay, ending now (default 90)
+  horizonDays?: number; // How far ahead a recommendation is judged (default 7)
+  now?: Date;
+}
+
+// BUY_NOW is the positive class: it should be called when the price goes up
+export interface BacktestMetrics {
+  predictions: number;
+  buyNow: number;
+  wait: number;
+  truePositives: number; // BUY_NOW, price rose
+  falsePositives: number; // BUY_NOW, price didn't rise
+  trueNegatives: number; // WAIT, price didn't rise
+  falseNegatives: number; // WAIT, price rose
+  accuracy: number; // 0-1
+  precision: number; // 0-1, share of BUY_NOW calls that were right
+  recall: number; // 0-1, share of price rises that got a BUY_NOW
+  moneySaved: number; // Following each recommendation versus doing the opposite
+  averageMoneySaved: number;
+  meanAbsoluteError: number; // Of the forecast price at the horizon
+}
+
+export interface BacktestRun {
+  strategy: PredictionStrategyInfo;
+  horizonDays: number;
+  period: {
+    start: string;
+    end: string;
+  };
+  skipped: number; // Observed prices with no later price for the same trip within the horizon
+  routes: { [route: string]: BacktestResult[] };
+  routeMetrics: { [route: string]: BacktestMetrics };
+  aggregate: BacktestMetrics;
+}
+
+export class Backtester {
+  static readonly CALIBRATION_JOB = 'calibration';
+  static readonly DEFAULT_TEST_PERIOD_DAYS = 90;
+  static readonly DEFAULT_HORIZON_DAYS = 7;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Replay real observations day by day. Predictions only see data observed before
+   * the replayed moment, so results measure what the strategy would have said then.
+   */
+  static async run(options: BacktestOptions = {}): Promise<BacktestRun> {
+    const strategy = PredictionEngine.getStrategyInfo(options.strategyId);
+    const horizonDays = options.horizonDays ?? this.DEFAULT_HORIZON_DAYS;
+    const now = options.now || new Date();
+    const start = new Date(now.getTime() - (options.testPeriodDays ?? this.DEFAULT_TEST_PERIOD_DAYS) * this.DAY_MS);
+    const routes = options.routes || await PriceObservationStore.getRoutes();
+
+    console.log(`Backtesting ${strategy.id}@${strategy.version} on ${routes.length} routes (${horizonDays}-day horizon)`);
+
+    const results: { [route: string]: BacktestResult[] } = {};
+    let skipped = 0;
+
+    for (const route of routes) {
+      const observations = await PriceObservationStore.query({
+        route,
+        since: start.toISOString(),
+        until: now.toISOString(),
+        realOnly: true
+      });
+      results[route] = [];
+
+      // Oldest first, so this walks forward one replayed day at a time
+      for (const observation of observations) {
+        const outcome = this.findOutcome(observation, observations, horizonDays);
+        if (!outcome) {
+          skipped++;
+          continue;
+        }
+        results[route].push(await this.replay(observation, outcome, strategy, horizonDays));
+      }
+    }
+
+    const routeMetrics: { [route: string]: BacktestMetrics } = {};
+    for (const [route, routeResults] of Object.entries(results)) {
+      routeMetrics[route] = this.calculateMetrics(routeResults);
+    }
+
+    const run: BacktestRun = {
+      strategy,
+      horizonDays,
+      period: { start: start.toISOString(), end: now.toISOString() },
+      skipped,
+      routes: results,
+      routeMetrics,
+      aggregate: this.calculateMetrics(Object.values(results).flat())
+    };
+
+    console.log(`Backtest complete: ${run.aggregate.predictions} predictions scored, ${skipped} skipped, ` +
+      `precision ${run.aggregate.precision}, recall ${run.aggregate.recall}, saved £${run.aggregate.moneySaved}`);
+    return run;
+  }
+
+  /**
+   * Backtest every registered strategy (or the given ones) over all routes and
+   * save their calibrations, which prediction confidence is read from
+   */
+  static async calibrate(
+    strategyIds: string[] = PredictionEngine.listStrategies().map(s => s.id),
+    options: Omit<BacktestOptions, 'strategyId' | 'routes'> = {}
+  ): Promise<StrategyCalibration[]> {
+    const calibrations: StrategyCalibration[] = [];
+    for (const strategyId of strategyIds) {
+      const run = await this.run({ ...options, strategyId });
+      calibrations.push(await this.saveCalibration(run));
+    }
+    return calibrations;
+  }
+
+  /**
+   * Queue a calibration of every strategy for the job runner; a calibration that's
+   * already queued or running is returned instead of adding another
+   */
+  static async queueCalibration(): Promise<Job> {
+    const active = (await JobQueue.list({ type: this.CALIBRATION_JOB }))
+      .find(job => job.status === 'pending' || job.status === 'running');
+    return active || JobQueue.enqueue(this.CALIBRATION_JOB, {});
+  }
+
+  static async saveCalibration(run: BacktestRun): Promise<StrategyCalibration> {
+    const calibration = CalibrationService.build(run.strategy, Object.values(run.routes).flat(), run.horizonDays, run.period);
+    await CalibrationService.save(calibration);
+    return calibration;
+  }
+
+  /**
+   * Confusion counts, precision/recall and money saved for a set of results
+   */
+  static calculateMetrics(results: BacktestResult[]): BacktestMetrics {
+    const rose = (r: BacktestResult) => (r.recommendation === 'BUY_NOW') === (r.actualOutcome === 'CORRECT');
+    const truePositives = results.filter(r => r.recommendation === 'BUY_NOW' && rose(r)).length;
+    const falsePositives = results.filter(r => r.recommendation === 'BUY_NOW' && !rose(r)).length;
+    const falseNegatives = results.filter(r => r.recommendation === 'WAIT' && rose(r)).length;
+    const trueNegatives = results.length - truePositives - falsePositives - falseNegatives;
+    const moneySaved = results.reduce((sum, r) => sum + (r.moneySaved || 0), 0);
+    const round = (value: number) => Math.round(value * 10000) / 10000;
+
+    return {
+      predictions: results.length,
+      buyNow: truePositives + falsePositives,
+      wait: trueNegatives + falseNegatives,
+      truePositives,
+      falsePositives,
+      trueNegatives,
+      falseNegatives,
+      accuracy: results.length > 0 ? round((truePositives + trueNegatives) / results.length) : 0,
+      precision: truePositives + falsePositives > 0 ? round(truePositives / (truePositives + falsePositives)) : 0,
+      recall: truePositives + falseNegatives > 0 ? round(truePositives / (truePositives + falseNegatives)) : 0,
+      moneySaved: Math.round(moneySaved * 100) / 100,
+      averageMoneySaved: results.length > 0 ? Math.round((moneySaved / results.length) * 100) / 100 : 0,
+      meanAbsoluteError: results.length > 0
+        ? Math.round((results.reduce((sum, r) => sum + r.error, 0) / results.length) * 100) / 100
+        : 0
+    };
+  }
+
+  private static async replay(
+    observation: PriceObservation,
+    outcome: PriceObservation,
+    strategy: PredictionStrategyInfo,
+    horizonDays: number
+  ): Promise<BacktestResult> {
+    const [origin, destination] = observation.route.split('-');
+    const clock = fixedClock(observation.observedAt);
+
+    const prediction = await PredictionEngine.predict({
+      currentPrice: observation.price,
+      origin,
+      destination,
+      departureDate: observation.departureDate,
+      currency: observation.currency,
+      bookingDaysAhead: observation.bookingDaysAhead,
+      options: { clock, pointInTime: true },
+      audit: false
+    }, strategy.id);
+
+    const forecast = await PriceForecastService.generateForecast({
+      origin,
+      destination,
+      departureDate: observation.departureDate,
+      currentPrice: observation.price,
+      currency: observation.currency,
+      days: Math.min(horizonDays, PriceForecastService.MAX_DAYS),
+      options: { clock }
+    });
+    const predictedPrice = forecast.points[forecast.points.length - 1]?.expectedPrice ?? observation.price;
+
+    // Buying now pays today's price; waiting pays the price seen at the end of the horizon
+    const priceRose = outcome.price > observation.price;
+    const moneySaved = prediction.recommendation === 'BUY_NOW'
+      ? outcome.price - observation.price
+      : observation.price - outcome.price;
+    const error = Math.abs(predictedPrice - outcome.price);
+
+    return {
+      route: observation.route,
+      predictionDate: observation.observedAt,
+      predictedPrice,
+      actualPrice: outcome.price,
+      error,
+      percentageError: (error / outcome.price) * 100,
+      recommendation: prediction.recommendation,
+      actualOutcome: (prediction.recommendation === 'BUY_NOW') === priceRose ? 'CORRECT' : 'INCORRECT',
+      daysAhead: observation.bookingDaysAhead,
+      strategy: `${strategy.id}@${strategy.version}`,
+      departureDate: observation.departureDate,
+      observedPrice: observation.price,
+      outcomeDate: outcome.observedAt,
+      moneySaved,
+      probabilityIncrease: prediction.probabilityIncrease
+    };
+  }
+
+  /**
+   * Latest later observation of the same trip (route and departure date) within the horizon
+   */
+  private static findOutcome(
+    observation: PriceObservation,
+    observations: PriceObservation[],
+    horizonDays: number
+  ): PriceObservation | null {
+    const from = new Date(observation.observedAt).getTime();
+    const to = from + horizonDays * this.DAY_MS;
+    let outcome: PriceObservation | null = null;
+
+    for (const candidate of observations) {
+      const observedAt = new Date(candidate.observedAt).getTime();
+      if (observedAt <= from || observedAt > to) continue;
+      if (candidate.departureDate !== observation.departureDate) continue;
+      if (!outcome || observedAt >= new Date(outcome.observedAt).getTime()) outcome = candidate;
+    }
+    return outcome;
+  }
+}
+
+JobQueue.registerHandler(Backtester.CALIBRATION_JOB, async () => {
+  const calibrations = await Backtester.calibrate();
+  return calibrations.map(c => ({ ...c.strategy, predictions: c.predictions, accuracy: c.accuracy }));
+});
@@ -0,0 +1,218 @@
+// Calibration - how often each strategy's recommendations were right in backtests, by route
+// class and booking window. Prediction confidence comes from here instead of constants.
+import type { BacktestResult } from './historical-data-manager';
+import type { PredictionStrategyInfo } from './prediction';
+import { AirportService } from './airport-data';
+import { Storage } from './storage';
+
+export type RouteClass = 'short-haul' | 'medium-haul' | 'long-haul' | 'unknown';
+
+export interface CalibrationBucket {
+  routeClass: RouteClass;
+  bookingWindow: string; // e.g. '14-29' days before departure
+  predictions: number;
+  correct: number;
+  accuracy: number; // 0-1
+}
+
+// One point of the reliability diagram: predicted chance of a rise vs how often prices rose
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  predictions: number;
+  meanPredicted: number; // Average probabilityIncrease in the bin
+  observedFrequency: number; // Share of those predictions where the price rose
+}
+
+export interface StrategyCalibration {
+  strategy: PredictionStrategyInfo;
+  calibratedAt: string;
+  horizonDays: number;
+  period: {
+    start: string;
+    end: string;
+  };
+  predictions: number;
+  correct: number;
+  accuracy: number; // 0-1
+  buckets: { [key: string]: CalibrationBucket };
+  reliability: ReliabilityBin[];
+  brierScore: number | null; // Mean squared error of probabilityIncrease (null without probabilities)
+}
+
+// Attached to each prediction to show where its confidence came from
+export interface PredictionCalibration {
+  source: 'bucket' | 'strategy' | 'uncalibrated'; // Most specific level with backtest data
+  accuracy: number | null; // Observed hit rate at that level, 0-1
+  sampleSize: number; // Backtested predictions at that level
+  routeClass: RouteClass;
+  bookingWindow: string;
+  calibratedAt?: string;
+}
+
+export class CalibrationService {
+  static readonly UNCALIBRATED_CONFIDENCE = 50;
+  private static readonly KEY_PREFIX = 'calibration/';
+  private static readonly PRIOR_WEIGHT = 10; // Pseudo-predictions pulling small buckets toward the strategy rate
+  private static readonly CACHE_MS = 10 * 60 * 1000;
+  private static readonly BOOKING_WINDOWS = [
+    { min: 0, max: 6, label: '0-6' },
+    { min: 7, max: 13, label: '7-13' },
+    { min: 14, max: 29, label: '14-29' },
+    { min: 30, max: 59, label: '30-59' },
+    { min: 60, max: Infinity, label: '60+' }
+  ];
+
+  private static cache: { [strategyId: string]: { calibration: StrategyCalibration | null; loadedAt: number } } = {};
+
+  /**
+   * Confidence (0-100) for a strategy's prediction on this route and booking window.
+   * The bucket's backtested hit rate, shrunk toward the strategy's overall rate (and that
+   * toward 50%) when samples are few. Calibrations from another strategy version are ignored.
+   */
+  static async getConfidence(
+    strategy: PredictionStrategyInfo,
+    route: string,
+    bookingDaysAhead: number
+  ): Promise<{ confidence: number; calibration: PredictionCalibration }> {
+    const routeClass = this.getRouteClass(route);
+    const bookingWindow = this.getBookingWindow(bookingDaysAhead);
+    const stored = await this.load(strategy.id);
+    const calibration = stored?.strategy.version === strategy.version ? stored : null;
+
+    if (!calibration || calibration.predictions === 0) {
+      return {
+        confidence: this.UNCALIBRATED_CONFIDENCE,
+        calibration: { source: 'uncalibrated', accuracy: null, sampleSize: 0, routeClass, bookingWindow }
+      };
+    }
+
+    const k = this.PRIOR_WEIGHT;
+    const strategyRate = (calibration.correct + k * 0.5) / (calibration.predictions + k);
+    const bucket = calibration.buckets[this.bucketKey(routeClass, bookingWindow)];
+    const rate = bucket
+      ? (bucket.correct + k * strategyRate) / (bucket.predictions + k)
+      : strategyRate;
+
+    return {
+      confidence: Math.round(rate * 100),
+      calibration: {
+        source: bucket ? 'bucket' : 'strategy',
+        accuracy: bucket ? bucket.accuracy : calibration.accuracy,
+        sampleSize: bucket ? bucket.predictions : calibration.predictions,
+        routeClass,
+        bookingWindow,
+        calibratedAt: calibration.calibratedAt
+      }
+    };
+  }
+
+  /**
+   * Calibration from one strategy's backtest results
+   */
+  static build(
+    strategy: PredictionStrategyInfo,
+    results: BacktestResult[],
+    horizonDays: number,
+    period: { start: string; end: string }
+  ): StrategyCalibration {
+    const buckets: { [key: string]: CalibrationBucket } = {};
+    for (const result of results) {
+      const routeClass = this.getRouteClass(result.route);
+      const bookingWindow = this.getBookingWindow(result.daysAhead);
+      const key = this.bucketKey(routeClass, bookingWindow);
+      if (!buckets[key]) buckets[key] = { routeClass, bookingWindow, predictions: 0, correct: 0, accuracy: 0 };
+      buckets[key].predictions++;
+      if (result.actualOutcome === 'CORRECT') buckets[key].correct++;
+    }
+    for (const bucket of Object.values(buckets)) {
+      bucket.accuracy = this.round(bucket.correct / bucket.predictions);
+    }
+
+    const correct = results.filter(r => r.actualOutcome === 'CORRECT').length;
+    const withProbability = results.filter(r => typeof r.probabilityIncrease === 'number');
+    const rose = (r: BacktestResult) => (r.recommendation === 'BUY_NOW') === (r.actualOutcome === 'CORRECT');
+
+    return {
+      strategy,
+      calibratedAt: new Date().toISOString(),
+      horizonDays,
+      period,
+      predictions: results.length,
+      correct,
+      accuracy: results.length > 0 ? this.round(correct / results.length) : 0,
+      buckets,
+      reliability: this.buildReliability(withProbability, rose),
+      brierScore: withProbability.length > 0
+        ? this.round(withProbability.reduce((sum, r) => sum + Math.pow(r.probabilityIncrease! - (rose(r) ? 1 : 0), 2), 0) / withProbability.length)
+        : null
+    };
+  }
+
+  static async save(calibration: StrategyCalibration): Promise<void> {
+    await Storage.set(this.key(calibration.strategy.id), calibration);
+    this.cache[calibration.strategy.id] = { calibration, loadedAt: Date.now() };
+    console.log(`Saved calibration for ${calibration.strategy.id}@${calibration.strategy.version}: ` +
+      `${calibration.predictions} predictions, ${Math.round(calibration.accuracy * 100)}% correct`);
+  }
+
+  /**
+   * Stored calibration for a strategy (any version), null when it hasn't been backtested
+   */
+  static async load(strategyId: string): Promise<StrategyCalibration | null> {
+    const cached = this.cache[strategyId];
+    if (cached && Date.now() - cached.loadedAt < this.CACHE_MS) return cached.calibration;
+
+    const calibration = await Storage.get<StrategyCalibration>(this.key(strategyId));
+    this.cache[strategyId] = { calibration, loadedAt: Date.now() };
+    return calibration;
+  }
+
+  /**
+   * Short/medium/long-haul by great-circle distance
+   */
+  static getRouteClass(route: string): RouteClass {
+    const [origin, destination] = route.split('-');
+    const distanceKm = origin && destination ? AirportService.getDistanceKm(origin, destination) : undefined;
+    if (distanceKm === undefined) return 'unknown';
+    if (distanceKm < 1500) return 'short-haul';
+    if (distanceKm < 4000) return 'medium-haul';
+    return 'long-haul';
+  }
+
+  static getBookingWindow(bookingDaysAhead: number): string {
+    const days = Math.max(0, Math.round(bookingDaysAhead));
+    return this.BOOKING_WINDOWS.find(w => days >= w.min && days <= w.max)!.label;
+  }
+
+  private static buildReliability(results: BacktestResult[], rose: (r: BacktestResult) => boolean): ReliabilityBin[] {
+    const bins: ReliabilityBin[] = [];
+    for (let i = 0; i < 10; i++) {
+      const lower = i / 10;
+      const upper = (i + 1) / 10;
+      const inBin = results.filter(r => r.probabilityIncrease! >= lower && (r.probabilityIncrease! < upper || (i === 9 && r.probabilityIncrease! <= 1)));
+      if (inBin.length === 0) continue;
+
+      bins.push({
+        lower,
+        upper,
+        predictions: inBin.length,
+        meanPredicted: this.round(inBin.reduce((sum, r) => sum + r.probabilityIncrease!, 0) / inBin.length),
+        observedFrequency: this.round(inBin.filter(rose).length / inBin.length)
+      });
+    }
+    return bins;
+  }
+
+  private static bucketKey(routeClass: RouteClass, bookingWindow: string): string {
+    return `${routeClass}:${bookingWindow}`;
+  }
+
+  private static key(strategyId: string): string {
+    return `${this.KEY_PREFIX}${strategyId}`;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
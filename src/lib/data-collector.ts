@@ -1,5 +1,8 @@
 import { AmadeusService } from './amadeus';
 import { PricePrediction } from './prediction';
+import { Storage } from './storage';
+import { PriceObservationStore } from './price-observations';
+import { rngFor } from './determinism';
 
 export interface HistoricalPricePoint {
   date: string;
@@ -48,8 +51,16 @@ export interface EnhancedRouteData {
   };
 }
 
+interface StoredRouteData {
+  collectedAt: string;
+  routes: { [route: string]: EnhancedRouteData };
+}
+
 export class DataCollector {
-  private static readonly POPULAR_ROUTES = [
+  private static readonly ROUTE_DATA_KEY = 'data-collector/route-data';
+  private static readonly MAX_DATA_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+  static readonly POPULAR_ROUTES = [
     'LHR-JFK', 'LHR-LAX', 'LHR-DXB', 'LHR-SIN', 'LHR-HKG',
     'LHR-KUL', 'LHR-CPH', 'LHR-CDG', 'LHR-FRA', 'LHR-AMS',
     'JFK-LAX', 'JFK-LHR', 'LAX-NRT', 'CDG-JFK', 'FRA-JFK'
@@ -118,7 +129,9 @@ export class DataCollector {
         const basePrice = this.getBasePrice(route);
         const seasonalMultiplier = this.getSeasonalMultiplier(departureDate.getMonth() + 1);
         const bookingMultiplier = this.getBookingWindowMultiplier(bookingDaysAhead);
-        const volatility = Math.random() * 0.3 + 0.85; // 15% volatility
+        // Seeded per route/window/day so re-collecting gives the same simulated history
+        const rng = rngFor(undefined, 'simulated', route, bookingDaysAhead, searchDate.toISOString().split('T')[0]);
+        const volatility = rng() * 0.3 + 0.85; // 15% volatility
         
         const price = Math.round(basePrice * seasonalMultiplier * bookingMultiplier * volatility);
         
@@ -253,9 +266,9 @@ export class DataCollector {
   }
 
   /**
-   * Get booking window multiplier
+   * Default booking window multiplier (used where a route has no collected curve)
    */
-  private static getBookingWindowMultiplier(daysAhead: number): number {
+  static getBookingWindowMultiplier(daysAhead: number): number {
     if (daysAhead >= 90) return 0.85; // Early bird discount
     if (daysAhead >= 60) return 0.9;
     if (daysAhead >= 30) return 1.0;
@@ -290,33 +303,37 @@ export class DataCollector {
   }
 
   /**
-   * Save collected data to local storage or database
+   * Save collected route analysis and every price point it was built from
    */
   static async saveHistoricalData(data: { [route: string]: EnhancedRouteData }): Promise<void> {
     try {
-      // In production, save to database
-      localStorage.setItem('flightPriceHistoricalData', JSON.stringify(data));
-      localStorage.setItem('dataCollectionTimestamp', new Date().toISOString());
-      console.log('Historical data saved successfully');
+      await Storage.set<StoredRouteData>(this.ROUTE_DATA_KEY, {
+        collectedAt: new Date().toISOString(),
+        routes: data
+      });
+
+      const observations = Object.values(data)
+        .flatMap(routeData => routeData.priceHistory)
+        .map(point => PriceObservationStore.fromHistoricalPricePoint(point));
+      const added = await PriceObservationStore.add(observations);
+      console.log(`Historical data saved successfully (${added} new price observations)`);
     } catch (error) {
       console.error('Error saving historical data:', error);
     }
   }
 
   /**
-   * Load historical data from storage
+   * Load historical data from storage (null when missing or older than 24 hours)
    */
   static async loadHistoricalData(): Promise<{ [route: string]: EnhancedRouteData } | null> {
     try {
-      const data = localStorage.getItem('flightPriceHistoricalData');
-      const timestamp = localStorage.getItem('dataCollectionTimestamp');
+      const stored = await Storage.get<StoredRouteData>(this.ROUTE_DATA_KEY);
       
-      if (data && timestamp) {
-        const dataAge = Date.now() - new Date(timestamp).getTime();
-        const maxAge = 24 * 60 * 60 * 1000; // 24 hours
+      if (stored) {
+        const dataAge = Date.now() - new Date(stored.collectedAt).getTime();
         
-        if (dataAge < maxAge) {
-          return JSON.parse(data);
+        if (dataAge < this.MAX_DATA_AGE_MS) {
+          return stored.routes;
         }
       }
       
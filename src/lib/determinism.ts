@@ -0,0 +1,64 @@
+// Determinism helpers - injectable clock and seeded random numbers, so the same
+// inputs (and stored data) always produce the same prediction
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+/**
+ * A clock that always returns the given time (for tests and backtests)
+ */
+export function fixedClock(time: Date | string | number): Clock {
+  const fixed = new Date(time).getTime();
+  return {
+    now: () => new Date(fixed)
+  };
+}
+
+/**
+ * Random number source returning values in [0, 1), like Math.random
+ */
+export type Rng = () => number;
+
+/**
+ * Seeded generator (mulberry32) - same seed, same sequence
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 32-bit seed from any mix of strings and numbers (FNV-1a)
+ */
+export function hashSeed(...parts: Array<string | number | undefined>): number {
+  let hash = 0x811C9DC5;
+  const input = parts.map(part => part === undefined ? '' : String(part)).join('|');
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded generator for the given inputs, offset by an explicit seed when one is injected
+ */
+export function rngFor(seed: number | undefined, ...parts: Array<string | number | undefined>): Rng {
+  return createRng(hashSeed(seed ?? 0, ...parts));
+}
+
+export interface DeterminismOptions {
+  clock?: Clock;
+  seed?: number; // Mixed into every per-input seed; change it to get a different (but still repeatable) run
+}
@@ -1,5 +1,7 @@
 import { DataCollector, EnhancedRouteData, HistoricalPricePoint } from './data-collector';
 import { PricePrediction } from './prediction';
+import { DeterminismOptions, systemClock } from './determinism';
+import { CalibrationService } from './calibration';
 
 export interface EnhancedPricePrediction extends PricePrediction {
   dataQuality: {
@@ -46,7 +48,16 @@ export class EnhancedPredictionService {
   }
 
   /**
-   * Generate enhanced prediction with high confidence
+   * Collected trend data for a route. Doesn't start a collection, so it is null
+   * when nothing fresh is stored for the route.
+   */
+  static async getRouteData(route: string): Promise<EnhancedRouteData | null> {
+    const data = this.historicalData || await DataCollector.loadHistoricalData();
+    return data?.[route] || null;
+  }
+
+  /**
+   * Generate enhanced prediction from collected route trends
    */
   static async generateEnhancedPrediction(
     currentPrice: number,
@@ -54,8 +65,10 @@ export class EnhancedPredictionService {
     destination: string,
     departureDate: string,
     bookingDaysAhead: number = 30,
-    currency: string = 'GBP'
+    currency: string = 'GBP',
+    options: DeterminismOptions = {}
   ): Promise<EnhancedPricePrediction> {
+    const now = (options.clock || systemClock).now();
     
     // Ensure data is initialized
     if (!this.historicalData) {
@@ -70,7 +83,7 @@ export class EnhancedPredictionService {
 
     if (!routeData) {
       // Fallback to basic prediction for unknown routes
-      return this.generateFallbackPrediction(currentPrice, origin, destination, departureDate, currency);
+      return this.generateFallbackPrediction(currentPrice, origin, destination, departureDate, currency, now);
     }
 
     // Calculate prediction factors with enhanced data
@@ -83,9 +96,6 @@ export class EnhancedPredictionService {
       routeData, currentPrice, month, dayOfWeek, bookingDaysAhead, predictionFactors
     );
 
-    // Calculate enhanced confidence based on data quality and model accuracy
-    const confidence = this.calculateEnhancedConfidence(routeData, predictionFactors);
-
     // Generate recommendation with higher threshold for enhanced predictions
     const recommendation = probabilityIncrease >= 0.75 ? 'BUY_NOW' : 'WAIT';
 
@@ -115,10 +125,10 @@ export class EnhancedPredictionService {
     return {
       currentPrice,
       currency,
-      timestamp: new Date().toISOString(),
+      timestamp: now.toISOString(),
       probabilityIncrease,
       probabilityDecrease,
-      confidence,
+      confidence: CalibrationService.UNCALIBRATED_CONFIDENCE, // PredictionEngine sets the calibrated value
       recommendation,
       historicalContext,
       priceRange,
@@ -224,42 +234,6 @@ export class EnhancedPredictionService {
     };
   }
 
-  /**
-   * Calculate enhanced confidence based on data quality and model accuracy
-   */
-  private static calculateEnhancedConfidence(
-    routeData: EnhancedRouteData,
-    factors: any
-  ): number {
-    let confidence = 0.6; // Start with base confidence
-
-    // Data quantity bonus (more data = higher confidence)
-    const dataQuantityBonus = Math.min(routeData.totalDataPoints / 100, 0.25);
-    confidence += dataQuantityBonus;
-
-    // Seasonal coverage bonus
-    const seasonalCoverage = Object.keys(routeData.seasonalTrends).length / 12;
-    confidence += seasonalCoverage * 0.15;
-
-    // Booking window coverage bonus
-    const bookingCoverage = Object.keys(routeData.bookingWindowAnalysis).length / 7;
-    confidence += bookingCoverage * 0.1;
-
-    // Low volatility bonus
-    const avgVolatility = Object.values(routeData.seasonalTrends)
-      .reduce((sum, data) => sum + data.volatility, 0) / Object.keys(routeData.seasonalTrends).length;
-    const volatilityBonus = Math.max(0, (0.3 - avgVolatility) * 0.5);
-    confidence += volatilityBonus;
-
-    // Factor reliability bonus
-    const avgFactorWeight = (factors.seasonalWeight + factors.bookingWindowWeight + 
-                           factors.dayOfWeekWeight + factors.volatilityWeight) / 4;
-    confidence += avgFactorWeight * 0.15;
-
-    // Ensure confidence is within realistic bounds
-    return Math.max(0.65, Math.min(0.98, Math.round(confidence * 100)));
-  }
-
   /**
    * Calculate data quality metrics
    */
@@ -397,16 +371,17 @@ export class EnhancedPredictionService {
     origin: string,
     destination: string,
     departureDate: string,
-    currency: string
+    currency: string,
+    now: Date
   ): EnhancedPricePrediction {
     // Basic prediction for routes without historical data
     return {
       currentPrice,
       currency,
-      timestamp: new Date().toISOString(),
+      timestamp: now.toISOString(),
       probabilityIncrease: 0.5,
       probabilityDecrease: 0.5,
-      confidence: 45, // Lower confidence for unknown routes
+      confidence: CalibrationService.UNCALIBRATED_CONFIDENCE,
       recommendation: 'WAIT',
       historicalContext: 'Limited historical data available for this route',
       priceRange: {
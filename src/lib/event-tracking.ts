@@ -0,0 +1,14 @@
+// Browser helper for /api/events. Fire-and-forget: tracking must never get in the way of booking.
+import type { UserEventType } from './user-events';
+
+export function trackPredictionEvent(predictionId: string | undefined, type: UserEventType, partner?: string): void {
+  if (!predictionId) return;
+
+  // keepalive lets the request finish when the click navigates away
+  fetch('/api/events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ predictionId, type, partner }),
+    keepalive: true
+  }).catch(error => console.error('Failed to record event:', error));
+}
@@ -1,6 +1,10 @@
-// Flight Price Aggregator - Combines real data (Aviasales) and synthetic data (FlightPriceIQ) for average price calculations
-import { AviasalesService, AviasalesSearchParams } from './aviasales';
-import { PricePredictionService } from './FlightPriceIQ';
+// Flight Price Aggregator - Combines real data (provider registry) and synthetic data (route profiles) for average price calculations
+import { NormalizedFlightOffer } from './flight-provider';
+import { ProviderRegistry } from './provider-registry';
+import { PredictionEngine } from './prediction-engine';
+import { RouteProfileService } from './route-profiles';
+import type { AuditPricing } from './prediction-audit';
+import type { CacheStatus } from './provider-cache';
 
 export interface FlightPriceData {
   averagePrice: number;
@@ -9,6 +13,10 @@ export interface FlightPriceData {
   priceCount: number;
   currency: string;
   sources: string[];
+  provider: string; // Provider from the fallback chain that served the real prices
+  cache?: CacheStatus; // Whether the provider's offers came from the provider cache
+  cheapestPrice?: number; // Cheapest offer from the serving provider; missing when it returned none
+  degradedReason?: string; // Set when an expired cache entry was served because the provider failed
   confidence: number;
   lastUpdated: string;
 }
@@ -20,73 +28,82 @@ export interface AggregatedFlightSearch {
   returnDate?: string;
   currency: string;
   directOnly?: boolean;
+  strategy?: string; // Prediction strategy id (engine default when missing)
 }
 
 export class FlightPriceAggregator {
   /**
-   * Get aggregated average price data from multiple sources
+   * Get aggregated average price data from multiple sources. Throws ProviderAbortedError
+   * when the signal aborts instead of falling back to synthetic data. serveExpired lets an
+   * out-of-quota provider answer from its expired cache (for prices shown to a user).
    */
-  static async getAverageFlightPrices(params: AggregatedFlightSearch): Promise<FlightPriceData | null> {
+  static async getAverageFlightPrices(
+    params: AggregatedFlightSearch,
+    options: { signal?: AbortSignal; serveExpired?: boolean } = {}
+  ): Promise<FlightPriceData | null> {
     const sources: string[] = [];
     const allPrices: number[] = [];
+    let servedBy = 'none';
+    let cacheStatus: CacheStatus | undefined;
+    let cheapestPrice: number | undefined;
+    let degradedReason: string | undefined;
     let currency = params.currency || 'GBP';
 
     try {
-      // Get data from Aviasales
-      const aviasalesParams: AviasalesSearchParams = {
-        origin: params.origin,
-        destination: params.destination,
-        departure_date: params.departureDate,
-        return_date: params.returnDate,
-        currency: currency,
-        limit: 10
-      };
-
-      // Get Aviasales data (real flight prices with weighted averaging)
+      // Get data from the provider fallback chain (real flight prices with weighted averaging)
       try {
-        const aviasalesStats = await AviasalesService.getPriceStatistics(aviasalesParams);
-        if (aviasalesStats) {
+        const { provider, offers, cache, attempts } = await ProviderRegistry.search({
+          origin: params.origin,
+          destination: params.destination,
+          departureDate: params.departureDate,
+          returnDate: params.returnDate,
+          adults: 1,
+          currency: currency,
+          directOnly: params.directOnly,
+          maxResults: 10
+        }, undefined, { serveExpired: options.serveExpired, signal: options.signal });
+        servedBy = provider;
+        cacheStatus = cache;
+        degradedReason = attempts.find(attempt => attempt.status === 'served')?.reason;
+        if (offers.length > 0) cheapestPrice = Math.min(...offers.map(offer => offer.price));
+        const providerStats = this.summarizeOffers(offers);
+        if (providerStats) {
           // Use weighted average for more current pricing
-          const weightedPrice = aviasalesStats.weightedAverage;
-          const simpleAverage = aviasalesStats.average;
+          const weightedPrice = providerStats.weightedAverage;
+          const simpleAverage = providerStats.average;
           
           // Add both weighted and simple average to provide balance
           allPrices.push(weightedPrice);
           allPrices.push(simpleAverage);
           
           // Add some individual flight prices for variety, but weight recent ones more
-          const aviasalesFlights = await AviasalesService.searchFlights(aviasalesParams);
-          const recentFlights = aviasalesFlights
+          const recentFlights = offers
             .filter(f => (f.recencyWeight || 1.0) > 1.5)
             .slice(0, 3); // Top 3 recent flights
           
-          recentFlights.forEach(flight => allPrices.push(flight.price.amount));
+          recentFlights.forEach(flight => allPrices.push(flight.price));
           
-          sources.push('Aviasales (Weighted)');
+          const providerName = ProviderRegistry.getProvider(provider)?.name || provider;
+          sources.push(`${providerName} (Weighted)`);
           
-          console.log(`Aviasales weighted avg: £${weightedPrice}, simple avg: £${simpleAverage}, recent flights: ${recentFlights.length}`);
+          console.log(`${providerName} weighted avg: £${weightedPrice}, simple avg: £${simpleAverage}, recent flights: ${recentFlights.length}`);
         }
       } catch (error) {
-        console.error('Error fetching Aviasales data:', error);
+        if (options.signal?.aborted) throw error;
+        console.error('Error fetching provider data:', error);
       }
 
-      // Add synthetic data from FlightPriceIQ for comprehensive averaging
+      // Add synthetic data from the route profile for comprehensive averaging
       const route = `${params.origin}-${params.destination}`;
       const currentMonth = new Date(params.departureDate).getMonth() + 1;
-      const prediction = PricePredictionService.generatePrediction(
-        allPrices.length > 0 ? allPrices.reduce((a, b) => a + b, 0) / allPrices.length : 400,
-        params.origin,
-        params.destination,
-        params.departureDate,
-        currency
-      );
+      const monthProfile = RouteProfileService.getMonthProfile(route, currentMonth);
 
       // Add synthetic historical data points for better averaging
       // Use min, average, and max from historical data to create realistic price distribution
-      allPrices.push(prediction.priceRange.min);
-      allPrices.push(prediction.priceRange.average);
-      allPrices.push(prediction.priceRange.max);
-      sources.push('Synthetic Data (FlightPriceIQ)');
+      allPrices.push(monthProfile.minPrice);
+      allPrices.push(monthProfile.averagePrice);
+      allPrices.push(monthProfile.maxPrice);
+      sources.push('Synthetic Data (Route Profile)');
 
       if (allPrices.length === 0) {
         return null;
@@ -99,7 +116,7 @@ export class FlightPriceAggregator {
 
       // Calculate confidence based on data sources and price consistency
       let confidence = 75; // Higher base confidence with quality real + synthetic data
-      if (sources.includes('Aviasales') && sources.includes('Synthetic Data (FlightPriceIQ)')) {
+      if (sources.includes('Aviasales') && sources.includes('Synthetic Data (Route Profile)')) {
         confidence += 10; // Bonus for having both real and synthetic data
       }
       if (allPrices.length >= 10) confidence += 5; // Bonus for large sample size
@@ -122,16 +139,61 @@ export class FlightPriceAggregator {
         priceCount: allPrices.length,
         currency,
         sources,
+        provider: servedBy,
+        cache: cacheStatus,
+        cheapestPrice,
+        degradedReason,
         confidence,
         lastUpdated: new Date().toISOString()
       };
 
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Error aggregating flight prices:', error);
       return null;
     }
   }
 
+  /**
+   * The aggregated prices a prediction was based on, for the prediction audit log
+   */
+  static toAuditPricing(data: FlightPriceData): AuditPricing {
+    return {
+      provider: data.provider,
+      price: data.averagePrice,
+      minPrice: data.minPrice,
+      maxPrice: data.maxPrice,
+      sources: data.sources
+    };
+  }
+
+  /**
+   * Simple and recency-weighted price statistics for a set of offers
+   */
+  private static summarizeOffers(offers: NormalizedFlightOffer[]): {
+    average: number;
+    weightedAverage: number;
+    count: number;
+  } | null {
+    if (offers.length === 0) return null;
+
+    let totalWeightedPrice = 0;
+    let totalWeight = 0;
+    offers.forEach(offer => {
+      const weight = offer.recencyWeight || 1.0;
+      totalWeightedPrice += offer.price * weight;
+      totalWeight += weight;
+    });
+
+    const simpleAverage = offers.reduce((sum, offer) => sum + offer.price, 0) / offers.length;
+
+    return {
+      average: Math.round(simpleAverage),
+      weightedAverage: Math.round(totalWeightedPrice / totalWeight),
+      count: offers.length
+    };
+  }
+
   /**
    * Get price trend analysis comparing current average to historical data
    */
@@ -145,13 +207,14 @@ export class FlightPriceAggregator {
     const currentData = await this.getAverageFlightPrices(params);
     if (!currentData) return null;
 
-    const prediction = PricePredictionService.generatePrediction(
-      currentData.averagePrice,
-      params.origin,
-      params.destination,
-      params.departureDate,
-      params.currency || 'GBP'
-    );
+    const prediction = await PredictionEngine.predict({
+      currentPrice: currentData.averagePrice,
+      origin: params.origin,
+      destination: params.destination,
+      departureDate: params.departureDate,
+      currency: params.currency || 'GBP',
+      audit: { source: 'price-trend', pricing: this.toAuditPricing(currentData) }
+    }, params.strategy);
 
     const historicalAverage = prediction.priceRange.average;
     const percentageChange = ((currentData.averagePrice - historicalAverage) / historicalAverage) * 100;
@@ -174,6 +237,8 @@ export class FlightPriceAggregator {
    * Get comprehensive flight analysis with average pricing focus
    */
   static async getFlightAnalysis(params: AggregatedFlightSearch) {
+    await RouteProfileService.refreshIfStale();
+
     const [priceData, trendData] = await Promise.all([
       this.getAverageFlightPrices(params),
       this.getPriceTrend(params)
@@ -183,13 +248,14 @@ export class FlightPriceAggregator {
       return null;
     }
 
-    const prediction = PricePredictionService.generatePrediction(
-      priceData.averagePrice,
-      params.origin,
-      params.destination,
-      params.departureDate,
-      params.currency || 'GBP'
-    );
+    const prediction = await PredictionEngine.predict({
+      currentPrice: priceData.averagePrice,
+      origin: params.origin,
+      destination: params.destination,
+      departureDate: params.departureDate,
+      currency: params.currency || 'GBP',
+      audit: { source: 'flight-analysis', pricing: this.toAuditPricing(priceData) }
+    }, params.strategy);
 
     return {
       pricing: priceData,
@@ -278,12 +344,16 @@ export class FlightPriceAggregator {
         const totalPrice = currentPrice + returnPrice;
 
         // Get historical average for comparison
-        const prediction = PricePredictionService.generatePrediction(
+        const prediction = await PredictionEngine.predict({
           currentPrice,
-          route.origin,
-          route.destination,
-          departureDate
-        );
+          origin: route.origin,
+          destination: route.destination,
+          departureDate,
+          audit: {
+            source: 'spotlight',
+            pricing: outboundData ? this.toAuditPricing(outboundData) : { provider: 'typical', price: currentPrice }
+          }
+        });
 
         const historicalTotal = prediction.priceRange.average * 2; // Round trip
         const discount = Math.max(0, historicalTotal - totalPrice);
@@ -298,7 +368,7 @@ export class FlightPriceAggregator {
           discount,
           discountPercentage,
           recommendation: prediction.recommendation,
-          confidence: outboundData?.confidence || 75
+          confidence: prediction.confidence
         };
       })
     );
@@ -0,0 +1,93 @@
+// Common contract for flight price sources (Amadeus, Aviasales, Skyscanner, ...)
+// Each provider translates the normalized request into its own API params and
+// maps its offers back into NormalizedFlightOffer.
+
+export type CabinClass = 'ECONOMY' | 'PREMIUM_ECONOMY' | 'BUSINESS' | 'FIRST';
+
+export interface NormalizedSearchRequest {
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string;
+  adults: number;
+  children?: number;
+  infants?: number;
+  cabinClass?: CabinClass;
+  currency: string;
+  directOnly?: boolean;
+  maxResults?: number;
+}
+
+export interface NormalizedFlightOffer {
+  id: string;
+  provider: string;
+  price: number;
+  currency: string;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string;
+  airline: string;
+  flightNumber?: string;
+  durationMinutes: number;
+  stops: number;
+  deepLink?: string;
+  recencyWeight?: number;
+  foundAt?: string;
+}
+
+export interface ProviderSearchOptions {
+  signal?: AbortSignal; // Aborts upstream calls, e.g. when the incoming request is cancelled
+}
+
+export interface FlightPriceProvider {
+  readonly id: string;
+  readonly name: string;
+  /**
+   * Whether credentials for the upstream API are present
+   */
+  isConfigured(): boolean;
+  /**
+   * Search offers for a normalized request, cheapest first. Upstream failures are thrown
+   * as ProviderRequestError.
+   */
+  search(request: NormalizedSearchRequest, options?: ProviderSearchOptions): Promise<NormalizedFlightOffer[]>;
+}
+
+/**
+ * Build a normalized request from the body fields our search routes accept
+ */
+export function toNormalizedSearchRequest(body: {
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string;
+  passengers?: number;
+  directFlightsOnly?: boolean;
+  currency?: string;
+}): NormalizedSearchRequest {
+  return {
+    origin: body.origin,
+    destination: body.destination,
+    departureDate: body.departureDate,
+    returnDate: body.returnDate || undefined,
+    adults: body.passengers || 1,
+    currency: body.currency || 'GBP',
+    directOnly: !!body.directFlightsOnly,
+    maxResults: 10
+  };
+}
+
+/**
+ * Parse an ISO 8601 duration (PT7H25M) into minutes
+ */
+export function parseIsoDurationMinutes(duration: string | undefined): number {
+  if (!duration) return 0;
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/);
+  if (!match) return 0;
+  return parseInt(match[1] || '0', 10) * 60 + parseInt(match[2] || '0', 10);
+}
+
+export function sortByPrice(offers: NormalizedFlightOffer[]): NormalizedFlightOffer[] {
+  return [...offers].sort((a, b) => a.price - b.price);
+}
@@ -1,4 +1,8 @@
 import { AmadeusService } from './amadeus';
+import { Storage } from './storage';
+import { PriceObservationStore } from './price-observations';
+import { rngFor } from './determinism';
+import { Backtester } from './backtester';
 
 export interface RealHistoricalPrice {
   route: string;
@@ -8,7 +12,7 @@ export interface RealHistoricalPrice {
   departureDate: string;
   bookingDaysAhead: number;
   airline?: string;
-  source: 'amadeus' | 'manual';
+  source: string; // Provider id (e.g. 'amadeus'), or 'manual' for generated prices
   timestamp: string;
 }
 
@@ -26,6 +30,7 @@ export interface ValidationResult {
     start: string;
     end: string;
   };
+  validatedAt?: string; // When the metrics were calculated
 }
 
 export interface BacktestResult {
@@ -38,12 +43,18 @@ export interface BacktestResult {
   recommendation: 'BUY_NOW' | 'WAIT';
   actualOutcome: 'CORRECT' | 'INCORRECT';
   daysAhead: number;
+  // Set by the walk-forward Backtester
+  strategy?: string; // id@version
+  departureDate?: string;
+  observedPrice?: number; // Price when the prediction was made
+  outcomeDate?: string; // When actualPrice was observed
+  moneySaved?: number; // Following the recommendation versus doing the opposite
+  probabilityIncrease?: number; // The strategy's predicted chance of a rise (for reliability diagrams)
 }
 
 export class HistoricalDataManager {
-  private static readonly STORAGE_KEY = 'flight_historical_data';
-  private static readonly VALIDATION_KEY = 'flight_validation_results';
-  private static readonly BACKTEST_KEY = 'flight_backtest_results';
+  private static readonly VALIDATION_KEY = 'validation/results';
+  private static readonly BACKTEST_KEY = 'validation/backtest-results';
 
   /**
    * Collect real historical price data over 6+ months
@@ -71,8 +82,8 @@ export class HistoricalDataManager {
           const departureDate = new Date(currentDate.getTime() + bookingWindow * 24 * 60 * 60 * 1000);
           
           try {
-            // Try to get real Amadeus data
-            const flights = await AmadeusService.searchFlights({
+            // Try to get real Amadeus data (fetchFlights throws instead of returning mock offers)
+            const flights = await AmadeusService.fetchFlights({
               originLocationCode: origin,
               destinationLocationCode: destination,
               departureDate: departureDate.toISOString().split('T')[0],
@@ -118,82 +129,35 @@ export class HistoricalDataManager {
       }
     }
 
-    // Save to localStorage
-    this.saveHistoricalData(historicalData);
+    // Persist every observation so history survives restarts
+    await this.saveHistoricalData(historicalData);
     console.log(`Collected ${historicalData.length} historical price points`);
     
     return historicalData;
   }
 
   /**
-   * Perform backtesting against actual price movements
+   * Walk-forward backtest of a prediction strategy over stored real observations
+   * (see Backtester). Saves every scored prediction and the strategy's calibration.
    */
   static async performBacktesting(
-    historicalData: RealHistoricalPrice[],
-    testPeriodDays: number = 90
+    testPeriodDays: number = 90,
+    strategyId?: string
   ): Promise<BacktestResult[]> {
-    const backtestResults: BacktestResult[] = [];
-    const testStartDate = new Date();
-    testStartDate.setDate(testStartDate.getDate() - testPeriodDays);
+    const run = await Backtester.run({ testPeriodDays, strategyId });
+    const backtestResults = Object.values(run.routes)
+      .flat()
+      .sort((a, b) => a.predictionDate.localeCompare(b.predictionDate));
 
-    // Group data by route
-    const routeData = this.groupDataByRoute(historicalData);
-
-    for (const [route, data] of Object.entries(routeData)) {
-      const testData = data.filter(d => new Date(d.date) >= testStartDate);
-      
-      for (let i = 0; i < testData.length - 7; i++) { // Need future data to validate
-        const predictionPoint = testData[i];
-        const futurePoints = testData.slice(i + 1, i + 8); // Next 7 days
-        
-        if (futurePoints.length === 0) continue;
-
-        // Make prediction using our algorithm
-        const prediction = await this.makePredictionForBacktest(
-          predictionPoint,
-          data.slice(0, i) // Only use past data
-        );
-
-        // Find actual price movement
-        const actualFuturePrice = this.findClosestFuturePrice(
-          futurePoints,
-          predictionPoint.departureDate,
-          predictionPoint.bookingDaysAhead - 7
-        );
-
-        if (actualFuturePrice) {
-          const error = Math.abs(prediction.predictedPrice - actualFuturePrice.price);
-          const percentageError = (error / actualFuturePrice.price) * 100;
-          
-          // Determine if recommendation was correct
-          const priceIncreased = actualFuturePrice.price > predictionPoint.price;
-          const recommendationCorrect = 
-            (prediction.recommendation === 'BUY_NOW' && priceIncreased) ||
-            (prediction.recommendation === 'WAIT' && !priceIncreased);
-
-          backtestResults.push({
-            route,
-            predictionDate: predictionPoint.date,
-            predictedPrice: prediction.predictedPrice,
-            actualPrice: actualFuturePrice.price,
-            error,
-            percentageError,
-            recommendation: prediction.recommendation,
-            actualOutcome: recommendationCorrect ? 'CORRECT' : 'INCORRECT',
-            daysAhead: predictionPoint.bookingDaysAhead
-          });
-        }
-      }
-    }
-
-    this.saveBacktestResults(backtestResults);
+    await this.saveBacktestResults(backtestResults);
+    await Backtester.saveCalibration(run);
     return backtestResults;
   }
 
   /**
    * Calculate statistical validation metrics
    */
-  static calculateValidationMetrics(backtestResults: BacktestResult[]): ValidationResult {
+  static async calculateValidationMetrics(backtestResults: BacktestResult[]): Promise<ValidationResult> {
     if (backtestResults.length === 0) {
       throw new Error('No backtest results available for validation');
     }
@@ -235,18 +199,19 @@ export class HistoricalDataManager {
       validationPeriod: {
         start: backtestResults[0]?.predictionDate || '',
         end: backtestResults[backtestResults.length - 1]?.predictionDate || ''
-      }
+      },
+      validatedAt: new Date().toISOString()
     };
 
-    this.saveValidationResults(validationResult);
+    await this.saveValidationResults(validationResult);
     return validationResult;
   }
 
   /**
    * Get true statistical confidence based on validation results
    */
-  static getTrueStatisticalConfidence(): number {
-    const validation = this.loadValidationResults();
+  static async getTrueStatisticalConfidence(): Promise<number> {
+    const validation = await this.loadValidationResults();
     if (!validation) return 50; // Default if no validation data
 
     // Use the lower bound of confidence interval as conservative estimate
@@ -285,98 +250,75 @@ export class HistoricalDataManager {
                              bookingWindow > 90 ? 0.85 : // Early bird
                              1.0; // Normal
 
-    // Add some randomness
-    const randomMultiplier = 0.8 + Math.random() * 0.4; // ±20% variation
+    // Add some variation (seeded, so regenerating the same day gives the same price)
+    const rng = rngFor(undefined, 'synthetic', route, currentDate.toISOString().split('T')[0], bookingWindow);
+    const randomMultiplier = 0.8 + rng() * 0.4; // ±20% variation
 
     return Math.round(basePrice * seasonalMultiplier * bookingMultiplier * randomMultiplier);
   }
 
-  private static async makePredictionForBacktest(
-    currentPoint: RealHistoricalPrice,
-    historicalData: RealHistoricalPrice[]
-  ) {
-    // Simplified prediction logic for backtesting
-    const recentPrices = historicalData
-      .filter(d => d.route === currentPoint.route)
-      .slice(-30) // Last 30 data points
-      .map(d => d.price);
-
-    if (recentPrices.length === 0) {
-      return {
-        predictedPrice: currentPoint.price,
-        recommendation: 'WAIT' as const
-      };
-    }
-
-    const avgPrice = recentPrices.reduce((sum, price) => sum + price, 0) / recentPrices.length;
-    const trend = recentPrices.length > 1 ? 
-      (recentPrices[recentPrices.length - 1] - recentPrices[0]) / recentPrices.length : 0;
-
-    const predictedPrice = currentPoint.price + trend * 7; // 7-day prediction
-    const recommendation: 'BUY_NOW' | 'WAIT' = currentPoint.price < avgPrice * 0.9 ? 'BUY_NOW' : 'WAIT';
-
-    return { predictedPrice, recommendation };
-  }
-
-  private static findClosestFuturePrice(
-    futurePoints: RealHistoricalPrice[],
-    targetDepartureDate: string,
-    targetBookingWindow: number
-  ): RealHistoricalPrice | null {
-    return futurePoints.find(p => 
-      p.departureDate === targetDepartureDate && 
-      Math.abs(p.bookingDaysAhead - targetBookingWindow) <= 2
-    ) || futurePoints[0] || null;
-  }
-
-  private static groupDataByRoute(data: RealHistoricalPrice[]): { [route: string]: RealHistoricalPrice[] } {
-    return data.reduce((groups, item) => {
-      if (!groups[item.route]) groups[item.route] = [];
-      groups[item.route].push(item);
-      return groups;
-    }, {} as { [route: string]: RealHistoricalPrice[] });
-  }
-
   // Storage methods
-  private static saveHistoricalData(data: RealHistoricalPrice[]): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
+  private static async saveHistoricalData(data: RealHistoricalPrice[]): Promise<void> {
+    try {
+      const added = await PriceObservationStore.add(data.map(price => PriceObservationStore.fromRealHistoricalPrice(price)));
+      console.log(`Stored ${added} new price observations`);
+    } catch (error) {
+      console.error('Error saving historical price observations:', error);
     }
   }
 
-  private static loadHistoricalData(): RealHistoricalPrice[] | null {
-    if (typeof window !== 'undefined') {
-      const data = localStorage.getItem(this.STORAGE_KEY);
-      return data ? JSON.parse(data) : null;
-    }
-    return null;
+  /**
+   * Stored observations for the given routes (all routes when none are given)
+   */
+  static async loadHistoricalData(routes?: string[]): Promise<RealHistoricalPrice[]> {
+    const observations = routes
+      ? (await Promise.all(routes.map(route => PriceObservationStore.query({ route })))).flat()
+      : await PriceObservationStore.query();
+
+    return observations.map(o => ({
+      route: o.route,
+      price: o.price,
+      currency: o.currency,
+      date: o.observedAt,
+      departureDate: o.departureDate,
+      bookingDaysAhead: o.bookingDaysAhead,
+      airline: o.airline,
+      source: o.source,
+      timestamp: o.observedAt
+    }));
   }
 
-  private static saveValidationResults(results: ValidationResult): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(this.VALIDATION_KEY, JSON.stringify(results));
+  private static async saveValidationResults(results: ValidationResult): Promise<void> {
+    try {
+      await Storage.set(this.VALIDATION_KEY, results);
+    } catch (error) {
+      console.error('Error saving validation results:', error);
     }
   }
 
-  private static loadValidationResults(): ValidationResult | null {
-    if (typeof window !== 'undefined') {
-      const data = localStorage.getItem(this.VALIDATION_KEY);
-      return data ? JSON.parse(data) : null;
+  static async loadValidationResults(): Promise<ValidationResult | null> {
+    try {
+      return await Storage.get<ValidationResult>(this.VALIDATION_KEY);
+    } catch (error) {
+      console.error('Error loading validation results:', error);
+      return null;
     }
-    return null;
   }
 
-  private static saveBacktestResults(results: BacktestResult[]): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(this.BACKTEST_KEY, JSON.stringify(results));
+  private static async saveBacktestResults(results: BacktestResult[]): Promise<void> {
+    try {
+      await Storage.set(this.BACKTEST_KEY, results);
+    } catch (error) {
+      console.error('Error saving backtest results:', error);
     }
   }
 
-  static loadBacktestResults(): BacktestResult[] | null {
-    if (typeof window !== 'undefined') {
-      const data = localStorage.getItem(this.BACKTEST_KEY);
-      return data ? JSON.parse(data) : null;
+  static async loadBacktestResults(): Promise<BacktestResult[] | null> {
+    try {
+      return await Storage.get<BacktestResult[]>(this.BACKTEST_KEY);
+    } catch (error) {
+      console.error('Error loading backtest results:', error);
+      return null;
     }
-    return null;
   }
 }
@@ -0,0 +1,183 @@
+// Job Queue - deferred work (e.g. re-pricing a route days later) persisted in Storage,
+// so scheduled jobs survive restarts. `npm run run-jobs` executes the ones that are due.
+import { Storage } from './storage';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface Job<P = unknown> {
+  id: string;
+  type: string;
+  payload: P;
+  status: JobStatus;
+  runAt: string; // Not run before this time
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  updatedAt: string;
+  lockedBy?: string; // Runner holding the job while it's running
+  lockedUntil?: string; // After this, a running job is treated as abandoned and picked up again
+  lastError?: string;
+  result?: unknown;
+}
+
+export type JobHandler<P = unknown> = (payload: P, job: Job<P>) => Promise<unknown>;
+
+export interface EnqueueOptions {
+  id?: string; // Enqueueing an id that already exists returns the existing job
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface JobRunSummary {
+  startedAt: string;
+  finishedAt: string;
+  completed: number;
+  retried: number;
+  failed: number;
+  jobs: Array<{ id: string; type: string; status: JobStatus; error?: string }>;
+}
+
+export class JobQueue {
+  private static readonly KEY_PREFIX = 'jobs/';
+  private static readonly DEFAULT_MAX_ATTEMPTS = 3;
+  private static readonly RETRY_DELAY_MS = 60 * 60 * 1000; // Multiplied by the attempt number
+  private static readonly LOCK_MS = 10 * 60 * 1000;
+  private static readonly RETENTION_DAYS = 30; // Finished jobs are removed after this
+
+  private static handlers: Map<string, JobHandler> = new Map();
+
+  /**
+   * Register the handler for a job type (replaces any earlier handler)
+   */
+  static registerHandler<P>(type: string, handler: JobHandler<P>): void {
+    this.handlers.set(type, handler as JobHandler);
+  }
+
+  static async enqueue<P>(type: string, payload: P, options: EnqueueOptions = {}): Promise<Job<P>> {
+    const now = new Date().toISOString();
+    const id = options.id || `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const job: Job<P> = {
+      id,
+      type,
+      payload,
+      status: 'pending',
+      runAt: (options.runAt || new Date()).toISOString(),
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? this.DEFAULT_MAX_ATTEMPTS,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const saved = await Storage.update<Job<P>>(this.key(id), existing => existing || job);
+    if (saved === job) console.log(`Scheduled ${type} job ${id} for ${job.runAt}`);
+    return saved;
+  }
+
+  static async get<P = unknown>(id: string): Promise<Job<P> | null> {
+    return Storage.get<Job<P>>(this.key(id));
+  }
+
+  /**
+   * Stored jobs, oldest runAt first
+   */
+  static async list(filter: { status?: JobStatus; type?: string } = {}): Promise<Job[]> {
+    const jobs: Job[] = [];
+    for (const key of await Storage.keys(this.KEY_PREFIX)) {
+      const job = await Storage.get<Job>(key);
+      if (!job) continue;
+      if (filter.status && job.status !== filter.status) continue;
+      if (filter.type && job.type !== filter.type) continue;
+      jobs.push(job);
+    }
+    return jobs.sort((a, b) => a.runAt.localeCompare(b.runAt));
+  }
+
+  /**
+   * Run every due job with a registered handler. Failures are retried with a growing
+   * delay until maxAttempts, then the job is marked failed.
+   */
+  static async runDue(options: { now?: Date; limit?: number } = {}): Promise<JobRunSummary> {
+    const now = options.now || new Date();
+    const startedAt = new Date().toISOString();
+    const runnerId = `${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+    const summary: JobRunSummary = { startedAt, finishedAt: startedAt, completed: 0, retried: 0, failed: 0, jobs: [] };
+
+    const due = (await this.list()).filter(job => this.isClaimable(job, now));
+    for (const candidate of due.slice(0, options.limit ?? due.length)) {
+      const handler = this.handlers.get(candidate.type);
+      if (!handler) {
+        console.warn(`No handler registered for ${candidate.type} job ${candidate.id}, leaving it queued`);
+        continue;
+      }
+
+      const job = await this.claim(candidate.id, runnerId, now);
+      if (!job) continue; // Another runner got there first
+
+      try {
+        const result = await handler(job.payload, job);
+        await this.finish(job, { status: 'completed', result });
+        summary.completed++;
+        summary.jobs.push({ id: job.id, type: job.type, status: 'completed' });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retry = job.attempts < job.maxAttempts;
+        await this.finish(job, retry
+          ? { status: 'pending', lastError: message, runAt: new Date(now.getTime() + this.RETRY_DELAY_MS * job.attempts).toISOString() }
+          : { status: 'failed', lastError: message });
+        if (retry) summary.retried++;
+        else summary.failed++;
+        summary.jobs.push({ id: job.id, type: job.type, status: retry ? 'pending' : 'failed', error: message });
+        console.error(`${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, message);
+      }
+    }
+
+    await this.prune(now);
+
+    summary.finishedAt = new Date().toISOString();
+    console.log(`Job run complete: ${summary.completed} completed, ${summary.retried} to retry, ${summary.failed} failed`);
+    return summary;
+  }
+
+  private static isClaimable(job: Job, now: Date): boolean {
+    if (job.status === 'pending') return new Date(job.runAt).getTime() <= now.getTime();
+    return job.status === 'running' && !!job.lockedUntil && new Date(job.lockedUntil).getTime() <= now.getTime();
+  }
+
+  private static async claim(id: string, runnerId: string, now: Date): Promise<Job | null> {
+    const job = await Storage.update<Job | null>(this.key(id), current => {
+      if (!current || !this.isClaimable(current, now)) return current;
+      return {
+        ...current,
+        status: 'running',
+        attempts: current.attempts + 1,
+        lockedBy: runnerId,
+        lockedUntil: new Date(now.getTime() + this.LOCK_MS).toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+    });
+    return job?.lockedBy === runnerId && job.status === 'running' ? job : null;
+  }
+
+  private static async finish(job: Job, changes: Partial<Job>): Promise<void> {
+    await Storage.update<Job>(this.key(job.id), current => ({
+      ...(current || job),
+      ...changes,
+      lockedBy: undefined,
+      lockedUntil: undefined,
+      updatedAt: new Date().toISOString()
+    }));
+  }
+
+  private static async prune(now: Date): Promise<void> {
+    const cutoff = now.getTime() - this.RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    for (const job of await this.list()) {
+      if ((job.status === 'completed' || job.status === 'failed') && new Date(job.updatedAt).getTime() < cutoff) {
+        await Storage.delete(this.key(job.id));
+      }
+    }
+  }
+
+  private static key(id: string): string {
+    return `${this.KEY_PREFIX}${id}`;
+  }
+}
@@ -0,0 +1,27 @@
+// Mock provider - last link of the fallback chain, used when no live provider answers
+import { AviasalesService, normalizeAviasalesOffer } from './aviasales';
+import { FlightPriceProvider, NormalizedFlightOffer, NormalizedSearchRequest, sortByPrice } from './flight-provider';
+
+export const mockProvider: FlightPriceProvider = {
+  id: 'mock',
+  name: 'Estimated prices',
+  isConfigured: () => true,
+  async search(request: NormalizedSearchRequest): Promise<NormalizedFlightOffer[]> {
+    // Route-based price ladder, so the same search always gets the same estimate
+    const offers = AviasalesService.generateMockAviasalesData({
+      origin: request.origin,
+      destination: request.destination,
+      departure_date: request.departureDate,
+      return_date: request.returnDate,
+      currency: request.currency
+    });
+
+    const normalized = offers.map(offer => ({
+      ...normalizeAviasalesOffer(offer),
+      id: `mock-${offer.id}`,
+      provider: 'mock'
+    }));
+    const filtered = request.directOnly ? normalized.filter(o => o.stops === 0) : normalized;
+    return sortByPrice(filtered);
+  }
+};
@@ -0,0 +1,253 @@
+// Notifiers - delivery channels for price alerts. Email goes through an HTTP email API,
+// webhooks POST the alert as JSON, and the log notifier (console plus an optional
+// JSON-lines file) stands in for both during development.
+import crypto from 'crypto';
+import dns from 'dns';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import path from 'path';
+
+export interface PriceAlert {
+  watchId: string;
+  reason: 'PRICE_DROP' | 'BUY_NOW';
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string;
+  price: number;
+  currency: string;
+  previousPrice?: number;
+  targetPrice?: number;
+  recommendation: 'BUY_NOW' | 'WAIT';
+  predictionId?: string;
+  provider: string;
+  triggeredAt: string;
+}
+
+export interface Notifier {
+  readonly id: string;
+  readonly name: string;
+  /**
+   * Whether the channel has the settings it needs to deliver
+   */
+  isConfigured(): boolean;
+  /**
+   * Check a watch's delivery target (an email address, a URL); returns an error message or null
+   */
+  validateTarget(target: string | undefined): string | null;
+  /**
+   * For targets anyone could type in (an email address): send the link that confirms the
+   * target wants alerts. Channels with this method get no alerts until the link is opened.
+   */
+  sendConfirmation?(target: string, confirmUrl: string, summary: string): Promise<void>;
+  send(target: string | undefined, alert: PriceAlert): Promise<void>;
+}
+
+/**
+ * One-line summary used as the email subject and log line
+ */
+export function describeAlert(alert: PriceAlert): string {
+  const price = `${alert.currency} ${Math.round(alert.price)}`;
+  return alert.reason === 'PRICE_DROP'
+    ? `${alert.origin} → ${alert.destination} on ${alert.departureDate} dropped to ${price}${alert.targetPrice ? ` (target ${alert.currency} ${alert.targetPrice})` : ''}`
+    : `${alert.origin} → ${alert.destination} on ${alert.departureDate}: book now at ${price}`;
+}
+
+// Sends through an HTTP email API that takes { from, to, subject, text } with a bearer key
+// (Resend's format; most transactional email APIs have an equivalent endpoint)
+async function sendEmail(to: string | undefined, subject: string, text: string): Promise<void> {
+  const response = await fetch(process.env.EMAIL_API_URL || 'https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${process.env.EMAIL_API_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ from: process.env.EMAIL_FROM, to, subject, text })
+  });
+  if (!response.ok) {
+    throw new Error(`Email API responded ${response.status}: ${await response.text()}`);
+  }
+}
+
+// Addresses are confirmed before any alert goes to them, so a watch can't be used to mail
+// someone who didn't ask for it
+export const emailNotifier: Notifier = {
+  id: 'email',
+  name: 'Email',
+  isConfigured: () => !!process.env.EMAIL_API_KEY && !!process.env.EMAIL_FROM,
+  validateTarget: target =>
+    target && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(target) && target.length <= 254 ? null : 'a valid email address is required',
+  async sendConfirmation(target, confirmUrl, summary) {
+    await sendEmail(target, `Confirm your price alert: ${summary}`, [
+      `Someone asked for price alerts on ${summary} to be sent to this address.`,
+      `Open this link to start them: ${confirmUrl}`,
+      "If it wasn't you, ignore this email and nothing will be sent."
+    ].join('\n'));
+  },
+  async send(target, alert) {
+    await sendEmail(target, `Price alert: ${describeAlert(alert)}`, [
+      describeAlert(alert),
+      alert.previousPrice ? `Last checked price: ${alert.currency} ${Math.round(alert.previousPrice)}` : '',
+      `Our recommendation: ${alert.recommendation === 'BUY_NOW' ? 'book now' : 'wait and monitor'}`,
+      `Checked ${alert.triggeredAt} (prices from ${alert.provider})`
+    ].filter(Boolean).join('\n'));
+  }
+};
+
+// Addresses a webhook must not reach: private, loopback, link-local (cloud metadata),
+// shared, multicast and reserved ranges
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// Whether an IP address is on the public internet
+function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it maps to
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  const ip = mapped ? mapped[1] : address;
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Hosts named in WEBHOOK_ALLOWED_HOSTS skip the public-address check (e.g. localhost while developing)
+function isAllowedHost(hostname: string): boolean {
+  return (process.env.WEBHOOK_ALLOWED_HOSTS || '').split(',')
+    .map(host => host.trim().toLowerCase())
+    .includes(hostname.toLowerCase());
+}
+
+// Resolves webhook hosts for the connection itself: every address must be public, and the
+// socket connects to the address that was checked, so a host can't pass the check and then
+// re-resolve (DNS rebinding) to an internal service
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (addresses.length === 0 || blocked) {
+      const message = `Webhook host ${hostname} resolves to a non-public address${blocked ? ` (${blocked.address})` : ''}`;
+      return callback(new Error(message) as NodeJS.ErrnoException, '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// POST a JSON body and resolve with the status code. Uses http(s).request rather than fetch
+// so the address lookup can be pinned; redirects are never followed.
+function postJson(url: URL, headers: { [key: string]: string }, body: string, timeoutMs: number): Promise<number> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const allowed = isAllowedHost(hostname);
+  // IP literals skip the lookup, so they're checked here
+  if (!allowed && net.isIP(hostname) && !isPublicAddress(hostname)) {
+    return Promise.reject(new Error(`Webhook host ${hostname} is a non-public address`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: allowed ? undefined : publicOnlyLookup,
+      timeout: timeoutMs
+    }, response => {
+      response.resume(); // The body isn't needed
+      resolve(response.statusCode || 0);
+    });
+    request.on('timeout', () => request.destroy(new Error(`Webhook did not respond within ${timeoutMs}ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+// POSTs the alert as JSON to a public host. With WEBHOOK_SIGNING_SECRET set, the body's
+// HMAC-SHA256 is sent in X-Signature so receivers can check it came from us. Redirects
+// aren't followed, since they could lead anywhere.
+export const webhookNotifier: Notifier = {
+  id: 'webhook',
+  name: 'Webhook',
+  isConfigured: () => true,
+  validateTarget: target => {
+    if (!target) return 'a webhook URL is required';
+    try {
+      const url = new URL(target);
+      if (url.protocol === 'https:') return null;
+      // Plain http only to local receivers while developing (allowed via WEBHOOK_ALLOWED_HOSTS)
+      if (url.protocol === 'http:' && process.env.NODE_ENV !== 'production') return null;
+      return 'webhook URL must use https';
+    } catch {
+      return 'webhook URL is not a valid URL';
+    }
+  },
+  async send(target, alert) {
+    const body = JSON.stringify({ type: 'price_alert', alert });
+    const headers: { [key: string]: string } = { 'Content-Type': 'application/json' };
+    if (process.env.WEBHOOK_SIGNING_SECRET) {
+      headers['X-Signature'] = crypto.createHmac('sha256', process.env.WEBHOOK_SIGNING_SECRET).update(body).digest('hex');
+    }
+
+    const status = await postJson(new URL(target!), headers, body, 10000);
+    if (status >= 300 && status < 400) {
+      throw new Error(`Webhook responded with a redirect (${status}), which isn't followed`);
+    }
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded ${status}`);
+    }
+  }
+};
+
+// Development channel: logs the alert and appends it to NOTIFICATIONS_FILE when set. Nobody
+// reads server logs for alerts in production, so it isn't offered there.
+export const logNotifier: Notifier = {
+  id: 'log',
+  name: 'Log',
+  isConfigured: () => process.env.NODE_ENV !== 'production',
+  validateTarget: () => null,
+  async send(target, alert) {
+    console.log(`[price alert${target ? ` for ${target}` : ''}] ${describeAlert(alert)}`);
+    const file = process.env.NOTIFICATIONS_FILE;
+    if (file) {
+      await fs.promises.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+      await fs.promises.appendFile(file, JSON.stringify({ target, ...alert }) + '\n');
+    }
+  }
+};
+
+export class NotifierRegistry {
+  private static notifiers: Map<string, Notifier> = new Map();
+
+  /**
+   * Register a notifier (replaces any notifier with the same id)
+   */
+  static register(notifier: Notifier): void {
+    this.notifiers.set(notifier.id, notifier);
+  }
+
+  static getNotifier(id: string): Notifier | undefined {
+    return this.notifiers.get(id);
+  }
+
+  /**
+   * Channels that can deliver right now
+   */
+  static getAvailable(): Notifier[] {
+    return Array.from(this.notifiers.values()).filter(notifier => notifier.isConfigured());
+  }
+
+  static async send(channel: string, target: string | undefined, alert: PriceAlert): Promise<void> {
+    const notifier = this.notifiers.get(channel);
+    if (!notifier) throw new Error(`Unknown notification channel: ${channel}`);
+    if (!notifier.isConfigured()) throw new Error(`Notification channel ${channel} is not configured`);
+    await notifier.send(target, alert);
+  }
+}
+
+NotifierRegistry.register(emailNotifier);
+NotifierRegistry.register(webhookNotifier);
+NotifierRegistry.register(logNotifier);
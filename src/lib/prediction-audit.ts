@@ -0,0 +1,96 @@
+// Prediction Audit Log - every prediction the engine generates, stored under its predictionId
+// with the inputs, strategy and version, provider prices and output, so what a user was
+// told can be looked up and replayed later.
+import { Storage } from './storage';
+import type { PricePrediction, PredictionStrategyInfo } from './prediction';
+
+// Prices the prediction was based on, as the caller fetched them
+export interface AuditPricing {
+  provider: string; // Provider that served the price, or 'typical' for the route-profile fallback
+  price: number; // The current price passed to the strategy
+  minPrice?: number;
+  maxPrice?: number;
+  offerPrices?: number[]; // Cheapest offers returned, cheapest first
+  sources?: string[];
+}
+
+// Passed by callers to say where a prediction came from
+export interface PredictionAuditContext {
+  source: string; // Endpoint or job, e.g. 'validated-search'
+  visitorId?: string | null;
+  pricing?: AuditPricing;
+}
+
+export interface PredictionAuditRecord {
+  predictionId: string;
+  createdAt: string;
+  asOf: string; // The prediction clock's time; replays run at this time
+  source: string;
+  visitorId?: string | null;
+  input: {
+    currentPrice: number;
+    origin: string;
+    destination: string;
+    departureDate: string;
+    currency?: string;
+    bookingDaysAhead?: number;
+    seed?: number;
+    pointInTime?: boolean;
+  };
+  strategy: PredictionStrategyInfo;
+  pricing?: AuditPricing;
+  output: PricePrediction;
+  // What the user actually saw, when a caller changed the strategy's output (e.g. an A/B variant)
+  shown?: {
+    recommendation: 'BUY_NOW' | 'WAIT';
+    abTest?: {
+      experimentId: string;
+      variantId: string;
+      enrolled: boolean;
+    };
+  };
+}
+
+export class PredictionAuditLog {
+  private static readonly KEY_PREFIX = 'predictions/';
+
+  static async record(record: PredictionAuditRecord): Promise<void> {
+    await Storage.set(this.key(record.predictionId), record);
+  }
+
+  static async get(predictionId: string): Promise<PredictionAuditRecord | null> {
+    return Storage.get<PredictionAuditRecord>(this.key(predictionId));
+  }
+
+  /**
+   * Record what the user was shown, which can differ from the strategy's output (e.g. an A/B variant)
+   */
+  static async recordShown(predictionId: string, shown: NonNullable<PredictionAuditRecord['shown']>): Promise<void> {
+    const record = await this.get(predictionId);
+    if (!record) {
+      console.warn(`No audit record for prediction ${predictionId}`);
+      return;
+    }
+    await Storage.update<PredictionAuditRecord>(this.key(predictionId), current => ({ ...(current || record), shown }));
+  }
+
+  /**
+   * Drop a visitor's id from their audited predictions. The records stay, since they
+   * describe what the engine said rather than who asked.
+   */
+  static async forgetVisitor(visitorId: string): Promise<number> {
+    let forgotten = 0;
+    for (const key of await Storage.keys(this.KEY_PREFIX)) {
+      const record = await Storage.get<PredictionAuditRecord>(key);
+      if (record?.visitorId !== visitorId) continue;
+
+      await Storage.update<PredictionAuditRecord>(key, current => ({ ...(current || record), visitorId: null }));
+      forgotten++;
+    }
+    return forgotten;
+  }
+
+  private static key(predictionId: string): string {
+    return `${this.KEY_PREFIX}${predictionId}`;
+  }
+}
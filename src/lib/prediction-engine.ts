@@ -0,0 +1,264 @@
+// Prediction Engine - the one entry point for price predictions. Each strategy has an
+// id and a version, and every prediction it returns is stamped with both.
+import crypto from 'crypto';
+import { BestTimeToBook, PricePrediction, PricePredictionService, PredictionOptions, PredictionStrategyInfo } from './prediction';
+import { EnhancedPredictionService } from './enhanced-prediction';
+import { fixedClock, systemClock } from './determinism';
+import { PriceForecastService } from './price-forecast';
+import { CalibrationService } from './calibration';
+import { PredictionAuditContext, PredictionAuditLog, PredictionAuditRecord } from './prediction-audit';
+
+export interface PredictionInput {
+  currentPrice: number;
+  origin: string;
+  destination: string;
+  departureDate: string;
+  currency?: string;
+  bookingDaysAhead?: number; // Derived from departureDate when missing
+  options?: Omit<PredictionOptions, 'recommendationRule'>; // The rule is part of the strategy
+  audit?: PredictionAuditContext | false; // Where the prediction came from; false skips the audit log (backtest replays)
+}
+
+export interface PredictionStrategy extends PredictionStrategyInfo {
+  description: string;
+  predict(input: PredictionInput): Promise<PricePrediction>;
+}
+
+export type StampedPrediction<T extends PricePrediction = PricePrediction> = T & {
+  strategy: PredictionStrategyInfo;
+  predictionId: string;
+};
+
+export interface PredictionReplay {
+  original: PredictionAuditRecord;
+  replayed: PricePrediction;
+  sameStrategyVersion: boolean;
+  matches: boolean; // Same recommendation, probabilities and confidence
+  differences: string[];
+}
+
+// Bump a strategy's version whenever its output can change for the same inputs
+export const heuristicStrategy: PredictionStrategy = {
+  id: 'heuristic',
+  version: '1.2.0', // 1.1.0: recent-low signal uses observed price history; 1.2.0: calibrated confidence
+  description: 'Seasonal route profile with price-position, booking-window and recent-low signals',
+  async predict(input) {
+    return PricePredictionService.generatePrediction(
+      input.currentPrice,
+      input.origin,
+      input.destination,
+      input.departureDate,
+      input.currency,
+      input.options
+    );
+  }
+};
+
+export const probabilityThresholdStrategy: PredictionStrategy = {
+  id: 'probability-threshold',
+  version: '1.1.0', // 1.1.0: calibrated confidence
+  description: 'Same probabilities as the heuristic, but only recommends buying at >= 80% chance of a rise',
+  async predict(input) {
+    return PricePredictionService.generatePrediction(
+      input.currentPrice,
+      input.origin,
+      input.destination,
+      input.departureDate,
+      input.currency,
+      { ...input.options, recommendationRule: 'probability-threshold' }
+    );
+  }
+};
+
+export const enhancedStrategy: PredictionStrategy = {
+  id: 'enhanced',
+  version: '1.1.0', // 1.1.0: calibrated confidence
+  description: 'Route, booking-window and day-of-week trends from collected historical data',
+  async predict(input) {
+    const now = (input.options?.clock || systemClock).now();
+    const bookingDaysAhead = input.bookingDaysAhead ??
+      Math.ceil((new Date(input.departureDate).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+    // The collected trend data is a single snapshot, so pointInTime can't apply to it
+    return EnhancedPredictionService.generateEnhancedPrediction(
+      input.currentPrice,
+      input.origin,
+      input.destination,
+      input.departureDate,
+      bookingDaysAhead,
+      input.currency,
+      input.options
+    );
+  }
+};
+
+export class PredictionEngine {
+  private static strategies: Map<string, PredictionStrategy> = new Map();
+  private static readonly FALLBACK_STRATEGY = 'heuristic';
+
+  /**
+   * Register a strategy (replaces any strategy with the same id)
+   */
+  static register(strategy: PredictionStrategy): void {
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  static hasStrategy(id: string): boolean {
+    return this.strategies.has(id);
+  }
+
+  /**
+   * Id of the strategy used when a caller doesn't pick one (PREDICTION_STRATEGY, default heuristic)
+   */
+  static getDefaultStrategyId(): string {
+    const configured = process.env.PREDICTION_STRATEGY;
+    if (configured && this.strategies.has(configured)) return configured;
+    if (configured) console.warn(`Unknown PREDICTION_STRATEGY "${configured}", using ${this.FALLBACK_STRATEGY}`);
+    return this.FALLBACK_STRATEGY;
+  }
+
+  /**
+   * Id and version of a strategy (the default when no id is given)
+   */
+  static getStrategyInfo(id?: string): PredictionStrategyInfo {
+    const strategy = this.getStrategy(id);
+    return { id: strategy.id, version: strategy.version };
+  }
+
+  /**
+   * All registered strategies, for API discovery
+   */
+  static listStrategies(): Array<PredictionStrategyInfo & { description: string; isDefault: boolean }> {
+    const defaultId = this.getDefaultStrategyId();
+    return Array.from(this.strategies.values()).map(strategy => ({
+      id: strategy.id,
+      version: strategy.version,
+      description: strategy.description,
+      isDefault: strategy.id === defaultId
+    }));
+  }
+
+  /**
+   * Run a strategy (the default when no id is given), set its confidence from the
+   * strategy's backtested calibration, add the best time to book, stamp the result
+   * with the strategy's id and version and a predictionId, and record it in the audit log
+   */
+  static async predict<T extends PricePrediction = PricePrediction>(
+    input: PredictionInput,
+    strategyId?: string
+  ): Promise<StampedPrediction<T>> {
+    const strategy = this.getStrategy(strategyId);
+    const info = { id: strategy.id, version: strategy.version };
+    const prediction = await strategy.predict(input) as T;
+
+    const now = (input.options?.clock || systemClock).now();
+    const bookingDaysAhead = input.bookingDaysAhead ??
+      Math.ceil((new Date(input.departureDate).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+    const { confidence, calibration } = await CalibrationService.getConfidence(
+      info,
+      `${input.origin}-${input.destination}`,
+      bookingDaysAhead
+    );
+
+    const stamped: StampedPrediction<T> = {
+      ...prediction,
+      confidence,
+      calibration,
+      bestTimeToBook: await this.getBestTimeToBook(input),
+      strategy: info,
+      predictionId: crypto.randomUUID()
+    };
+
+    if (input.audit !== false) {
+      await this.recordAudit(input, stamped, now);
+    }
+    return stamped;
+  }
+
+  /**
+   * Run an audited prediction again with the same inputs, strategy and clock time.
+   * Data stored since then (observations, calibration) can still change the result,
+   * so the differences are listed rather than assumed away.
+   */
+  static async replay(predictionId: string): Promise<PredictionReplay | null> {
+    const original = await PredictionAuditLog.get(predictionId);
+    if (!original) return null;
+
+    const { input } = original;
+    const replayed = await this.predict({
+      currentPrice: input.currentPrice,
+      origin: input.origin,
+      destination: input.destination,
+      departureDate: input.departureDate,
+      currency: input.currency,
+      bookingDaysAhead: input.bookingDaysAhead,
+      options: { clock: fixedClock(original.asOf), seed: input.seed, pointInTime: input.pointInTime },
+      audit: false
+    }, this.hasStrategy(original.strategy.id) ? original.strategy.id : undefined);
+
+    const differences: string[] = [];
+    const fields = ['recommendation', 'probabilityIncrease', 'probabilityDecrease', 'confidence'] as const;
+    for (const field of fields) {
+      if (original.output[field] !== replayed[field]) {
+        differences.push(`${field}: ${original.output[field]} -> ${replayed[field]}`);
+      }
+    }
+    const sameStrategyVersion = replayed.strategy.id === original.strategy.id && replayed.strategy.version === original.strategy.version;
+    if (!sameStrategyVersion) {
+      differences.push(`strategy: ${original.strategy.id}@${original.strategy.version} -> ${replayed.strategy.id}@${replayed.strategy.version}`);
+    }
+
+    return { original, replayed, sameStrategyVersion, matches: differences.length === 0, differences };
+  }
+
+  // An audit failure shouldn't cost the user their prediction, so it's only logged
+  private static async recordAudit(input: PredictionInput, prediction: StampedPrediction, now: Date): Promise<void> {
+    const context = input.audit || { source: 'unknown' };
+    try {
+      await PredictionAuditLog.record({
+        predictionId: prediction.predictionId,
+        createdAt: new Date().toISOString(),
+        asOf: now.toISOString(),
+        source: context.source,
+        visitorId: context.visitorId,
+        input: {
+          currentPrice: input.currentPrice,
+          origin: input.origin,
+          destination: input.destination,
+          departureDate: input.departureDate,
+          currency: input.currency,
+          bookingDaysAhead: input.bookingDaysAhead,
+          seed: input.options?.seed,
+          pointInTime: input.options?.pointInTime
+        },
+        strategy: prediction.strategy,
+        pricing: context.pricing,
+        output: prediction
+      });
+    } catch (error) {
+      console.error(`Failed to record audit for prediction ${prediction.predictionId}:`, error);
+    }
+  }
+
+  // A prediction is still useful without it, so failures are only logged
+  private static async getBestTimeToBook(input: PredictionInput): Promise<BestTimeToBook | undefined> {
+    try {
+      return await PriceForecastService.getBestTimeToBook(input);
+    } catch (error) {
+      console.error('Best time to book estimate failed:', error);
+      return undefined;
+    }
+  }
+
+  private static getStrategy(id?: string): PredictionStrategy {
+    const strategy = this.strategies.get(id || this.getDefaultStrategyId());
+    if (!strategy) {
+      throw new Error(`Unknown prediction strategy: ${id}`);
+    }
+    return strategy;
+  }
+}
+
+PredictionEngine.register(heuristicStrategy);
+PredictionEngine.register(probabilityThresholdStrategy);
+PredictionEngine.register(enhancedStrategy);
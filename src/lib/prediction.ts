@@ -1,4 +1,15 @@
 import { FlightOffer } from './amadeus';
+import { RouteProfileService } from './route-profiles';
+import { DeterminismOptions, Rng, rngFor, systemClock } from './determinism';
+import { PriceObservationStore } from './price-observations';
+import { CalibrationService, PredictionCalibration } from './calibration';
+import { PredictionEngine } from './prediction-engine';
+import { PredictionAuditLog } from './prediction-audit';
+
+export interface PredictionStrategyInfo {
+  id: string;
+  version: string;
+}
 
 export interface PriceHistory {
   date: string;
@@ -12,7 +23,7 @@ export interface PricePrediction {
   timestamp: string;
   probabilityIncrease: number;
   probabilityDecrease: number;
-  confidence: number;
+  confidence: number; // 0-100, the strategy's backtested hit rate (see CalibrationService)
   recommendation: 'BUY_NOW' | 'WAIT';
   historicalContext: string;
   priceRange: {
@@ -20,6 +31,41 @@ export interface PricePrediction {
     max: number;
     average: number;
   };
+  strategy?: PredictionStrategyInfo; // Set by PredictionEngine: which strategy (and version) produced this
+  calibration?: PredictionCalibration; // Set by PredictionEngine: the backtest data behind confidence
+  recentHistory?: RecentPriceHistory;
+  bestTimeToBook?: BestTimeToBook; // Set by PredictionEngine
+  predictionId?: string; // Set by the engine; the audit log and booking-flow events refer to it
+}
+
+// How today's price compares with prices observed for comparable trips over the last few weeks
+export interface RecentPriceHistory {
+  status: 'ok' | 'insufficient';
+  weeks: number;
+  sampleSize: number;
+  minSampleSize: number;
+  lowestPrice?: number;
+  highestPrice?: number;
+  rank?: number; // Position of today's price among the observed prices (1 = cheapest)
+  percentile?: number; // Share of observed prices below today's, 0-100 (0 = cheapest seen)
+  isLowest: boolean; // Cheaper than every observed price (false when history is insufficient)
+  reason?: string;
+}
+
+// When the expected fare for this departure is lowest, and what waiting for it risks
+export interface BestTimeToBook {
+  bookNow: boolean; // True when no later day is expected to be meaningfully cheaper
+  bookOn: string; // Purchase date with the lowest expected fare (YYYY-MM-DD)
+  bookingDaysAhead: number; // Days before departure on that date
+  expectedPrice: number;
+  expectedSavings: number; // Versus buying today at the current price
+  riskOfWaiting: number; // 0-1 chance the fare on bookOn is above today's price
+  bestDepartureWeekday?: { // Cheapest weekday to fly, from the route's day-of-week trends
+    weekday: string;
+    expectedPrice: number;
+    expectedSavings: number; // Versus flying on the requested departure's weekday
+  };
+  source: 'route-data' | 'default'; // Where the booking-window curve came from
 }
 
 export interface RouteAnalysis {
@@ -31,111 +77,42 @@ export interface RouteAnalysis {
   priceVariation: number;
 }
 
+// How the probabilities turn into BUY_NOW/WAIT:
+// - heuristic: buy on a 4-week low, a price in the lower 60% of the range, or >= 65% chance of a rise
+// - probability-threshold: buy only when the chance of a rise is >= 80%
+export type RecommendationRule = 'heuristic' | 'probability-threshold';
+
+export interface PredictionOptions extends DeterminismOptions {
+  recommendationRule?: RecommendationRule;
+  pointInTime?: boolean; // Only use data observed before the clock's time (backtests); skips the profile cache
+}
+
 export class PricePredictionService {
-  private static readonly HISTORICAL_DATA: { [key: string]: RouteAnalysis[] } = {
-    'LHR-KUL': [
-      { route: 'LHR-KUL', month: 1, averagePrice: 650, minPrice: 580, maxPrice: 720, priceVariation: 0.15 },
-      { route: 'LHR-KUL', month: 2, averagePrice: 620, minPrice: 550, maxPrice: 690, priceVariation: 0.18 },
-      { route: 'LHR-KUL', month: 3, averagePrice: 680, minPrice: 610, maxPrice: 750, priceVariation: 0.16 },
-      { route: 'LHR-KUL', month: 4, averagePrice: 720, minPrice: 650, maxPrice: 790, priceVariation: 0.14 },
-      { route: 'LHR-KUL', month: 5, averagePrice: 750, minPrice: 680, maxPrice: 820, priceVariation: 0.13 },
-      { route: 'LHR-KUL', month: 6, averagePrice: 820, minPrice: 750, maxPrice: 890, priceVariation: 0.12 },
-      { route: 'LHR-KUL', month: 7, averagePrice: 880, minPrice: 810, maxPrice: 950, priceVariation: 0.11 },
-      { route: 'LHR-KUL', month: 8, averagePrice: 860, minPrice: 790, maxPrice: 930, priceVariation: 0.12 },
-      { route: 'LHR-KUL', month: 9, averagePrice: 720, minPrice: 650, maxPrice: 790, priceVariation: 0.14 },
-      { route: 'LHR-KUL', month: 10, averagePrice: 680, minPrice: 610, maxPrice: 750, priceVariation: 0.16 },
-      { route: 'LHR-KUL', month: 11, averagePrice: 740, minPrice: 670, maxPrice: 810, priceVariation: 0.13 },
-      { route: 'LHR-KUL', month: 12, averagePrice: 820, minPrice: 750, maxPrice: 890, priceVariation: 0.12 }
-    ],
-    'LHR-JFK': [
-      { route: 'LHR-JFK', month: 1, averagePrice: 420, minPrice: 350, maxPrice: 490, priceVariation: 0.20 },
-      { route: 'LHR-JFK', month: 2, averagePrice: 380, minPrice: 320, maxPrice: 440, priceVariation: 0.22 },
-      { route: 'LHR-JFK', month: 3, averagePrice: 450, minPrice: 380, maxPrice: 520, priceVariation: 0.18 },
-      { route: 'LHR-JFK', month: 4, averagePrice: 520, minPrice: 450, maxPrice: 590, priceVariation: 0.16 },
-      { route: 'LHR-JFK', month: 5, averagePrice: 580, minPrice: 510, maxPrice: 650, priceVariation: 0.15 },
-      { route: 'LHR-JFK', month: 6, averagePrice: 680, minPrice: 610, maxPrice: 750, priceVariation: 0.12 },
-      { route: 'LHR-JFK', month: 7, averagePrice: 750, minPrice: 680, maxPrice: 820, priceVariation: 0.11 },
-      { route: 'LHR-JFK', month: 8, averagePrice: 720, minPrice: 650, maxPrice: 790, priceVariation: 0.12 },
-      { route: 'LHR-JFK', month: 9, averagePrice: 520, minPrice: 450, maxPrice: 590, priceVariation: 0.16 },
-      { route: 'LHR-JFK', month: 10, averagePrice: 480, minPrice: 410, maxPrice: 550, priceVariation: 0.17 },
-      { route: 'LHR-JFK', month: 11, averagePrice: 450, minPrice: 380, maxPrice: 520, priceVariation: 0.18 },
-      { route: 'LHR-JFK', month: 12, averagePrice: 520, minPrice: 450, maxPrice: 590, priceVariation: 0.16 }
-    ],
-    'DXB-LHR': [
-      { route: 'DXB-LHR', month: 1, averagePrice: 480, minPrice: 420, maxPrice: 540, priceVariation: 0.18 },
-      { route: 'DXB-LHR', month: 2, averagePrice: 450, minPrice: 390, maxPrice: 510, priceVariation: 0.20 },
-      { route: 'DXB-LHR', month: 3, averagePrice: 520, minPrice: 460, maxPrice: 580, priceVariation: 0.16 },
-      { route: 'DXB-LHR', month: 4, averagePrice: 580, minPrice: 520, maxPrice: 640, priceVariation: 0.14 },
-      { route: 'DXB-LHR', month: 5, averagePrice: 620, minPrice: 560, maxPrice: 680, priceVariation: 0.13 },
-      { route: 'DXB-LHR', month: 6, averagePrice: 680, minPrice: 620, maxPrice: 740, priceVariation: 0.12 },
-      { route: 'DXB-LHR', month: 7, averagePrice: 750, minPrice: 690, maxPrice: 810, priceVariation: 0.11 },
-      { route: 'DXB-LHR', month: 8, averagePrice: 720, minPrice: 660, maxPrice: 780, priceVariation: 0.12 },
-      { route: 'DXB-LHR', month: 9, averagePrice: 580, minPrice: 520, maxPrice: 640, priceVariation: 0.14 },
-      { route: 'DXB-LHR', month: 10, averagePrice: 540, minPrice: 480, maxPrice: 600, priceVariation: 0.16 },
-      { route: 'DXB-LHR', month: 11, averagePrice: 520, minPrice: 460, maxPrice: 580, priceVariation: 0.16 },
-      { route: 'DXB-LHR', month: 12, averagePrice: 580, minPrice: 520, maxPrice: 640, priceVariation: 0.14 }
-    ],
-    'LAX-HND': [
-      { route: 'LAX-HND', month: 1, averagePrice: 850, minPrice: 750, maxPrice: 950, priceVariation: 0.16 },
-      { route: 'LAX-HND', month: 2, averagePrice: 820, minPrice: 720, maxPrice: 920, priceVariation: 0.18 },
-      { route: 'LAX-HND', month: 3, averagePrice: 900, minPrice: 800, maxPrice: 1000, priceVariation: 0.15 },
-      { route: 'LAX-HND', month: 4, averagePrice: 950, minPrice: 850, maxPrice: 1050, priceVariation: 0.14 },
-      { route: 'LAX-HND', month: 5, averagePrice: 1000, minPrice: 900, maxPrice: 1100, priceVariation: 0.13 },
-      { route: 'LAX-HND', month: 6, averagePrice: 1100, minPrice: 1000, maxPrice: 1200, priceVariation: 0.12 },
-      { route: 'LAX-HND', month: 7, averagePrice: 1200, minPrice: 1100, maxPrice: 1300, priceVariation: 0.11 },
-      { route: 'LAX-HND', month: 8, averagePrice: 1150, minPrice: 1050, maxPrice: 1250, priceVariation: 0.12 },
-      { route: 'LAX-HND', month: 9, averagePrice: 950, minPrice: 850, maxPrice: 1050, priceVariation: 0.14 },
-      { route: 'LAX-HND', month: 10, averagePrice: 900, minPrice: 800, maxPrice: 1000, priceVariation: 0.15 },
-      { route: 'LAX-HND', month: 11, averagePrice: 850, minPrice: 750, maxPrice: 950, priceVariation: 0.16 },
-      { route: 'LAX-HND', month: 12, averagePrice: 950, minPrice: 850, maxPrice: 1050, priceVariation: 0.14 }
-    ],
-    'SFO-NRT': [
-      { route: 'SFO-NRT', month: 1, averagePrice: 780, minPrice: 680, maxPrice: 880, priceVariation: 0.17 },
-      { route: 'SFO-NRT', month: 2, averagePrice: 750, minPrice: 650, maxPrice: 850, priceVariation: 0.19 },
-      { route: 'SFO-NRT', month: 3, averagePrice: 820, minPrice: 720, maxPrice: 920, priceVariation: 0.16 },
-      { route: 'SFO-NRT', month: 4, averagePrice: 880, minPrice: 780, maxPrice: 980, priceVariation: 0.15 },
-      { route: 'SFO-NRT', month: 5, averagePrice: 920, minPrice: 820, maxPrice: 1020, priceVariation: 0.14 },
-      { route: 'SFO-NRT', month: 6, averagePrice: 1000, minPrice: 900, maxPrice: 1100, priceVariation: 0.13 },
-      { route: 'SFO-NRT', month: 7, averagePrice: 1100, minPrice: 1000, maxPrice: 1200, priceVariation: 0.12 },
-      { route: 'SFO-NRT', month: 8, averagePrice: 1050, minPrice: 950, maxPrice: 1150, priceVariation: 0.13 },
-      { route: 'SFO-NRT', month: 9, averagePrice: 880, minPrice: 780, maxPrice: 980, priceVariation: 0.15 },
-      { route: 'SFO-NRT', month: 10, averagePrice: 820, minPrice: 720, maxPrice: 920, priceVariation: 0.16 },
-      { route: 'SFO-NRT', month: 11, averagePrice: 780, minPrice: 680, maxPrice: 880, priceVariation: 0.17 },
-      { route: 'SFO-NRT', month: 12, averagePrice: 880, minPrice: 780, maxPrice: 980, priceVariation: 0.15 }
-    ],
-    'JFK-CDG': [
-      { route: 'JFK-CDG', month: 1, averagePrice: 420, minPrice: 360, maxPrice: 480, priceVariation: 0.19 },
-      { route: 'JFK-CDG', month: 2, averagePrice: 390, minPrice: 330, maxPrice: 450, priceVariation: 0.21 },
-      { route: 'JFK-CDG', month: 3, averagePrice: 460, minPrice: 400, maxPrice: 520, priceVariation: 0.17 },
-      { route: 'JFK-CDG', month: 4, averagePrice: 520, minPrice: 460, maxPrice: 580, priceVariation: 0.15 },
-      { route: 'JFK-CDG', month: 5, averagePrice: 580, minPrice: 520, maxPrice: 640, priceVariation: 0.14 },
-      { route: 'JFK-CDG', month: 6, averagePrice: 680, minPrice: 620, maxPrice: 740, priceVariation: 0.12 },
-      { route: 'JFK-CDG', month: 7, averagePrice: 750, minPrice: 690, maxPrice: 810, priceVariation: 0.11 },
-      { route: 'JFK-CDG', month: 8, averagePrice: 720, minPrice: 660, maxPrice: 780, priceVariation: 0.12 },
-      { route: 'JFK-CDG', month: 9, averagePrice: 520, minPrice: 460, maxPrice: 580, priceVariation: 0.15 },
-      { route: 'JFK-CDG', month: 10, averagePrice: 480, minPrice: 420, maxPrice: 540, priceVariation: 0.17 },
-      { route: 'JFK-CDG', month: 11, averagePrice: 460, minPrice: 400, maxPrice: 520, priceVariation: 0.17 },
-      { route: 'JFK-CDG', month: 12, averagePrice: 520, minPrice: 460, maxPrice: 580, priceVariation: 0.15 }
-    ]
-  };
+  private static readonly MIN_HISTORY_SAMPLE = 5;
+  private static readonly DEPARTURE_BUCKET_DAYS = 3; // Departures within ±3 days count as the same trip
 
   /**
    * Generate price prediction based on current price and historical data
    */
-  static generatePrediction(
+  static async generatePrediction(
     currentPrice: number,
     origin: string,
     destination: string,
     departureDate: string,
-    currency: string = 'GBP'
-  ): PricePrediction {
+    currency: string = 'GBP',
+    options: PredictionOptions = {}
+  ): Promise<PricePrediction> {
     const route = `${origin}-${destination}`;
+    const now = (options.clock || systemClock).now();
+    // Same route, date and price always get the same market-noise draws
+    const rng = rngFor(options.seed, route, departureDate, currentPrice, currency);
     const date = new Date(departureDate);
     const month = date.getMonth() + 1;
     
-    // Get historical data for the route
-    const historicalData = this.HISTORICAL_DATA[route] || this.getGenericHistoricalData(month);
-    const monthData = historicalData.find(data => data.month === month) || historicalData[0];
+    // Get the route's profile for the departure month (learned, or the distance prior)
+    const monthData = options.pointInTime
+      ? (await RouteProfileService.getProfileAsOf(route, now)).months[month - 1]
+      : RouteProfileService.getMonthProfile(route, month);
     
     // Calculate price position relative to historical range
     const pricePosition = (currentPrice - monthData.minPrice) / (monthData.maxPrice - monthData.minPrice);
@@ -145,19 +122,22 @@ export class PricePredictionService {
       currentPrice,
       monthData,
       pricePosition,
-      date
+      date,
+      now,
+      rng
     );
     
-    // Calculate confidence based on data quality and price volatility
-    const confidence = this.calculateConfidence(monthData, pricePosition);
-    
-    // Check if current price is lowest in last 4 weeks
-    const isLowestIn4Weeks = this.isLowestPriceInRecentWeeks(currentPrice, route, 4);
-    
+    // Compare against observed prices for comparable trips over the last 4 weeks
+    const recentHistory = options.recommendationRule === 'probability-threshold'
+      ? undefined
+      : await this.getRecentPriceHistory(currentPrice, route, departureDate, 4, now);
+
     // Generate recommendation based on price position, probability, and recent price history
     let recommendation: 'BUY_NOW' | 'WAIT' = 'WAIT';
     
-    if (isLowestIn4Weeks) {
+    if (options.recommendationRule === 'probability-threshold') {
+      recommendation = probabilityIncrease >= 0.8 ? 'BUY_NOW' : 'WAIT';
+    } else if (recentHistory?.isLowest) {
       // Current price is lowest in 4 weeks - strong buy signal
       recommendation = 'BUY_NOW';
     } else if (pricePosition < 0.6) {
@@ -177,17 +157,18 @@ export class PricePredictionService {
     return {
       currentPrice,
       currency,
-      timestamp: new Date().toISOString(),
+      timestamp: now.toISOString(),
       probabilityIncrease,
       probabilityDecrease,
-      confidence,
+      confidence: CalibrationService.UNCALIBRATED_CONFIDENCE, // PredictionEngine sets the calibrated value
       recommendation,
       historicalContext,
       priceRange: {
         min: monthData.minPrice,
         max: monthData.maxPrice,
         average: monthData.averagePrice
-      }
+      },
+      recentHistory
     };
   }
 
@@ -195,7 +176,9 @@ export class PricePredictionService {
     currentPrice: number,
     monthData: RouteAnalysis,
     pricePosition: number,
-    departureDate: Date
+    departureDate: Date,
+    now: Date,
+    rng: Rng
   ): { probabilityIncrease: number; probabilityDecrease: number } {
     // Base probability on price position
     let probabilityIncrease = 0.5;
@@ -212,7 +195,7 @@ export class PricePredictionService {
     }
     
     // Adjust based on booking window
-    const daysUntilDeparture = Math.ceil((departureDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+    const daysUntilDeparture = Math.ceil((departureDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
     
     if (daysUntilDeparture < 14) {
       // Last-minute booking - prices tend to increase
@@ -223,7 +206,7 @@ export class PricePredictionService {
     }
     
     // Add some randomness based on market volatility
-    const volatilityFactor = monthData.priceVariation * (Math.random() - 0.5) * 0.2;
+    const volatilityFactor = monthData.priceVariation * (rng() - 0.5) * 0.2;
     probabilityIncrease += volatilityFactor;
     
     // Ensure probabilities are within bounds
@@ -236,26 +219,6 @@ export class PricePredictionService {
     };
   }
 
-  private static calculateConfidence(monthData: RouteAnalysis, pricePosition: number): number {
-    // Base confidence on data availability and price volatility
-    let confidence = 0.8;
-    
-    // Lower confidence for high volatility routes
-    if (monthData.priceVariation > 0.2) {
-      confidence -= 0.2;
-    }
-    
-    // Higher confidence when price is at extremes
-    if (pricePosition < 0.2 || pricePosition > 0.8) {
-      confidence += 0.1;
-    }
-    
-    // Add some randomness
-    confidence += (Math.random() - 0.5) * 0.1;
-    
-    return Math.max(60, Math.min(95, Math.round(confidence * 100)));
-  }
-
   private static generateHistoricalContext(
     monthData: RouteAnalysis,
     currentPrice: number,
@@ -284,25 +247,15 @@ export class PricePredictionService {
     return context;
   }
 
-  private static getGenericHistoricalData(month: number): RouteAnalysis[] {
-    // Generic seasonal pattern for unknown routes
-    const basePrice = 400;
-    const seasonalMultipliers = [0.8, 0.75, 0.9, 1.0, 1.1, 1.3, 1.4, 1.35, 1.0, 0.9, 0.85, 1.1];
-    
-    return seasonalMultipliers.map((multiplier, index) => ({
-      route: 'GENERIC',
-      month: index + 1,
-      averagePrice: Math.round(basePrice * multiplier),
-      minPrice: Math.round(basePrice * multiplier * 0.8),
-      maxPrice: Math.round(basePrice * multiplier * 1.2),
-      priceVariation: 0.15
-    }));
-  }
-
   /**
-   * Get spotlight routes with current predictions - only return flights with buy signals
+   * Get spotlight routes with current predictions - only return flights with buy signals.
+   * Predictions run through PredictionEngine with the given strategy, so each one is stamped
+   * and audited like any other.
    */
-  static getSpotlightRoutes(): Array<{
+  static async getSpotlightRoutes(
+    strategy: PredictionStrategyInfo,
+    options: DeterminismOptions = {}
+  ): Promise<Array<{
     route: string;
     origin: string;
     destination: string;
@@ -315,7 +268,8 @@ export class PricePredictionService {
     confidence: number;
     discount: number;
     discountPercentage: number;
-  }> {
+    predictionId: string;
+  }>> {
     const returnRoutes = [
       {
         route: 'LHR-JFK',
@@ -383,37 +337,39 @@ export class PricePredictionService {
       }
     ];
 
-    const currentMonth = new Date().getMonth() + 1;
-    const departureDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const now = (options.clock || systemClock).now();
+    const today = now.toISOString().split('T')[0];
+    const currentMonth = now.getMonth() + 1;
+    const departureDate = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
     // Generate predictions for all routes and calculate discounts
-    const routeDeals = returnRoutes.map(route => {
+    const routeDeals = await Promise.all(returnRoutes.map(async route => {
       // Get outbound flight data
-      const outboundData = this.HISTORICAL_DATA[route.route]?.find(data => data.month === currentMonth);
-      const outboundPrice = outboundData ? 
-        Math.round(outboundData.averagePrice * (0.7 + Math.random() * 0.4)) : // More variation for deals
-        400;
+      // Deal prices vary by day but stay the same across refreshes
+      const rng = rngFor(options.seed, 'spotlight', route.route, today);
+      const outboundData = RouteProfileService.getMonthProfile(route.route, currentMonth);
+      const outboundPrice = Math.round(outboundData.averagePrice * (0.7 + rng() * 0.4)); // More variation for deals
       
       // Get return flight data (use same route data but with slight variation)
-      const returnData = this.HISTORICAL_DATA[route.route]?.find(data => data.month === currentMonth);
-      const returnPrice = returnData ? 
-        Math.round(returnData.averagePrice * (0.75 + Math.random() * 0.35)) :
-        400;
+      const returnPrice = Math.round(outboundData.averagePrice * (0.75 + rng() * 0.35));
 
       const totalPrice = outboundPrice + returnPrice;
-      const averageTotal = (outboundData?.averagePrice || 400) * 2;
+      const averageTotal = outboundData.averagePrice * 2;
       
       // Calculate discount
       const discount = averageTotal - totalPrice;
       const discountPercentage = Math.round((discount / averageTotal) * 100);
 
       // Generate prediction for outbound (return flights typically follow similar patterns)
-      const prediction = this.generatePrediction(
-        outboundPrice,
-        route.origin,
-        route.destination,
-        departureDate
-      );
+      const prediction = await PredictionEngine.predict({
+        currentPrice: outboundPrice,
+        origin: route.origin,
+        destination: route.destination,
+        departureDate,
+        currency: 'GBP',
+        options,
+        audit: { source: 'spotlight', pricing: { provider: 'typical', price: outboundPrice } }
+      }, strategy.id);
 
       return {
         ...route,
@@ -424,9 +380,10 @@ export class PricePredictionService {
         confidence: prediction.confidence,
         discount,
         discountPercentage,
-        averageTotal
+        averageTotal,
+        predictionId: prediction.predictionId
       };
-    });
+    }));
 
     // Filter for deals with >10% discount and buy signals, sort by biggest discounts
     const qualifyingDeals = routeDeals
@@ -445,8 +402,7 @@ export class PricePredictionService {
         .slice(0, 3 - buyDeals.length)
         .map(deal => ({
           ...deal,
-          recommendation: 'BUY_NOW' as const, // Force buy signal for good deals >10%
-          confidence: Math.max(75, deal.confidence) // Boost confidence for forced deals
+          recommendation: 'BUY_NOW' as const // Force buy signal for good deals >10%
         }));
       
       buyDeals.push(...additionalBuyDeals);
@@ -459,54 +415,81 @@ export class PricePredictionService {
           .slice(0, 3 - buyDeals.length)
           .map(deal => ({
             ...deal,
-            recommendation: 'BUY_NOW' as const, // Force buy signal
-            confidence: Math.max(70, deal.confidence) // Boost confidence
+            recommendation: 'BUY_NOW' as const // Force buy signal
           }));
         
         buyDeals.push(...allDeals);
       }
     }
 
-    return buyDeals.slice(0, 3); // Always return exactly 3 deals
+    // Deals forced to BUY_NOW show something other than the strategy's output
+    const deals = buyDeals.slice(0, 3); // Always return exactly 3 deals
+    await Promise.all(deals
+      .filter(deal => routeDeals.find(original => original.route === deal.route)?.recommendation !== deal.recommendation)
+      .map(deal => PredictionAuditLog.recordShown(deal.predictionId, { recommendation: deal.recommendation })));
+
+    return deals;
   }
 
   /**
-   * Check if current price is the lowest in recent weeks
+   * Rank today's price among real observations for the same route, a departure date
+   * within a few days, and a similar booking window, seen over the last `weeks` weeks
    */
-  private static isLowestPriceInRecentWeeks(
-    currentPrice: number, 
-    route: string, 
-    weeks: number
-  ): boolean {
-    // Generate recent price history for comparison
-    const recentPrices: number[] = [];
-    const currentDate = new Date();
-    
-    // Get historical data for this route
-    const historicalData = this.HISTORICAL_DATA[route];
-    if (!historicalData) return false;
-    
-    const currentMonth = currentDate.getMonth() + 1;
-    const monthData = historicalData.find(data => data.month === currentMonth);
-    if (!monthData) return false;
-    
-    // Generate prices for the last 'weeks' weeks
-    for (let i = weeks - 1; i >= 0; i--) {
-      const weekDate = new Date(currentDate);
-      weekDate.setDate(currentDate.getDate() - (i * 7));
-      
-      const weekMonth = weekDate.getMonth() + 1;
-      const weekMonthData = historicalData.find(data => data.month === weekMonth) || monthData;
-      
-      // Simulate weekly price with some variation
-      const basePrice = weekMonthData.averagePrice;
-      const weeklyVariation = 0.85 + Math.random() * 0.3; // ±15% variation
-      const weekPrice = Math.round(basePrice * weeklyVariation);
-      
-      recentPrices.push(Math.max(weekMonthData.minPrice * 0.8, Math.min(weekMonthData.maxPrice * 1.2, weekPrice)));
+  static async getRecentPriceHistory(
+    currentPrice: number,
+    route: string,
+    departureDate: string,
+    weeks: number,
+    now: Date = new Date()
+  ): Promise<RecentPriceHistory> {
+    const minSampleSize = this.MIN_HISTORY_SAMPLE;
+    const departure = new Date(departureDate);
+    const daysUntilDeparture = Math.max(0, Math.ceil((departure.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
+    const windowTolerance = Math.max(3, Math.round(daysUntilDeparture * 0.25));
+    const since = new Date(now.getTime() - weeks * 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    let prices: number[];
+    try {
+      const observations = await PriceObservationStore.query({
+        route,
+        since,
+        until: now.toISOString(),
+        minBookingDaysAhead: daysUntilDeparture - windowTolerance,
+        maxBookingDaysAhead: daysUntilDeparture + windowTolerance,
+        realOnly: true
+      });
+      prices = observations
+        .filter(o => Math.abs(new Date(o.departureDate).getTime() - departure.getTime()) <= this.DEPARTURE_BUCKET_DAYS * 24 * 60 * 60 * 1000)
+        .map(o => o.price);
+    } catch (error) {
+      console.error(`Error loading recent price history for ${route}:`, error);
+      return { status: 'insufficient', weeks, sampleSize: 0, minSampleSize, isLowest: false, reason: 'price history unavailable' };
     }
-    
-    // Check if current price is lower than all recent prices
-    return recentPrices.every(price => currentPrice < price);
+
+    if (prices.length < minSampleSize) {
+      return {
+        status: 'insufficient',
+        weeks,
+        sampleSize: prices.length,
+        minSampleSize,
+        isLowest: false,
+        reason: `only ${prices.length} comparable prices observed in the last ${weeks} weeks (need ${minSampleSize})`
+      };
+    }
+
+    const cheaper = prices.filter(price => price < currentPrice).length;
+    const lowestPrice = Math.min(...prices);
+
+    return {
+      status: 'ok',
+      weeks,
+      sampleSize: prices.length,
+      minSampleSize,
+      lowestPrice,
+      highestPrice: Math.max(...prices),
+      rank: cheaper + 1,
+      percentile: Math.round((cheaper / prices.length) * 100),
+      isLowest: currentPrice < lowestPrice
+    };
   }
 }
@@ -0,0 +1,335 @@
+// Price Forecast - expected fare and prediction interval for each of the coming days, and
+// the best day to book, from the route's booking-window curve and the day-to-day movement
+// of stored prices
+import { DataCollector, EnhancedRouteData } from './data-collector';
+import { EnhancedPredictionService } from './enhanced-prediction';
+import { PriceObservation, PriceObservationStore } from './price-observations';
+import { DeterminismOptions, systemClock } from './determinism';
+import type { BestTimeToBook } from './prediction';
+import { SignificanceTester } from './significance';
+
+export interface ForecastInput {
+  origin: string;
+  destination: string;
+  departureDate: string;
+  currentPrice: number;
+  currency?: string;
+  days?: number; // How many days ahead to forecast (1-14, default 7)
+  level?: number; // Interval coverage: 0.8 (default), 0.9 or 0.95
+  options?: DeterminismOptions;
+}
+
+export interface ForecastPoint {
+  date: string; // Day the fare would be booked (YYYY-MM-DD)
+  daysFromNow: number;
+  bookingDaysAhead: number;
+  expectedPrice: number;
+  lower: number;
+  upper: number;
+}
+
+export interface PriceForecast {
+  route: string;
+  departureDate: string;
+  currency: string;
+  currentPrice: number;
+  generatedAt: string;
+  level: number;
+  points: ForecastPoint[];
+  model: {
+    bookingCurve: 'route-data' | 'default';
+    volatilitySource: 'observations' | 'route-data' | 'default';
+    dailyVolatility: number; // Standard deviation of the daily log price change
+    sampleSize: number; // Price changes (or data points) the volatility came from
+  };
+}
+
+interface ForecastModel {
+  routeData: EnhancedRouteData | null;
+  curve: (daysAhead: number) => number;
+  bookingCurve: PriceForecast['model']['bookingCurve'];
+  dailyVolatility: number;
+  volatilitySource: PriceForecast['model']['volatilitySource'];
+  sampleSize: number;
+}
+
+export class PriceForecastService {
+  static readonly DEFAULT_DAYS = 7;
+  static readonly MAX_DAYS = 14;
+  static readonly DEFAULT_LEVEL = 0.8;
+
+  // Two-sided normal quantiles for the supported interval levels
+  private static readonly Z_SCORES: { [level: string]: number } = {
+    '0.8': 1.2816,
+    '0.9': 1.6449,
+    '0.95': 1.96
+  };
+
+  private static readonly LOOKBACK_DAYS = 90;
+  private static readonly MIN_PRICE_CHANGES = 10;
+  private static readonly DEFAULT_DAILY_VOLATILITY = 0.03;
+  private static readonly MIN_SAVINGS_RATIO = 0.02; // Waiting must be expected to save at least 2%
+  private static readonly WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+  static isSupportedLevel(level: number): boolean {
+    return this.Z_SCORES[String(level)] !== undefined;
+  }
+
+  /**
+   * Forecast the fare for the given departure if booked on each of the next days.
+   * Stops the day before departure.
+   */
+  static async generateForecast(input: ForecastInput): Promise<PriceForecast> {
+    const now = (input.options?.clock || systemClock).now();
+    const route = `${input.origin}-${input.destination}`;
+    const level = input.level ?? this.DEFAULT_LEVEL;
+    const z = this.Z_SCORES[String(level)];
+    if (z === undefined) {
+      throw new Error(`Unsupported forecast interval level: ${level}`);
+    }
+
+    const today = this.startOfDay(now);
+    const departure = this.startOfDay(input.departureDate);
+    const bookingDaysAhead = this.daysBetween(today, departure);
+    const days = Math.min(
+      Math.max(1, Math.floor(input.days ?? this.DEFAULT_DAYS)),
+      this.MAX_DAYS,
+      bookingDaysAhead - 1
+    );
+
+    const model = await this.buildModel(route, departure, now);
+
+    const points: ForecastPoint[] = [];
+    for (let day = 1; day <= days; day++) {
+      const date = new Date(today);
+      date.setUTCDate(date.getUTCDate() + day);
+      const daysAhead = bookingDaysAhead - day;
+
+      // Move along the booking curve, with uncertainty growing with the square root of time
+      const expectedPrice = input.currentPrice * model.curve(daysAhead) / model.curve(bookingDaysAhead);
+      const spread = z * model.dailyVolatility * Math.sqrt(day);
+
+      points.push({
+        date: date.toISOString().split('T')[0],
+        daysFromNow: day,
+        bookingDaysAhead: daysAhead,
+        expectedPrice: Math.round(expectedPrice),
+        lower: Math.round(expectedPrice * Math.exp(-spread)),
+        upper: Math.round(expectedPrice * Math.exp(spread))
+      });
+    }
+
+    return {
+      route,
+      departureDate: departure.toISOString().split('T')[0],
+      currency: input.currency || 'GBP',
+      currentPrice: input.currentPrice,
+      generatedAt: now.toISOString(),
+      level,
+      points,
+      model: {
+        bookingCurve: model.bookingCurve,
+        volatilitySource: model.volatilitySource,
+        dailyVolatility: Math.round(model.dailyVolatility * 10000) / 10000,
+        sampleSize: model.sampleSize
+      }
+    };
+  }
+
+  /**
+   * Purchase day with the lowest expected fare for this departure (between today and
+   * the day before departure), the expected saving versus buying now, and the chance
+   * the fare has risen above today's price by then
+   */
+  static async getBestTimeToBook(
+    input: Omit<ForecastInput, 'days' | 'level'>
+  ): Promise<BestTimeToBook> {
+    const now = (input.options?.clock || systemClock).now();
+    const route = `${input.origin}-${input.destination}`;
+    const today = this.startOfDay(now);
+    const departure = this.startOfDay(input.departureDate);
+    const bookingDaysAhead = this.daysBetween(today, departure);
+
+    const model = await this.buildModel(route, departure, now);
+
+    // Earliest day with the lowest expected fare; today wins unless waiting saves enough
+    let bestDay = 0;
+    let bestPrice = input.currentPrice;
+    for (let day = 1; day < bookingDaysAhead; day++) {
+      const expectedPrice = input.currentPrice * model.curve(bookingDaysAhead - day) / model.curve(bookingDaysAhead);
+      if (expectedPrice < bestPrice) {
+        bestDay = day;
+        bestPrice = expectedPrice;
+      }
+    }
+    if (input.currentPrice - bestPrice < input.currentPrice * this.MIN_SAVINGS_RATIO) {
+      bestDay = 0;
+      bestPrice = input.currentPrice;
+    }
+
+    // Log price on the chosen day ~ N(log(expected), volatility * sqrt(days))
+    const riskOfWaiting = bestDay === 0
+      ? 0
+      : 1 - SignificanceTester.normalCdf(Math.log(input.currentPrice / bestPrice) / (model.dailyVolatility * Math.sqrt(bestDay)));
+
+    const bookOn = new Date(today);
+    bookOn.setUTCDate(bookOn.getUTCDate() + bestDay);
+
+    return {
+      bookNow: bestDay === 0,
+      bookOn: bookOn.toISOString().split('T')[0],
+      bookingDaysAhead: Math.max(0, bookingDaysAhead - bestDay),
+      expectedPrice: Math.round(bestPrice),
+      expectedSavings: Math.round(input.currentPrice - bestPrice),
+      riskOfWaiting: Math.round(riskOfWaiting * 100) / 100,
+      bestDepartureWeekday: this.getBestDepartureWeekday(model.routeData, departure, input.currentPrice),
+      source: model.bookingCurve
+    };
+  }
+
+  private static async buildModel(route: string, departure: Date, now: Date): Promise<ForecastModel> {
+    const routeData = await EnhancedPredictionService.getRouteData(route);
+    const curve = this.buildBookingCurve(routeData);
+    const volatility = await this.estimateDailyVolatility(route, routeData, curve, departure, now);
+
+    return {
+      routeData,
+      curve,
+      bookingCurve: routeData && Object.keys(routeData.bookingWindowAnalysis).length > 0 ? 'route-data' : 'default',
+      dailyVolatility: volatility.dailyVolatility,
+      volatilitySource: volatility.source,
+      sampleSize: volatility.sampleSize
+    };
+  }
+
+  /**
+   * Cheapest weekday to fly by the route's day-of-week averages, priced relative to
+   * the requested departure's weekday
+   */
+  private static getBestDepartureWeekday(
+    routeData: EnhancedRouteData | null,
+    departure: Date,
+    currentPrice: number
+  ): BestTimeToBook['bestDepartureWeekday'] {
+    const trends = routeData?.dayOfWeekTrends;
+    const requested = trends?.[departure.getUTCDay()];
+    if (!trends || !requested || requested.averagePrice <= 0) return undefined;
+
+    const [bestDay, best] = Object.entries(trends)
+      .map(([day, data]) => [Number(day), data] as const)
+      .reduce((cheapest, entry) => entry[1].averagePrice < cheapest[1].averagePrice ? entry : cheapest);
+
+    const expectedPrice = currentPrice * best.averagePrice / requested.averagePrice;
+    return {
+      weekday: this.WEEKDAYS[bestDay],
+      expectedPrice: Math.round(expectedPrice),
+      expectedSavings: Math.round(currentPrice - expectedPrice)
+    };
+  }
+
+  /**
+   * Relative price level by days before departure. Interpolates the average price of the
+   * route's collected booking windows (their priceMultiplier is 1 without June data);
+   * outside them the default curve's shape is followed. Only ratios of this are used.
+   */
+  private static buildBookingCurve(routeData: EnhancedRouteData | null): (daysAhead: number) => number {
+    const defaultCurve = (daysAhead: number) => DataCollector.getBookingWindowMultiplier(daysAhead);
+    const windows = routeData
+      ? Object.entries(routeData.bookingWindowAnalysis)
+        .map(([days, data]) => ({ days: Number(days), level: data.averagePrice }))
+        .filter(w => w.level > 0)
+        .sort((a, b) => a.days - b.days)
+      : [];
+
+    if (windows.length === 0) return defaultCurve;
+
+    const first = windows[0];
+    const last = windows[windows.length - 1];
+
+    return (daysAhead: number) => {
+      if (daysAhead <= first.days) {
+        return first.level * defaultCurve(daysAhead) / defaultCurve(first.days);
+      }
+      if (daysAhead >= last.days) {
+        return last.level * defaultCurve(daysAhead) / defaultCurve(last.days);
+      }
+      const upperIndex = windows.findIndex(w => w.days >= daysAhead);
+      const lower = windows[upperIndex - 1];
+      const upper = windows[upperIndex];
+      const t = (daysAhead - lower.days) / (upper.days - lower.days);
+      return lower.level + t * (upper.level - lower.level);
+    };
+  }
+
+  /**
+   * Daily volatility of log prices. Uses repeat observations of the same departure
+   * (net of the booking curve) when there are enough, otherwise the route's seasonal
+   * volatility spread over a month, otherwise a default.
+   */
+  private static async estimateDailyVolatility(
+    route: string,
+    routeData: EnhancedRouteData | null,
+    curve: (daysAhead: number) => number,
+    departure: Date,
+    now: Date
+  ): Promise<{ dailyVolatility: number; source: ForecastModel['volatilitySource']; sampleSize: number }> {
+    const observations = await PriceObservationStore.query({
+      route,
+      since: new Date(now.getTime() - this.LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      until: now.toISOString(),
+      realOnly: true
+    });
+
+    const changes = this.getScaledPriceChanges(observations, curve);
+    if (changes.length >= this.MIN_PRICE_CHANGES) {
+      const variance = changes.reduce((sum, change) => sum + change * change, 0) / changes.length;
+      return { dailyVolatility: Math.sqrt(variance), source: 'observations', sampleSize: changes.length };
+    }
+
+    const monthData = routeData?.seasonalTrends[departure.getUTCMonth() + 1];
+    if (monthData && monthData.dataPoints > 1 && monthData.volatility > 0) {
+      return { dailyVolatility: monthData.volatility / Math.sqrt(30), source: 'route-data', sampleSize: monthData.dataPoints };
+    }
+
+    return { dailyVolatility: this.DEFAULT_DAILY_VOLATILITY, source: 'default', sampleSize: 0 };
+  }
+
+  /**
+   * Log price changes between consecutive observations of the same departure,
+   * with the expected booking-curve move removed and scaled to one day
+   */
+  private static getScaledPriceChanges(
+    observations: PriceObservation[],
+    curve: (daysAhead: number) => number
+  ): number[] {
+    const byDeparture: { [departureDate: string]: PriceObservation[] } = {};
+    for (const observation of observations) {
+      if (!byDeparture[observation.departureDate]) byDeparture[observation.departureDate] = [];
+      byDeparture[observation.departureDate].push(observation);
+    }
+
+    const changes: number[] = [];
+    for (const series of Object.values(byDeparture)) {
+      for (let i = 1; i < series.length; i++) {
+        const previous = series[i - 1];
+        const current = series[i];
+        const gapDays = (new Date(current.observedAt).getTime() - new Date(previous.observedAt).getTime()) / (1000 * 60 * 60 * 24);
+        if (gapDays < 0.5) continue; // Same-day snapshots from different providers
+
+        const change = Math.log(current.price / previous.price)
+          - Math.log(curve(current.bookingDaysAhead) / curve(previous.bookingDaysAhead));
+        changes.push(change / Math.sqrt(gapDays));
+      }
+    }
+    return changes;
+  }
+
+  private static startOfDay(date: Date | string): Date {
+    const day = typeof date === 'string' ? date.split('T')[0] : date.toISOString().split('T')[0];
+    return new Date(`${day}T00:00:00.000Z`);
+  }
+
+  private static daysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
+  }
+}
@@ -0,0 +1,167 @@
+// Price Observations - every price we fetch or generate, kept per route in server-side storage
+import { Storage } from './storage';
+import type { RealHistoricalPrice } from './historical-data-manager';
+import type { HistoricalPricePoint } from './data-collector';
+
+export interface PriceObservation {
+  id: string;
+  route: string; // ORIGIN-DESTINATION
+  price: number;
+  currency: string;
+  observedAt: string; // When the price was seen (ISO timestamp)
+  departureDate: string; // YYYY-MM-DD
+  bookingDaysAhead: number;
+  airline?: string;
+  source: string; // Provider id, or 'manual' / 'simulated' for generated prices
+  synthetic: boolean; // True when the price was generated rather than fetched
+}
+
+export interface PriceObservationQuery {
+  route?: string;
+  since?: string; // Inclusive lower bound on observedAt
+  until?: string; // Exclusive upper bound on observedAt
+  departureDate?: string;
+  minBookingDaysAhead?: number;
+  maxBookingDaysAhead?: number;
+  realOnly?: boolean; // Leave out synthetic observations
+  limit?: number; // Most recent N after filtering
+}
+
+export class PriceObservationStore {
+  private static readonly KEY_PREFIX = 'observations/';
+
+  /**
+   * Add observations, ignoring any already stored with the same id.
+   * Returns how many were new.
+   */
+  static async add(observations: PriceObservation[]): Promise<number> {
+    const byRoute = this.groupByRoute(observations);
+    let added = 0;
+
+    for (const [route, routeObservations] of Object.entries(byRoute)) {
+      await Storage.update<PriceObservation[]>(this.routeKey(route), current => {
+        const existing = current || [];
+        const seen = new Set(existing.map(o => o.id));
+        const fresh = routeObservations.filter(o => {
+          if (seen.has(o.id)) return false;
+          seen.add(o.id);
+          return true;
+        });
+        added += fresh.length;
+        return [...existing, ...fresh].sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+      });
+    }
+
+    return added;
+  }
+
+  /**
+   * Observations matching the query, oldest first
+   */
+  static async query(query: PriceObservationQuery = {}): Promise<PriceObservation[]> {
+    const routes = query.route ? [query.route] : await this.getRoutes();
+    const results: PriceObservation[] = [];
+
+    for (const route of routes) {
+      const observations = await Storage.get<PriceObservation[]>(this.routeKey(route)) || [];
+      results.push(...observations.filter(o => this.matches(o, query)));
+    }
+
+    results.sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+    return query.limit !== undefined ? results.slice(-query.limit) : results;
+  }
+
+  /**
+   * Routes that have at least one stored observation
+   */
+  static async getRoutes(): Promise<string[]> {
+    const keys = await Storage.keys(this.KEY_PREFIX);
+    return keys.map(key => key.slice(this.KEY_PREFIX.length));
+  }
+
+  /**
+   * Observation counts, split by real and synthetic
+   */
+  static async count(route?: string): Promise<{ total: number; real: number; synthetic: number }> {
+    const observations = await this.query({ route });
+    const synthetic = observations.filter(o => o.synthetic).length;
+    return { total: observations.length, real: observations.length - synthetic, synthetic };
+  }
+
+  /**
+   * Remove all observations for a route (or every route)
+   */
+  static async clear(route?: string): Promise<void> {
+    const routes = route ? [route] : await this.getRoutes();
+    for (const r of routes) {
+      await Storage.delete(this.routeKey(r));
+    }
+  }
+
+  /**
+   * Convert a HistoricalDataManager price into an observation
+   */
+  static fromRealHistoricalPrice(price: RealHistoricalPrice): PriceObservation {
+    const departureDate = price.departureDate.split('T')[0];
+    return {
+      id: this.buildId(price.route, departureDate, price.date, price.source),
+      route: price.route,
+      price: price.price,
+      currency: price.currency,
+      observedAt: new Date(price.date).toISOString(),
+      departureDate,
+      bookingDaysAhead: price.bookingDaysAhead,
+      airline: price.airline,
+      source: price.source,
+      synthetic: price.source === 'manual'
+    };
+  }
+
+  /**
+   * Convert a DataCollector price point into an observation
+   */
+  static fromHistoricalPricePoint(point: HistoricalPricePoint): PriceObservation {
+    const observedAt = new Date(point.date);
+    const departure = new Date(observedAt);
+    departure.setDate(departure.getDate() + point.bookingDaysAhead);
+    const departureDate = departure.toISOString().split('T')[0];
+
+    return {
+      id: this.buildId(point.route, departureDate, point.date, 'simulated'),
+      route: point.route,
+      price: point.price,
+      currency: point.currency,
+      observedAt: observedAt.toISOString(),
+      departureDate,
+      bookingDaysAhead: point.bookingDaysAhead,
+      source: 'simulated',
+      synthetic: true
+    };
+  }
+
+  private static matches(observation: PriceObservation, query: PriceObservationQuery): boolean {
+    if (query.since && observation.observedAt < query.since) return false;
+    if (query.until && observation.observedAt >= query.until) return false;
+    if (query.departureDate && observation.departureDate !== query.departureDate) return false;
+    if (query.minBookingDaysAhead !== undefined && observation.bookingDaysAhead < query.minBookingDaysAhead) return false;
+    if (query.maxBookingDaysAhead !== undefined && observation.bookingDaysAhead > query.maxBookingDaysAhead) return false;
+    if (query.realOnly && observation.synthetic) return false;
+    return true;
+  }
+
+  private static groupByRoute(observations: PriceObservation[]): { [route: string]: PriceObservation[] } {
+    return observations.reduce((groups, observation) => {
+      if (!groups[observation.route]) groups[observation.route] = [];
+      groups[observation.route].push(observation);
+      return groups;
+    }, {} as { [route: string]: PriceObservation[] });
+  }
+
+  private static buildId(route: string, departureDate: string, observedAt: string, source: string): string {
+    return `${route}:${departureDate}:${new Date(observedAt).toISOString()}:${source}`;
+  }
+
+  private static routeKey(route: string): string {
+    return `${this.KEY_PREFIX}${route}`;
+  }
+}
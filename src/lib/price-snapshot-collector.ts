@@ -0,0 +1,206 @@
+// Price Snapshot Collector - records real fetched prices for watched routes over time
+import { DataCollector } from './data-collector';
+import { ProviderRegistry } from './provider-registry';
+import { PriceObservation, PriceObservationStore } from './price-observations';
+import { Storage } from './storage';
+import { RouteProfileService } from './route-profiles';
+
+export interface CollectorConfig {
+  routes: string[];
+  bookingWindows: number[];
+  intervalHours: number;
+  currency: string;
+  requestDelayMs: number; // Pause between provider calls
+}
+
+export interface SnapshotResult {
+  route: string;
+  bookingDaysAhead: number;
+  departureDate: string;
+  status: 'collected' | 'skipped' | 'no-data' | 'failed';
+  provider?: string;
+  price?: number;
+  reason?: string;
+}
+
+export interface CollectorRun {
+  startedAt: string;
+  finishedAt: string;
+  collected: number;
+  skipped: number;
+  noData: number;
+  failed: number;
+  results: SnapshotResult[];
+}
+
+export class PriceSnapshotCollector {
+  static readonly DEFAULT_BOOKING_WINDOWS = [7, 14, 21, 30, 45, 60, 90];
+  private static readonly LAST_RUN_KEY = 'collector/last-run';
+
+  /**
+   * Collector settings from the environment:
+   * COLLECTOR_ROUTES (comma-separated, default DataCollector.POPULAR_ROUTES),
+   * COLLECTOR_BOOKING_WINDOWS and COLLECTOR_INTERVAL_HOURS (default 6)
+   */
+  static getConfig(): CollectorConfig {
+    return {
+      routes: this.parseList(process.env.COLLECTOR_ROUTES) || [...DataCollector.POPULAR_ROUTES],
+      bookingWindows: this.parseList(process.env.COLLECTOR_BOOKING_WINDOWS)?.map(w => parseInt(w, 10)).filter(w => w > 0)
+        || this.DEFAULT_BOOKING_WINDOWS,
+      intervalHours: parseFloat(process.env.COLLECTOR_INTERVAL_HOURS || '6') || 6,
+      currency: process.env.COLLECTOR_CURRENCY || 'GBP',
+      requestDelayMs: 100
+    };
+  }
+
+  /**
+   * Take one snapshot per route and booking window. Route/day/window combinations
+   * that already have a real observation today are skipped, so re-running is safe.
+   */
+  static async collect(overrides: Partial<CollectorConfig> = {}, now: Date = new Date()): Promise<CollectorRun> {
+    const config = { ...this.getConfig(), ...overrides };
+    const startedAt = now.toISOString();
+    const today = startedAt.split('T')[0];
+    const results: SnapshotResult[] = [];
+
+    console.log(`Collecting price snapshots for ${config.routes.length} routes x ${config.bookingWindows.length} booking windows`);
+
+    for (const route of config.routes) {
+      const [origin, destination] = route.split('-');
+      if (!origin || !destination) {
+        console.warn(`Skipping malformed route: ${route}`);
+        continue;
+      }
+
+      const collectedWindows = await this.getCollectedWindows(route, today);
+
+      for (const bookingDaysAhead of config.bookingWindows) {
+        const departure = new Date(`${today}T00:00:00.000Z`);
+        departure.setUTCDate(departure.getUTCDate() + bookingDaysAhead);
+        const departureDate = departure.toISOString().split('T')[0];
+
+        if (collectedWindows.has(bookingDaysAhead)) {
+          results.push({ route, bookingDaysAhead, departureDate, status: 'skipped', reason: 'already collected today' });
+          continue;
+        }
+
+        results.push(await this.takeSnapshot(route, origin, destination, departureDate, bookingDaysAhead, today, now, config));
+
+        // Rate limiting - don't overwhelm provider APIs
+        await new Promise(resolve => setTimeout(resolve, config.requestDelayMs));
+      }
+    }
+
+    const run: CollectorRun = {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      collected: results.filter(r => r.status === 'collected').length,
+      skipped: results.filter(r => r.status === 'skipped').length,
+      noData: results.filter(r => r.status === 'no-data').length,
+      failed: results.filter(r => r.status === 'failed').length,
+      results
+    };
+
+    await Storage.set(this.LAST_RUN_KEY, run);
+
+    // New observations change the learned route profiles
+    if (run.collected > 0) {
+      await RouteProfileService.refresh();
+    }
+
+    console.log(`Snapshot run complete: ${run.collected} collected, ${run.skipped} skipped, ${run.noData} without data, ${run.failed} failed`);
+    return run;
+  }
+
+  /**
+   * Run only when the configured interval has passed since the last run
+   */
+  static async collectIfDue(overrides: Partial<CollectorConfig> = {}, now: Date = new Date()): Promise<CollectorRun | null> {
+    const lastRun = await this.getLastRun();
+    if (lastRun) {
+      const hoursSinceLastRun = (now.getTime() - new Date(lastRun.startedAt).getTime()) / (1000 * 60 * 60);
+      if (hoursSinceLastRun < (overrides.intervalHours ?? this.getConfig().intervalHours)) {
+        console.log(`Last snapshot run was ${hoursSinceLastRun.toFixed(1)}h ago, not due yet`);
+        return null;
+      }
+    }
+    return this.collect(overrides, now);
+  }
+
+  static async getLastRun(): Promise<CollectorRun | null> {
+    return Storage.get<CollectorRun>(this.LAST_RUN_KEY);
+  }
+
+  private static async takeSnapshot(
+    route: string,
+    origin: string,
+    destination: string,
+    departureDate: string,
+    bookingDaysAhead: number,
+    today: string,
+    now: Date,
+    config: CollectorConfig
+  ): Promise<SnapshotResult> {
+    try {
+      const { provider, offers } = await ProviderRegistry.search({
+        origin,
+        destination,
+        departureDate,
+        adults: 1,
+        currency: config.currency,
+        maxResults: 10
+      }, undefined, { bypassCache: true }); // An observation must be today's price, not a cached one
+
+      // Estimated prices from the mock provider aren't real history
+      if (offers.length === 0 || provider === 'mock') {
+        return { route, bookingDaysAhead, departureDate, status: 'no-data', provider, reason: 'no live provider returned offers' };
+      }
+
+      const cheapest = offers[0];
+      const observation: PriceObservation = {
+        // One id per route/day/window/provider keeps concurrent runs from double-counting
+        id: `${route}:${today}:${bookingDaysAhead}:${provider}`,
+        route,
+        price: cheapest.price,
+        currency: cheapest.currency,
+        observedAt: now.toISOString(),
+        departureDate,
+        bookingDaysAhead,
+        airline: cheapest.airline,
+        source: provider,
+        synthetic: false
+      };
+      await PriceObservationStore.add([observation]);
+
+      return { route, bookingDaysAhead, departureDate, status: 'collected', provider, price: cheapest.price };
+    } catch (error) {
+      console.error(`Snapshot failed for ${route} (${bookingDaysAhead} days ahead):`, error);
+      return {
+        route,
+        bookingDaysAhead,
+        departureDate,
+        status: 'failed',
+        reason: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  private static async getCollectedWindows(route: string, day: string): Promise<Set<number>> {
+    const nextDay = new Date(`${day}T00:00:00.000Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+    const observations = await PriceObservationStore.query({
+      route,
+      since: `${day}T00:00:00.000Z`,
+      until: nextDay.toISOString(),
+      realOnly: true
+    });
+    return new Set(observations.map(o => o.bookingDaysAhead));
+  }
+
+  private static parseList(value: string | undefined): string[] | null {
+    if (!value) return null;
+    const items = value.split(',').map(item => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : null;
+  }
+}
@@ -0,0 +1,483 @@
+// Price Watches - saved routes that a background job re-prices through the provider chain.
+// A watch alerts its visitor when the fare falls to their target price or the
+// recommendation flips from WAIT to BUY_NOW. Watches belong to the anonymous visitor id.
+// A watch alerting an email address waits until the address confirms it wants the alerts.
+import crypto from 'crypto';
+import { Storage } from './storage';
+import { JobQueue } from './job-queue';
+import { ProviderRegistry } from './provider-registry';
+import { QuotaExceededError } from './provider-rate-limit';
+import { PredictionEngine } from './prediction-engine';
+import { PredictionAuditLog } from './prediction-audit';
+import { UserEventService } from './user-events';
+import { NotifierRegistry, PriceAlert } from './notifier';
+
+export interface FlexibleWindow {
+  earliestDeparture: string;
+  latestDeparture: string;
+  tripLengthDays?: number; // Return this many days after departure; one-way when missing
+}
+
+export interface PriceWatchInput {
+  origin: string;
+  destination: string;
+  departureDate?: string; // Either a fixed date...
+  returnDate?: string;
+  flexibleWindow?: FlexibleWindow; // ...or the cheapest day in a window
+  passengers?: number;
+  directOnly?: boolean;
+  currency?: string;
+  targetPrice?: number;
+  notify: { channel: string; target?: string }; // Notifier id and its address (email, webhook URL)
+  predictionId?: string; // Prediction the watch was set from; its price and recommendation are the baseline
+}
+
+export interface PriceWatch extends Omit<PriceWatchInput, 'predictionId'> {
+  id: string;
+  visitorId: string;
+  passengers: number;
+  currency: string;
+  status: 'pending' | 'active' | 'expired'; // Pending until the notification target is confirmed
+  confirmationTokenHash?: string; // SHA-256 of the token in the confirmation link
+  confirmedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  createdFromPredictionId?: string;
+  lastCheckedAt?: string;
+  lastPrice?: number;
+  lastDepartureDate?: string; // Cheapest day found on the last check (flexible windows)
+  lastRecommendation?: 'BUY_NOW' | 'WAIT';
+  lastPredictionId?: string;
+  lastProvider?: string;
+  lowestPrice?: number;
+  lastAlertPrice?: number; // Price of the last drop alert; cleared once the fare rises above the target again
+  lastError?: string;
+  alerts: Array<Pick<PriceAlert, 'reason' | 'price' | 'departureDate' | 'triggeredAt'>>;
+}
+
+export interface PriceWatchCheck {
+  watchId: string;
+  price: number;
+  departureDate: string;
+  recommendation: 'BUY_NOW' | 'WAIT';
+  provider: string;
+  alert: PriceAlert['reason'] | null;
+}
+
+export class PriceWatchService {
+  static readonly CHECK_JOB = 'price-watch-check';
+  private static readonly KEY_PREFIX = 'watches/';
+  private static readonly MAX_WATCHES_PER_VISITOR = 20;
+  private static readonly MAX_FLEXIBLE_DATES = 7; // Days priced per check in a flexible window
+  private static readonly MAX_WINDOW_DAYS = 60;
+  private static readonly MAX_ALERTS_KEPT = 20;
+  private static readonly DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Hours between checks of each watch (PRICE_WATCH_INTERVAL_HOURS, default 6)
+   */
+  static getCheckIntervalMs(): number {
+    return (parseFloat(process.env.PRICE_WATCH_INTERVAL_HOURS || '6') || 6) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Check a new watch; returns an error message or null when it's valid
+   */
+  static validateInput(input: PriceWatchInput, now: Date = new Date()): string | null {
+    if (!input || typeof input !== 'object') return 'watch is required';
+    if (!/^[A-Z]{3}$/.test(input.origin || '') || !/^[A-Z]{3}$/.test(input.destination || '')) {
+      return 'origin and destination must be 3-letter airport codes';
+    }
+    if (input.origin === input.destination) return 'origin and destination must differ';
+
+    const today = now.toISOString().split('T')[0];
+    if (!!input.departureDate === !!input.flexibleWindow) {
+      return 'give either departureDate or flexibleWindow';
+    }
+    if (input.departureDate) {
+      if (!this.isDate(input.departureDate)) return 'departureDate must be YYYY-MM-DD';
+      if (input.departureDate < today) return 'departureDate is in the past';
+      // An empty returnDate (a one-way search form) means no return
+      if (input.returnDate && (!this.isDate(input.returnDate) || input.returnDate < input.departureDate)) {
+        return 'returnDate must be a YYYY-MM-DD date on or after departureDate';
+      }
+    }
+    if (input.flexibleWindow) {
+      const { earliestDeparture, latestDeparture, tripLengthDays } = input.flexibleWindow;
+      if (!this.isDate(earliestDeparture) || !this.isDate(latestDeparture)) {
+        return 'flexibleWindow dates must be YYYY-MM-DD';
+      }
+      if (latestDeparture < earliestDeparture) return 'flexibleWindow ends before it starts';
+      if (latestDeparture < today) return 'flexibleWindow is in the past';
+      if (this.daysBetween(earliestDeparture, latestDeparture) > this.MAX_WINDOW_DAYS) {
+        return `flexibleWindow can span at most ${this.MAX_WINDOW_DAYS} days`;
+      }
+      if (tripLengthDays !== undefined && (!Number.isInteger(tripLengthDays) || tripLengthDays < 1 || tripLengthDays > 90)) {
+        return 'tripLengthDays must be a whole number of days between 1 and 90';
+      }
+    }
+
+    if (input.passengers !== undefined && (!Number.isInteger(input.passengers) || input.passengers < 1 || input.passengers > 9)) {
+      return 'passengers must be between 1 and 9';
+    }
+    if (input.currency !== undefined && !/^[A-Z]{3}$/.test(input.currency)) return 'currency must be a 3-letter code';
+    if (input.targetPrice !== undefined && (typeof input.targetPrice !== 'number' || !(input.targetPrice > 0))) {
+      return 'targetPrice must be a positive number';
+    }
+
+    const notifier = input.notify && NotifierRegistry.getNotifier(input.notify.channel);
+    if (!notifier) return 'notify.channel must be a known notification channel';
+    if (!notifier.isConfigured()) return `notification channel ${notifier.id} is not available`;
+    const targetError = notifier.validateTarget(input.notify.target);
+    if (targetError) return `notify.target: ${targetError}`;
+
+    return null;
+  }
+
+  /**
+   * Save a watch for a visitor and schedule its first check. A watch set from a shown
+   * prediction starts from that prediction's price and recommendation, and counts as
+   * a reminder on it. When the channel confirms its targets and the visitor hasn't
+   * confirmed this one on another watch, the watch stays pending and the target is sent
+   * a link under baseUrl that activates it.
+   */
+  static async create(visitorId: string, input: PriceWatchInput, baseUrl: string): Promise<PriceWatch> {
+    const error = this.validateInput(input);
+    if (error) throw new Error(`Invalid price watch: ${error}`);
+
+    const limitError = await this.checkLimit(visitorId);
+    if (limitError) throw new Error(`Invalid price watch: ${limitError}`);
+
+    const now = new Date().toISOString();
+    const watch: PriceWatch = {
+      id: crypto.randomUUID(),
+      visitorId,
+      origin: input.origin,
+      destination: input.destination,
+      departureDate: input.departureDate,
+      returnDate: input.returnDate || undefined,
+      flexibleWindow: input.flexibleWindow && {
+        earliestDeparture: input.flexibleWindow.earliestDeparture,
+        latestDeparture: input.flexibleWindow.latestDeparture,
+        tripLengthDays: input.flexibleWindow.tripLengthDays
+      },
+      passengers: input.passengers || 1,
+      directOnly: !!input.directOnly,
+      currency: input.currency || 'GBP',
+      targetPrice: input.targetPrice,
+      notify: { channel: input.notify.channel, target: input.notify.target },
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+      alerts: []
+    };
+
+    if (input.predictionId) {
+      const record = await PredictionAuditLog.get(input.predictionId);
+      if (record && record.input.origin === watch.origin && record.input.destination === watch.destination) {
+        watch.createdFromPredictionId = record.predictionId;
+        watch.lastPrice = record.input.currentPrice;
+        watch.lastRecommendation = record.shown?.recommendation || record.output.recommendation;
+        watch.lastPredictionId = record.predictionId;
+      }
+    }
+
+    const notifier = NotifierRegistry.getNotifier(watch.notify.channel)!;
+    const alreadyConfirmed = (await this.list(visitorId)).some(other =>
+      !!other.confirmedAt && other.notify.channel === watch.notify.channel && other.notify.target === watch.notify.target
+    );
+    if (notifier.sendConfirmation && !alreadyConfirmed) {
+      const token = crypto.randomBytes(24).toString('base64url');
+      watch.status = 'pending';
+      watch.confirmationTokenHash = this.hashToken(token);
+      await Storage.set(this.key(watch.id), watch);
+
+      const confirmUrl = `${baseUrl}/api/watches/confirm?id=${watch.id}&token=${token}`;
+      try {
+        await notifier.sendConfirmation(watch.notify.target!, confirmUrl, `${watch.origin} → ${watch.destination}`);
+      } catch (error) {
+        await Storage.delete(this.key(watch.id));
+        throw error;
+      }
+    } else {
+      watch.confirmedAt = alreadyConfirmed ? now : undefined;
+      await Storage.set(this.key(watch.id), watch);
+      await this.scheduleCheck(watch, new Date(watch.createdAt));
+    }
+
+    if (watch.createdFromPredictionId) {
+      await UserEventService.record({ predictionId: watch.createdFromPredictionId, visitorId, type: 'reminder_set' });
+    }
+
+    console.log(`Created price watch ${watch.id} for ${watch.origin}-${watch.destination}`);
+    return watch;
+  }
+
+  /**
+   * Activate a pending watch from its confirmation link and schedule its first check;
+   * null when the watch or token doesn't match
+   */
+  static async confirm(id: string, token: string): Promise<PriceWatch | null> {
+    const watch = await this.get(id);
+    if (!watch || watch.status !== 'pending' || !watch.confirmationTokenHash) return null;
+
+    const expected = Buffer.from(watch.confirmationTokenHash, 'hex');
+    const actual = Buffer.from(this.hashToken(token), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) return null;
+
+    await this.save(watch, { status: 'active', confirmationTokenHash: undefined, confirmedAt: new Date().toISOString() });
+    await this.scheduleCheck(watch, new Date(watch.createdAt));
+    console.log(`Confirmed price watch ${watch.id}`);
+    return this.get(id);
+  }
+
+  /**
+   * Error message when the visitor already has the most active or pending watches
+   * allowed, else null
+   */
+  static async checkLimit(visitorId: string): Promise<string | null> {
+    const active = (await this.list(visitorId)).filter(watch => watch.status !== 'expired').length;
+    return active >= this.MAX_WATCHES_PER_VISITOR ? `at most ${this.MAX_WATCHES_PER_VISITOR} active watches per visitor` : null;
+  }
+
+  static async get(id: string): Promise<PriceWatch | null> {
+    return Storage.get<PriceWatch>(this.key(id));
+  }
+
+  /**
+   * A visitor's watches, newest first
+   */
+  static async list(visitorId: string): Promise<PriceWatch[]> {
+    const watches: PriceWatch[] = [];
+    for (const key of await Storage.keys(this.KEY_PREFIX)) {
+      const watch = await Storage.get<PriceWatch>(key);
+      if (watch?.visitorId === visitorId) watches.push(watch);
+    }
+    return watches.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Delete one of a visitor's watches; false when it doesn't exist or isn't theirs.
+   * Its queued check finds nothing and ends the schedule.
+   */
+  static async delete(visitorId: string, id: string): Promise<boolean> {
+    const watch = await this.get(id);
+    if (!watch || watch.visitorId !== visitorId) return false;
+    await Storage.delete(this.key(id));
+    return true;
+  }
+
+  /**
+   * Delete every watch a visitor has
+   */
+  static async forgetVisitor(visitorId: string): Promise<number> {
+    const watches = await this.list(visitorId);
+    for (const watch of watches) {
+      await Storage.delete(this.key(watch.id));
+    }
+    return watches.length;
+  }
+
+  /**
+   * Price a watch now, notify its visitor when the fare reached the target or the
+   * recommendation flipped to BUY_NOW, and store what was found. When delivery fails the
+   * watch isn't updated, so the retried job sends the alert again.
+   */
+  static async checkWatch(id: string, now: Date = new Date()): Promise<PriceWatchCheck | null> {
+    const watch = await this.get(id);
+    if (!watch || watch.status !== 'active') return null;
+
+    const dates = this.getDepartureDates(watch, now);
+    if (dates.length === 0) {
+      await this.save(watch, { status: 'expired' });
+      console.log(`Price watch ${watch.id} expired`);
+      return null;
+    }
+
+    let best: { departureDate: string; returnDate?: string; provider: string; offerPrices: number[] } | null = null;
+    let quotaError: QuotaExceededError | undefined;
+    for (const { departureDate, returnDate } of dates) {
+      const { provider, offers, quotaExceeded } = await ProviderRegistry.search({
+        origin: watch.origin,
+        destination: watch.destination,
+        departureDate,
+        returnDate,
+        adults: watch.passengers,
+        currency: watch.currency,
+        directOnly: watch.directOnly,
+        maxResults: 10
+      }, undefined, { bypassCache: true });
+      quotaError = quotaError || quotaExceeded;
+      // Alerts go to real people, so estimated prices never count as a fare
+      if (provider === 'mock') continue;
+      if (offers.length > 0 && (!best || offers[0].price < best.offerPrices[0])) {
+        best = { departureDate, returnDate, provider, offerPrices: offers.map(offer => offer.price) };
+      }
+    }
+
+    // A live provider that's out of quota fails the check so the job retries once it
+    // resets, rather than re-pricing the watch from estimates
+    if (quotaError && !best) {
+      await this.save(watch, { lastError: quotaError.message });
+      throw quotaError;
+    }
+
+    if (!best) {
+      const message = `No live fare for ${watch.origin}-${watch.destination}`;
+      await this.save(watch, { lastError: message });
+      throw new Error(message);
+    }
+
+    const price = best.offerPrices[0];
+    const prediction = await PredictionEngine.predict({
+      currentPrice: price,
+      origin: watch.origin,
+      destination: watch.destination,
+      departureDate: best.departureDate,
+      currency: watch.currency,
+      audit: {
+        source: 'price-watch',
+        visitorId: watch.visitorId,
+        pricing: { provider: best.provider, price, offerPrices: best.offerPrices }
+      }
+    });
+
+    const reachedTarget = watch.targetPrice !== undefined && price <= watch.targetPrice;
+    const droppedFurther = watch.lastAlertPrice === undefined || price < watch.lastAlertPrice;
+    const reason: PriceAlert['reason'] | null =
+      reachedTarget && droppedFurther ? 'PRICE_DROP' :
+      prediction.recommendation === 'BUY_NOW' && watch.lastRecommendation === 'WAIT' ? 'BUY_NOW' : null;
+
+    const triggeredAt = now.toISOString();
+    if (reason) {
+      const alert: PriceAlert = {
+        watchId: watch.id,
+        reason,
+        origin: watch.origin,
+        destination: watch.destination,
+        departureDate: best.departureDate,
+        returnDate: best.returnDate,
+        price,
+        currency: watch.currency,
+        previousPrice: watch.lastPrice,
+        targetPrice: watch.targetPrice,
+        recommendation: prediction.recommendation,
+        predictionId: prediction.predictionId,
+        provider: best.provider,
+        triggeredAt
+      };
+      try {
+        await NotifierRegistry.send(watch.notify.channel, watch.notify.target, alert);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.save(watch, { lastError: `Notification failed: ${message}` });
+        throw error;
+      }
+      console.log(`Sent ${reason} alert for price watch ${watch.id} via ${watch.notify.channel}`);
+    }
+
+    await this.save(watch, {
+      lastCheckedAt: triggeredAt,
+      lastPrice: price,
+      lastDepartureDate: best.departureDate,
+      lastRecommendation: prediction.recommendation,
+      lastPredictionId: prediction.predictionId,
+      lastProvider: best.provider,
+      lowestPrice: Math.min(price, watch.lowestPrice ?? price),
+      lastAlertPrice: reason === 'PRICE_DROP' ? price : reachedTarget ? watch.lastAlertPrice : undefined,
+      lastError: undefined,
+      alerts: reason
+        ? [...watch.alerts, { reason, price, departureDate: best.departureDate, triggeredAt }].slice(-this.MAX_ALERTS_KEPT)
+        : watch.alerts
+    });
+
+    return {
+      watchId: watch.id,
+      price,
+      departureDate: best.departureDate,
+      recommendation: prediction.recommendation,
+      provider: best.provider,
+      alert: reason
+    };
+  }
+
+  /**
+   * Queue the watch's next check. Checks run on a fixed grid from the watch's creation
+   * time, so a retried job and the regular schedule queue the same job id.
+   */
+  static async scheduleCheck(watch: PriceWatch, after: Date = new Date()): Promise<void> {
+    const intervalMs = this.getCheckIntervalMs();
+    const createdAt = new Date(watch.createdAt).getTime();
+    const elapsed = after.getTime() - createdAt;
+    const slot = createdAt + (elapsed <= 0 ? 0 : Math.floor(elapsed / intervalMs) + 1) * intervalMs;
+
+    await JobQueue.enqueue(this.CHECK_JOB, { watchId: watch.id }, {
+      id: `${this.CHECK_JOB}-${watch.id}-${slot}`,
+      runAt: new Date(slot)
+    });
+  }
+
+  // Departure (and return) dates to price: the fixed date, or up to MAX_FLEXIBLE_DATES
+  // evenly spread over what's left of the window
+  private static getDepartureDates(watch: PriceWatch, now: Date): Array<{ departureDate: string; returnDate?: string }> {
+    const today = now.toISOString().split('T')[0];
+    if (watch.departureDate) {
+      return watch.departureDate >= today ? [{ departureDate: watch.departureDate, returnDate: watch.returnDate }] : [];
+    }
+
+    const window = watch.flexibleWindow!;
+    const start = window.earliestDeparture > today ? window.earliestDeparture : today;
+    if (start > window.latestDeparture) return [];
+
+    const span = this.daysBetween(start, window.latestDeparture);
+    const count = Math.min(span + 1, this.MAX_FLEXIBLE_DATES);
+    const dates = new Set<string>();
+    for (let i = 0; i < count; i++) {
+      dates.add(this.addDays(start, count === 1 ? 0 : Math.round((i * span) / (count - 1))));
+    }
+
+    return Array.from(dates).map(departureDate => ({
+      departureDate,
+      returnDate: window.tripLengthDays ? this.addDays(departureDate, window.tripLengthDays) : undefined
+    }));
+  }
+
+  private static async save(watch: PriceWatch, changes: Partial<PriceWatch>): Promise<void> {
+    if (!await this.get(watch.id)) return; // Deleted while it was being checked
+    await Storage.update<PriceWatch>(this.key(watch.id), current => ({
+      ...(current || watch),
+      ...changes,
+      updatedAt: new Date().toISOString()
+    }));
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static isDate(value: unknown): value is string {
+    return typeof value === 'string' && this.DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+  }
+
+  private static addDays(date: string, days: number): string {
+    return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * this.DAY_MS).toISOString().split('T')[0];
+  }
+
+  private static daysBetween(from: string, to: string): number {
+    return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / this.DAY_MS);
+  }
+
+  private static key(id: string): string {
+    return `${this.KEY_PREFIX}${id}`;
+  }
+}
+
+JobQueue.registerHandler<{ watchId: string }>(PriceWatchService.CHECK_JOB, async payload => {
+  const watch = await PriceWatchService.get(payload.watchId);
+  if (!watch || watch.status !== 'active') return null; // Deleted, expired or unconfirmed: no schedule
+
+  // Queue the next check first, so a failing check doesn't end the schedule
+  await PriceWatchService.scheduleCheck(watch);
+  return PriceWatchService.checkWatch(payload.watchId);
+});
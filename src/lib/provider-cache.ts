@@ -0,0 +1,249 @@
+// Provider Cache - one cache in front of every provider call (flight searches, airport lookups).
+// Entries are keyed on the provider and the normalized request, stay fresh for the provider's
+// TTL, and are then served stale for a while longer as a background refresh replaces them.
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { JsonFileStorageBackend, MemoryStorageBackend, StorageBackend } from './storage';
+import { RequestCoalescer, stableStringify } from './request-coalescer';
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS' | 'BYPASS';
+
+export interface CachePolicy {
+  ttlSeconds: number; // Served as fresh for this long; 0 turns caching off for the provider
+  staleSeconds: number; // Then served stale (and refreshed in the background) for this long
+}
+
+export interface ProviderCacheConfig {
+  backend?: 'memory' | 'file';
+  directory?: string; // File backend location (default ".cache/providers")
+  policies?: { [provider: string]: Partial<CachePolicy> }; // "default" applies to every provider
+}
+
+export interface CachedResult<T> {
+  value: T;
+  status: CacheStatus;
+  storedAt?: string; // When the served value was fetched
+  degradedReason?: string; // Why an expired value was served instead of a fresh one
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: string;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export class ProviderCache {
+  private static backend: StorageBackend | null = null;
+  private static config: ProviderCacheConfig | null = null;
+  private static writesSincePrune = 0;
+  private static readonly PRUNE_EVERY_WRITES = 200;
+  // Expired entries are kept this long as a fallback for when a provider can't be called
+  private static readonly EXPIRED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+  private static readonly DEFAULT_POLICY: CachePolicy = { ttlSeconds: 10 * 60, staleSeconds: 60 * 60 };
+  private static readonly DEFAULT_POLICIES: { [provider: string]: Partial<CachePolicy> } = {
+    mock: { ttlSeconds: 24 * 60 * 60, staleSeconds: 0 }, // Estimates only change with the route profile
+    airports: { ttlSeconds: 24 * 60 * 60, staleSeconds: 7 * 24 * 60 * 60 } // Reference data
+  };
+
+  /**
+   * Serve a provider call from the cache. A fresh entry is returned as is; a stale one is
+   * returned while it's refetched in the background; otherwise the fetcher runs and its
+   * result is stored when shouldCache allows (e.g. not empty results). Concurrent misses
+   * for the same entry share one fetch, which is cancelled only when every caller waiting on
+   * it has cancelled. When the fetch fails with an error that serveExpiredOnError accepts
+   * (e.g. a used-up quota), an expired entry is served instead.
+   */
+  static async getOrFetch<T>(
+    provider: string,
+    request: unknown,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    options: {
+      shouldCache?: (value: T) => boolean;
+      bypass?: boolean;
+      serveExpiredOnError?: (error: unknown) => boolean;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<CachedResult<T>> {
+    const policy = this.getPolicy(provider);
+    if (options.bypass || policy.ttlSeconds <= 0) {
+      return { value: await fetcher(options.signal), status: 'BYPASS' };
+    }
+
+    const key = this.key(provider, request);
+    const entry = await this.read<T>(key);
+    const now = Date.now();
+
+    if (entry && now < entry.freshUntil) {
+      return { value: entry.value, status: 'HIT', storedAt: entry.storedAt };
+    }
+    if (entry && now < entry.staleUntil) {
+      this.refreshInBackground(key, policy, fetcher, options.shouldCache);
+      return { value: entry.value, status: 'STALE', storedAt: entry.storedAt };
+    }
+
+    try {
+      const value = await this.fetchAndStore(key, policy, fetcher, options.shouldCache, options.signal);
+      return { value, status: 'MISS', storedAt: new Date().toISOString() };
+    } catch (error) {
+      if (!entry || options.signal?.aborted || !options.serveExpiredOnError?.(error)) throw error;
+      const degradedReason = error instanceof Error ? error.message : String(error);
+      console.log(`Serving expired ${provider} cache entry from ${entry.storedAt}: ${degradedReason}`);
+      return { value: entry.value, status: 'STALE', storedAt: entry.storedAt, degradedReason };
+    }
+  }
+
+  /**
+   * TTLs for a provider: built-in defaults, overridden by the config's "default" and
+   * provider entries
+   */
+  static getPolicy(provider: string): CachePolicy {
+    const policies = this.getConfig().policies || {};
+    return {
+      ...this.DEFAULT_POLICY,
+      ...this.DEFAULT_POLICIES[provider],
+      ...policies.default,
+      ...policies[provider]
+    };
+  }
+
+  /**
+   * Drop cached responses for one provider, or everything
+   */
+  static async clear(provider?: string): Promise<void> {
+    const backend = this.getBackend();
+    for (const key of await backend.keys(provider ? `${provider}/` : '')) {
+      await backend.delete(key);
+    }
+  }
+
+  /**
+   * Replace the configuration (e.g. from a test); also resets the backend
+   */
+  static configure(config: ProviderCacheConfig): void {
+    this.config = config;
+    this.backend = null;
+  }
+
+  /**
+   * Swap the backend (e.g. a fresh in-memory store for a script)
+   */
+  static useBackend(backend: StorageBackend): void {
+    this.backend = backend;
+  }
+
+  /**
+   * Active backend. In memory unless PROVIDER_CACHE_BACKEND (or the config) says "file",
+   * which survives restarts and is shared by processes on the same disk.
+   */
+  private static getBackend(): StorageBackend {
+    if (!this.backend) {
+      const config = this.getConfig();
+      if (config.backend === 'file') {
+        this.backend = new JsonFileStorageBackend(path.resolve(config.directory || '.cache/providers'));
+      } else {
+        if (config.backend && config.backend !== 'memory') {
+          console.warn(`Unknown provider cache backend "${config.backend}", using memory`);
+        }
+        this.backend = new MemoryStorageBackend();
+      }
+      console.log(`Using ${this.backend.name} provider cache`);
+    }
+    return this.backend;
+  }
+
+  // Read from the JSON file named by PROVIDER_CACHE_CONFIG, with PROVIDER_CACHE_BACKEND and
+  // PROVIDER_CACHE_DIR taking precedence
+  private static getConfig(): ProviderCacheConfig {
+    if (this.config) return this.config;
+
+    let config: ProviderCacheConfig = {};
+    const configPath = process.env.PROVIDER_CACHE_CONFIG;
+    if (configPath) {
+      try {
+        config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      } catch (error) {
+        console.error(`Failed to read provider cache config from ${configPath}, using defaults:`, error);
+      }
+    }
+    if (process.env.PROVIDER_CACHE_BACKEND) config.backend = process.env.PROVIDER_CACHE_BACKEND as ProviderCacheConfig['backend'];
+    if (process.env.PROVIDER_CACHE_DIR) config.directory = process.env.PROVIDER_CACHE_DIR;
+
+    this.config = config;
+    return config;
+  }
+
+  // Misses and background refreshes of one entry run as a single coalesced fetch; a
+  // background refresh has no caller to cancel it, so it keeps the fetch going
+  private static fetchAndStore<T>(
+    key: string,
+    policy: CachePolicy,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    shouldCache?: (value: T) => boolean,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return RequestCoalescer.run(`provider-cache/${key}`, async sharedSignal => {
+      const value = await fetcher(sharedSignal);
+      if (!shouldCache || shouldCache(value)) {
+        await this.write(key, policy, value);
+      }
+      return value;
+    }, signal);
+  }
+
+  private static refreshInBackground<T>(
+    key: string,
+    policy: CachePolicy,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    shouldCache?: (value: T) => boolean
+  ): void {
+    this.fetchAndStore(key, policy, fetcher, shouldCache)
+      .catch(error => console.error(`Background refresh of ${key} failed, serving stale until it expires:`, error));
+  }
+
+  // A cache that can't be read behaves like an empty one
+  private static async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      return await this.getBackend().get<CacheEntry<T>>(key);
+    } catch (error) {
+      console.error(`Failed to read provider cache entry ${key}:`, error);
+      return null;
+    }
+  }
+
+  private static async write<T>(key: string, policy: CachePolicy, value: T): Promise<void> {
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      value,
+      storedAt: new Date(now).toISOString(),
+      freshUntil: now + policy.ttlSeconds * 1000,
+      staleUntil: now + (policy.ttlSeconds + policy.staleSeconds) * 1000
+    };
+
+    try {
+      await this.getBackend().set(key, entry);
+      if (++this.writesSincePrune >= this.PRUNE_EVERY_WRITES) {
+        this.writesSincePrune = 0;
+        await this.prune(now);
+      }
+    } catch (error) {
+      console.error(`Failed to write provider cache entry ${key}:`, error);
+    }
+  }
+
+  // Remove entries too old to be served even as a fallback
+  private static async prune(now: number): Promise<void> {
+    const backend = this.getBackend();
+    for (const key of await backend.keys()) {
+      const entry = await backend.get<CacheEntry<unknown>>(key);
+      if (!entry || entry.staleUntil + this.EXPIRED_RETENTION_MS <= now) await backend.delete(key);
+    }
+  }
+
+  // provider/<hash of the request with its keys sorted>, so equal requests share an entry
+  private static key(provider: string, request: unknown): string {
+    const hash = crypto.createHash('sha256').update(stableStringify(request)).digest('hex').slice(0, 32);
+    return `${provider}/${hash}`;
+  }
+}
@@ -0,0 +1,180 @@
+// Provider Fixtures - records real provider responses to JSON files and replays them, so the
+// parsing, aggregation and prediction code can be developed and tested offline against real
+// payloads. PROVIDER_FIXTURES=record saves every upstream response under PROVIDER_FIXTURES_DIR
+// (default "fixtures/providers"); PROVIDER_FIXTURES=replay serves the saved responses instead
+// of calling out. API tokens and auth headers never reach the files or the fixture key, so
+// recordings made with credentials replay without them.
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { stableStringify } from './request-coalescer';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface ProviderFixture {
+  provider: string;
+  label: string; // Endpoint path or SDK operation, e.g. "v1/prices/latest"
+  request: unknown; // What was asked, without secrets
+  recordedAt: string;
+  status: number;
+  headers?: { [key: string]: string };
+  body?: unknown; // Parsed JSON body
+  text?: string; // Raw body, when it isn't JSON
+}
+
+// Thrown in replay mode for a request nobody recorded; not retried, so the chain moves on
+export class MissingFixtureError extends Error {
+  constructor(readonly provider: string, readonly file: string) {
+    super(`No recorded ${provider} response for this request (expected ${file}); record one with PROVIDER_FIXTURES=record`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+export class ProviderFixtures {
+  private static readonly SECRET_PARAMS = ['token', 'key', 'apikey', 'api_key', 'access_token', 'client_secret'];
+  private static readonly KEPT_HEADERS = ['content-type', 'retry-after'];
+  private static mode: FixtureMode | null = null;
+  private static directory: string | null = null;
+
+  /**
+   * Active mode, from PROVIDER_FIXTURES unless configured. Replay is refused in production,
+   * where it would show recorded prices as live ones.
+   */
+  static getMode(): FixtureMode {
+    if (this.mode) return this.mode;
+
+    let mode = (process.env.PROVIDER_FIXTURES || 'off') as FixtureMode;
+    if (!['off', 'record', 'replay'].includes(mode)) {
+      console.warn(`Unknown PROVIDER_FIXTURES mode "${mode}", fixtures are off`);
+      mode = 'off';
+    }
+    if (mode === 'replay' && process.env.NODE_ENV === 'production') {
+      console.warn('Ignoring PROVIDER_FIXTURES=replay in production');
+      mode = 'off';
+    }
+    if (mode !== 'off') console.log(`Provider fixtures: ${mode} (${this.getDirectory()})`);
+
+    this.mode = mode;
+    return mode;
+  }
+
+  /**
+   * Override the mode and directory (e.g. from a script or a test)
+   */
+  static configure(options: { mode: FixtureMode; directory?: string }): void {
+    this.mode = options.mode;
+    this.directory = options.directory ? path.resolve(options.directory) : null;
+  }
+
+  static getDirectory(): string {
+    if (!this.directory) this.directory = path.resolve(process.env.PROVIDER_FIXTURES_DIR || 'fixtures/providers');
+    return this.directory;
+  }
+
+  static isRecording(): boolean {
+    return this.getMode() === 'record';
+  }
+
+  /**
+   * Whether responses come from fixtures; providers count as configured without credentials
+   */
+  static isReplaying(): boolean {
+    return this.getMode() === 'replay';
+  }
+
+  /**
+   * Send an HTTP request the way the mode says: straight through, through and saved, or
+   * answered from the saved response. This is ProviderHttpClient's default transport.
+   */
+  static async send(provider: string, url: string, init: RequestInit): Promise<Response> {
+    const mode = this.getMode();
+    if (mode === 'off') return fetch(url, init);
+
+    const parsed = new URL(url);
+    const label = parsed.pathname.replace(/^\/+/, '') || 'root';
+    const request = { method: init.method || 'GET', url: this.redactUrl(parsed) };
+
+    if (mode === 'replay') {
+      const fixture = await this.read(provider, label, request);
+      const body = fixture.text ?? JSON.stringify(fixture.body ?? null);
+      return new Response(body, { status: fixture.status, headers: fixture.headers });
+    }
+
+    const response = await fetch(url, init);
+    const text = await response.text();
+    const headers: { [key: string]: string } = {};
+    for (const name of this.KEPT_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) headers[name] = value;
+    }
+    await this.write({ provider, label, request, recordedAt: new Date().toISOString(), status: response.status, headers, ...this.parseBody(text) });
+    return new Response(text, { status: response.status, headers });
+  }
+
+  /**
+   * Saved response for a request
+   */
+  static async read(provider: string, label: string, request: unknown): Promise<ProviderFixture> {
+    const file = this.fileFor(provider, label, request);
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf8')) as ProviderFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new MissingFixtureError(provider, path.relative(process.cwd(), file));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save a response; failures are logged, never passed on to the call being recorded
+   */
+  static async write(fixture: ProviderFixture): Promise<void> {
+    const file = this.fileFor(fixture.provider, fixture.label, fixture.request);
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+      console.log(`Recorded ${fixture.provider} ${fixture.label} (${fixture.status}) to ${path.relative(process.cwd(), file)}`);
+    } catch (error) {
+      console.error(`Failed to record ${fixture.provider} fixture ${file}:`, error);
+    }
+  }
+
+  /**
+   * Recorded fixture files, for one provider or all
+   */
+  static async list(provider?: string): Promise<string[]> {
+    const root = this.getDirectory();
+    const providers = provider ? [provider] : await fs.promises.readdir(root).catch(() => [] as string[]);
+    const files: string[] = [];
+    for (const name of providers) {
+      const entries = await fs.promises.readdir(path.join(root, name)).catch(() => [] as string[]);
+      files.push(...entries.filter(entry => entry.endsWith('.json')).map(entry => path.join(root, name, entry)));
+    }
+    return files.sort();
+  }
+
+  // <provider>/<label>-<hash of label and request>.json; the label keeps the files browsable
+  private static fileFor(provider: string, label: string, request: unknown): string {
+    const hash = crypto.createHash('sha256').update(stableStringify({ label, request })).digest('hex').slice(0, 16);
+    const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return path.join(this.getDirectory(), provider, `${slug}-${hash}.json`);
+  }
+
+  // Query parameters sorted with credentials dropped, so the same request always gives the same URL
+  private static redactUrl(url: URL): string {
+    const params = Array.from(url.searchParams.entries())
+      .filter(([name]) => !this.SECRET_PARAMS.includes(name.toLowerCase()))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    return `${url.origin}${url.pathname}${query ? `?${query}` : ''}`;
+  }
+
+  private static parseBody(text: string): { body?: unknown; text?: string } {
+    try {
+      return { body: JSON.parse(text) };
+    } catch {
+      return { text };
+    }
+  }
+}
@@ -0,0 +1,184 @@
+// Provider Health - rolling record of recent calls per provider, used to skip unhealthy sources
+
+export interface ProviderHealthConfig {
+  windowSize: number; // How many recent calls to remember per provider
+  failureThreshold: number; // Consecutive failures before a provider is skipped
+  maxFailureRate: number; // 0-1, failure rate over the window that marks a provider unhealthy
+  maxAverageLatencyMs: number; // Average latency of the most recent calls that marks a provider unhealthy
+  cooldownMs: number; // How long an unhealthy provider is skipped before it is tried again
+}
+
+export interface ProviderCallOutcome {
+  success: boolean;
+  latencyMs: number;
+  timestamp: number;
+  error?: string;
+}
+
+export interface ProviderHealthStatus {
+  provider: string;
+  healthy: boolean;
+  reason?: string;
+  totalCalls: number;
+  recentFailures: number;
+  consecutiveFailures: number;
+  failureRate: number;
+  averageLatencyMs: number;
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  skippedUntil?: string;
+}
+
+export const DEFAULT_HEALTH_CONFIG: ProviderHealthConfig = {
+  windowSize: 20,
+  failureThreshold: 3,
+  maxFailureRate: 0.5,
+  maxAverageLatencyMs: 10000,
+  cooldownMs: 60 * 1000
+};
+
+export class ProviderHealthTracker {
+  private static outcomes: Map<string, ProviderCallOutcome[]> = new Map();
+  private static skippedUntil: Map<string, number> = new Map();
+  private static totals: Map<string, number> = new Map();
+  private static config: ProviderHealthConfig = { ...DEFAULT_HEALTH_CONFIG };
+
+  /**
+   * Override thresholds (missing fields keep their defaults)
+   */
+  static configure(config: Partial<ProviderHealthConfig>): void {
+    this.config = { ...DEFAULT_HEALTH_CONFIG, ...config };
+  }
+
+  static getConfig(): ProviderHealthConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Record a successful provider call
+   */
+  static recordSuccess(provider: string, latencyMs: number): void {
+    this.record(provider, { success: true, latencyMs, timestamp: Date.now() });
+  }
+
+  /**
+   * Record a failed provider call
+   */
+  static recordFailure(provider: string, latencyMs: number, error: unknown): void {
+    this.record(provider, {
+      success: false,
+      latencyMs,
+      timestamp: Date.now(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  /**
+   * Whether the provider should be tried. An unhealthy provider is skipped until its
+   * cooldown ends, then gets one trial call (half-open) before being skipped again.
+   */
+  static isAvailable(provider: string, now: number = Date.now()): boolean {
+    const until = this.skippedUntil.get(provider);
+    return !until || now >= until;
+  }
+
+  /**
+   * Health snapshot for one provider
+   */
+  static getStatus(provider: string, now: number = Date.now()): ProviderHealthStatus {
+    const outcomes = this.outcomes.get(provider) || [];
+    const failures = outcomes.filter(o => !o.success);
+    const lastSuccess = [...outcomes].reverse().find(o => o.success);
+    const lastFailure = [...failures].reverse()[0];
+    const until = this.skippedUntil.get(provider);
+    const unhealthyReason = this.getUnhealthyReason(outcomes);
+
+    return {
+      provider,
+      healthy: !unhealthyReason,
+      reason: unhealthyReason || undefined,
+      totalCalls: this.totals.get(provider) || 0,
+      recentFailures: failures.length,
+      consecutiveFailures: this.countConsecutiveFailures(outcomes),
+      failureRate: outcomes.length > 0 ? Math.round((failures.length / outcomes.length) * 100) / 100 : 0,
+      averageLatencyMs: this.averageLatency(outcomes),
+      lastError: lastFailure?.error,
+      lastSuccessAt: lastSuccess ? new Date(lastSuccess.timestamp).toISOString() : undefined,
+      lastFailureAt: lastFailure ? new Date(lastFailure.timestamp).toISOString() : undefined,
+      skippedUntil: until && until > now ? new Date(until).toISOString() : undefined
+    };
+  }
+
+  /**
+   * Clear recorded outcomes (all providers when no id is given)
+   */
+  static reset(provider?: string): void {
+    if (provider) {
+      this.outcomes.delete(provider);
+      this.skippedUntil.delete(provider);
+      this.totals.delete(provider);
+    } else {
+      this.outcomes.clear();
+      this.skippedUntil.clear();
+      this.totals.clear();
+    }
+  }
+
+  private static record(provider: string, outcome: ProviderCallOutcome): void {
+    const outcomes = this.outcomes.get(provider) || [];
+    outcomes.push(outcome);
+    while (outcomes.length > this.config.windowSize) {
+      outcomes.shift();
+    }
+    this.outcomes.set(provider, outcomes);
+    this.totals.set(provider, (this.totals.get(provider) || 0) + 1);
+
+    const reason = this.getUnhealthyReason(outcomes);
+    if (reason) {
+      this.skippedUntil.set(provider, outcome.timestamp + this.config.cooldownMs);
+      console.log(`Provider ${provider} marked unhealthy (${reason}), skipping for ${this.config.cooldownMs}ms`);
+    } else {
+      this.skippedUntil.delete(provider);
+    }
+  }
+
+  private static getUnhealthyReason(outcomes: ProviderCallOutcome[]): string | null {
+    if (outcomes.length === 0) return null;
+
+    const consecutiveFailures = this.countConsecutiveFailures(outcomes);
+    if (consecutiveFailures >= this.config.failureThreshold) {
+      return `${consecutiveFailures} consecutive failures`;
+    }
+
+    // Rate and latency checks need a few samples before they mean anything
+    if (outcomes.length < this.config.failureThreshold) return null;
+
+    // A flaky provider is only dropped when it has just failed again, so a
+    // successful trial call after the cooldown brings it back
+    const failureRate = outcomes.filter(o => !o.success).length / outcomes.length;
+    if (consecutiveFailures > 0 && failureRate >= this.config.maxFailureRate) {
+      return `failure rate ${Math.round(failureRate * 100)}%`;
+    }
+
+    const recentLatency = this.averageLatency(outcomes.slice(-this.config.failureThreshold));
+    if (recentLatency > this.config.maxAverageLatencyMs) {
+      return `average latency ${recentLatency}ms`;
+    }
+
+    return null;
+  }
+
+  private static countConsecutiveFailures(outcomes: ProviderCallOutcome[]): number {
+    let count = 0;
+    for (let i = outcomes.length - 1; i >= 0 && !outcomes[i].success; i--) {
+      count++;
+    }
+    return count;
+  }
+
+  private static averageLatency(outcomes: ProviderCallOutcome[]): number {
+    if (outcomes.length === 0) return 0;
+    return Math.round(outcomes.reduce((sum, o) => sum + o.latencyMs, 0) / outcomes.length);
+  }
+}
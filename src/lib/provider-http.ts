@@ -0,0 +1,247 @@
+// Provider HTTP Client - every upstream provider call (fetch or SDK) goes through here, so it
+// has a deadline, is retried with exponential backoff and jitter on 429/5xx and network errors,
+// stops as soon as the incoming request is cancelled, and fails with a ProviderRequestError
+// that says what went wrong.
+import { ProviderFixtures } from './provider-fixtures';
+import { ProviderRateLimiter } from './provider-rate-limit';
+
+export type ProviderErrorKind = 'timeout' | 'rate-limited' | 'auth' | 'bad-response' | 'network' | 'aborted';
+
+export interface ProviderHttpConfig {
+  timeoutMs: number; // Deadline for the whole call, retries included
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // Backoff before the first retry; doubles for each one after
+  maxDelayMs: number; // Backoff cap (a Retry-After header may ask for longer)
+}
+
+// Sends one HTTP request; fetch plus the provider it's for
+export type HttpTransport = (provider: string, url: string, init: RequestInit) => Promise<Response>;
+
+export interface ProviderCallOptions extends Partial<ProviderHttpConfig> {
+  signal?: AbortSignal; // Cancels the call (e.g. the incoming request's signal)
+}
+
+export class ProviderRequestError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly kind: ProviderErrorKind,
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+
+  /**
+   * Whether another attempt could succeed
+   */
+  get retryable(): boolean {
+    return this.kind === 'rate-limited' || this.kind === 'network' || (this.kind === 'bad-response' && (this.status ?? 0) >= 500);
+  }
+}
+
+export class ProviderTimeoutError extends ProviderRequestError {
+  constructor(provider: string, readonly timeoutMs: number) {
+    super(provider, 'timeout', `${provider} did not respond within ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+export class ProviderRateLimitedError extends ProviderRequestError {
+  constructor(provider: string, readonly retryAfterMs?: number) {
+    super(provider, 'rate-limited', `${provider} is rate limiting us${retryAfterMs !== undefined ? ` (retry after ${retryAfterMs}ms)` : ''}`, 429);
+    this.name = 'ProviderRateLimitedError';
+  }
+}
+
+export class ProviderAuthError extends ProviderRequestError {
+  constructor(provider: string, status?: number) {
+    super(provider, 'auth', `${provider} rejected our credentials${status ? ` (${status})` : ''}`, status);
+    this.name = 'ProviderAuthError';
+  }
+}
+
+export class ProviderBadResponseError extends ProviderRequestError {
+  constructor(provider: string, message: string, status?: number) {
+    super(provider, 'bad-response', `${provider} ${message}`, status);
+    this.name = 'ProviderBadResponseError';
+  }
+}
+
+export class ProviderNetworkError extends ProviderRequestError {
+  constructor(provider: string, cause: unknown) {
+    super(provider, 'network', `${provider} could not be reached: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'ProviderNetworkError';
+  }
+}
+
+// The caller cancelled; not the provider's fault, so it doesn't count against its health
+export class ProviderAbortedError extends ProviderRequestError {
+  constructor(provider: string) {
+    super(provider, 'aborted', `${provider} call was cancelled`);
+    this.name = 'ProviderAbortedError';
+  }
+}
+
+export class ProviderHttpClient {
+  private static readonly DEFAULT_CONFIG: ProviderHttpConfig = {
+    timeoutMs: 8000,
+    maxRetries: 2,
+    baseDelayMs: 300,
+    maxDelayMs: 3000
+  };
+
+  private static overrides: { [provider: string]: Partial<ProviderHttpConfig> } = {};
+  private static transport: HttpTransport | null = null;
+
+  /**
+   * Override timeouts and retries per provider ("default" applies to every provider)
+   */
+  static configure(overrides: { [provider: string]: Partial<ProviderHttpConfig> }): void {
+    this.overrides = { ...overrides };
+  }
+
+  /**
+   * Swap how requests are sent (e.g. a stub in a test); null restores the default, which
+   * records or replays provider fixtures when PROVIDER_FIXTURES says so
+   */
+  static useTransport(transport: HttpTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Settings for a provider: built-in defaults, PROVIDER_HTTP_TIMEOUT_MS and
+   * PROVIDER_HTTP_MAX_RETRIES, then the configured "default" and provider entries
+   */
+  static getConfig(provider: string): ProviderHttpConfig {
+    const fromEnv: Partial<ProviderHttpConfig> = {};
+    if (process.env.PROVIDER_HTTP_TIMEOUT_MS) fromEnv.timeoutMs = parseInt(process.env.PROVIDER_HTTP_TIMEOUT_MS, 10);
+    if (process.env.PROVIDER_HTTP_MAX_RETRIES) fromEnv.maxRetries = parseInt(process.env.PROVIDER_HTTP_MAX_RETRIES, 10);
+    return { ...this.DEFAULT_CONFIG, ...fromEnv, ...this.overrides.default, ...this.overrides[provider] };
+  }
+
+  /**
+   * Run a provider call under the provider's deadline and retry policy. The operation gets
+   * a signal for the current attempt; operations that can't take one (SDK calls) are
+   * abandoned when it fires. Errors other than ProviderRequestError are passed through
+   * without retrying.
+   */
+  static async call<T>(
+    provider: string,
+    operation: (signal: AbortSignal) => Promise<T>,
+    options: ProviderCallOptions = {}
+  ): Promise<T> {
+    const { signal, ...overrides } = options;
+    const config = { ...this.getConfig(provider), ...overrides };
+    const deadline = Date.now() + config.timeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw new ProviderAbortedError(provider);
+      if (Date.now() >= deadline) throw new ProviderTimeoutError(provider, config.timeoutMs);
+
+      try {
+        return await this.attempt(provider, operation, deadline, config.timeoutMs, signal);
+      } catch (error) {
+        if (!(error instanceof ProviderRequestError) || !error.retryable || attempt >= config.maxRetries) throw error;
+
+        const backoffMs = Math.random() * Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+        const delayMs = Math.max(backoffMs, error instanceof ProviderRateLimitedError ? error.retryAfterMs ?? 0 : 0);
+        if (Date.now() + delayMs >= deadline) throw error; // No time left to wait it out
+
+        console.log(`${error.message}; retry ${attempt + 1} of ${config.maxRetries} in ${Math.round(delayMs)}ms`);
+        await this.sleep(delayMs, signal);
+        // Retries reach the provider too, so they count against its rate limit and budgets
+        if (!signal?.aborted) await ProviderRateLimiter.acquireRetry(provider);
+      }
+    }
+  }
+
+  /**
+   * GET a JSON document, mapping HTTP failures onto ProviderRequestError
+   */
+  static getJson<T>(
+    provider: string,
+    url: string,
+    options: ProviderCallOptions & { headers?: { [key: string]: string } } = {}
+  ): Promise<T> {
+    const { headers, ...callOptions } = options;
+    const send: HttpTransport = this.transport || ((name, target, init) => ProviderFixtures.send(name, target, init));
+    return this.call(provider, async signal => {
+      let response: Response;
+      try {
+        response = await send(provider, url, { method: 'GET', headers: { 'Accept': 'application/json', ...headers }, signal });
+      } catch (error) {
+        // fetch fails with a TypeError when the host can't be reached; cancellations are
+        // mapped to a timeout or ProviderAbortedError by attempt()
+        if (signal.aborted || !(error instanceof TypeError)) throw error;
+        throw new ProviderNetworkError(provider, error);
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        throw new ProviderAuthError(provider, response.status);
+      }
+      if (response.status === 429) {
+        throw new ProviderRateLimitedError(provider, this.parseRetryAfter(response.headers.get('retry-after')));
+      }
+      if (!response.ok) {
+        throw new ProviderBadResponseError(provider, `responded ${response.status}`, response.status);
+      }
+
+      try {
+        return await response.json() as T;
+      } catch (error) {
+        if (signal.aborted) throw error;
+        throw new ProviderBadResponseError(provider, 'returned a body that is not JSON', response.status);
+      }
+    }, callOptions);
+  }
+
+  // One attempt, cut short by the overall deadline or the caller's signal
+  private static attempt<T>(
+    provider: string,
+    operation: (signal: AbortSignal) => Promise<T>,
+    deadline: number,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const controller = new AbortController();
+
+    return new Promise<T>((resolve, reject) => {
+      const stop = (error: ProviderRequestError) => {
+        controller.abort(error);
+        reject(error);
+      };
+      const onAbort = () => stop(new ProviderAbortedError(provider));
+      const timer = setTimeout(() => stop(new ProviderTimeoutError(provider, timeoutMs)), Math.max(0, deadline - Date.now()));
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      operation(controller.signal)
+        .then(resolve, error => reject(controller.signal.aborted ? controller.signal.reason : error))
+        .finally(() => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        });
+    });
+  }
+
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  // Retry-After is either seconds or an HTTP date
+  private static parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
@@ -0,0 +1,186 @@
+// Provider Rate Limits - a token bucket per provider to space out upstream calls, plus daily
+// and monthly request budgets. A provider that's out of quota is skipped and callers fall
+// back to cached data. Token buckets are per process. Budgets are charged in Storage, so the
+// server and the collector scripts see each other's usage, but Storage.update only locks
+// within a process: charges made at the same moment by two processes can overwrite each
+// other, so leave some headroom below the provider's real quota when several run at once.
+import { Storage } from './storage';
+import { ProviderFixtures } from './provider-fixtures';
+
+export interface ProviderLimitConfig {
+  requestsPerMinute?: number; // Token refill rate; no rate limit when missing
+  burst?: number; // Bucket size (default: a tenth of requestsPerMinute, at least 1)
+  maxWaitMs?: number; // How long a call may wait for a token before it's refused (default 2000)
+  dailyBudget?: number; // Upstream requests per UTC day
+  monthlyBudget?: number; // Upstream requests per UTC calendar month
+  costPerSearch?: number; // Upstream requests one provider search makes (default 1)
+}
+
+export interface QuotaPeriodStatus {
+  used: number;
+  budget?: number;
+  remaining?: number;
+  resetsAt: string;
+}
+
+export interface ProviderQuotaStatus {
+  provider: string;
+  limits: ProviderLimitConfig;
+  tokensAvailable?: number;
+  daily: QuotaPeriodStatus;
+  monthly: QuotaPeriodStatus;
+  exhausted: boolean;
+}
+
+// Thrown instead of calling a provider that's over its budget or rate limit
+export class QuotaExceededError extends Error {
+  constructor(readonly provider: string, message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+interface UsageDocument {
+  monthly: number;
+  daily: { [day: string]: number };
+}
+
+export class ProviderRateLimiter {
+  private static readonly KEY_PREFIX = 'provider-usage/';
+  private static readonly DEFAULT_MAX_WAIT_MS = 2000;
+  private static readonly DEFAULT_LIMITS: { [provider: string]: ProviderLimitConfig } = {
+    amadeus: { requestsPerMinute: 60, burst: 5, monthlyBudget: 2000 }, // Self-service test tier
+    aviasales: { requestsPerMinute: 60, burst: 10, costPerSearch: 2 }, // Latest prices + month matrix
+    skyscanner: { requestsPerMinute: 30, burst: 5, monthlyBudget: 500 }
+  };
+
+  private static limits: { [provider: string]: ProviderLimitConfig } = { ...this.DEFAULT_LIMITS };
+  private static buckets: Map<string, { tokens: number; updatedAt: number }> = new Map();
+
+  /**
+   * Override limits per provider (fields not given keep their defaults)
+   */
+  static configure(limits: { [provider: string]: ProviderLimitConfig }): void {
+    const merged: { [provider: string]: ProviderLimitConfig } = { ...this.DEFAULT_LIMITS };
+    for (const [provider, config] of Object.entries(limits)) {
+      merged[provider] = { ...this.DEFAULT_LIMITS[provider], ...config };
+    }
+    this.limits = merged;
+    this.buckets.clear();
+  }
+
+  static getLimits(provider: string): ProviderLimitConfig {
+    return { ...this.limits[provider] };
+  }
+
+  /**
+   * Wait for a token and charge one search against the provider's budgets. Throws
+   * QuotaExceededError when a budget is spent or no token frees up within maxWaitMs.
+   * Replayed fixtures never reach the provider, so they're free.
+   */
+  static async acquire(provider: string, now: Date = new Date()): Promise<void> {
+    const limits = this.limits[provider];
+    if (!limits || ProviderFixtures.isReplaying()) return;
+
+    await this.takeToken(provider, limits);
+    await this.charge(provider, limits, limits.costPerSearch ?? 1, now);
+  }
+
+  /**
+   * Wait for a token and charge the one request a retried call makes; throws
+   * QuotaExceededError like acquire
+   */
+  static async acquireRetry(provider: string, now: Date = new Date()): Promise<void> {
+    const limits = this.limits[provider];
+    if (!limits || ProviderFixtures.isReplaying()) return;
+
+    await this.takeToken(provider, limits);
+    await this.charge(provider, limits, 1, now);
+  }
+
+  // Add requests to today's and this month's usage, unless that would go over a budget
+  private static async charge(provider: string, limits: ProviderLimitConfig, cost: number, now: Date): Promise<void> {
+    const day = this.dayOf(now);
+    let refusal: string | null = null;
+    await Storage.update<UsageDocument>(this.key(provider, now), usage => {
+      const current = usage || { monthly: 0, daily: {} };
+      const usedToday = current.daily[day] || 0;
+      if (limits.dailyBudget !== undefined && usedToday + cost > limits.dailyBudget) {
+        refusal = `${provider} daily budget of ${limits.dailyBudget} requests is used up`;
+        return current;
+      }
+      if (limits.monthlyBudget !== undefined && current.monthly + cost > limits.monthlyBudget) {
+        refusal = `${provider} monthly budget of ${limits.monthlyBudget} requests is used up`;
+        return current;
+      }
+      return { monthly: current.monthly + cost, daily: { ...current.daily, [day]: usedToday + cost } };
+    });
+
+    if (refusal) throw new QuotaExceededError(provider, refusal);
+  }
+
+  /**
+   * Remaining tokens and budget for a provider
+   */
+  static async getStatus(provider: string, now: Date = new Date()): Promise<ProviderQuotaStatus> {
+    const limits = this.getLimits(provider);
+    const usage = await Storage.get<UsageDocument>(this.key(provider, now)) || { monthly: 0, daily: {} };
+    const cost = limits.costPerSearch ?? 1;
+
+    const nextDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    const daily = this.periodStatus(usage.daily[this.dayOf(now)] || 0, limits.dailyBudget, nextDay);
+    const monthly = this.periodStatus(usage.monthly, limits.monthlyBudget, nextMonth);
+
+    return {
+      provider,
+      limits,
+      tokensAvailable: limits.requestsPerMinute ? Math.floor(this.refill(provider, limits, now.getTime())) : undefined,
+      daily,
+      monthly,
+      exhausted: (daily.remaining !== undefined && daily.remaining < cost) || (monthly.remaining !== undefined && monthly.remaining < cost)
+    };
+  }
+
+  // Reserve a token, waiting for one to refill when the bucket is empty
+  private static async takeToken(provider: string, limits: ProviderLimitConfig): Promise<void> {
+    if (!limits.requestsPerMinute) return;
+
+    const now = Date.now();
+    const tokens = this.refill(provider, limits, now) - 1;
+    const waitMs = tokens >= 0 ? 0 : Math.ceil((-tokens / limits.requestsPerMinute) * 60 * 1000);
+    const maxWaitMs = limits.maxWaitMs ?? this.DEFAULT_MAX_WAIT_MS;
+    if (waitMs > maxWaitMs) {
+      throw new QuotaExceededError(provider, `${provider} rate limit of ${limits.requestsPerMinute} requests per minute reached`);
+    }
+
+    // Going negative holds a place in line for callers that arrive while this one waits
+    this.buckets.set(provider, { tokens, updatedAt: now });
+    if (waitMs > 0) await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+
+  private static refill(provider: string, limits: ProviderLimitConfig, now: number): number {
+    const capacity = limits.burst ?? Math.max(1, Math.floor(limits.requestsPerMinute! / 10));
+    const bucket = this.buckets.get(provider) || { tokens: capacity, updatedAt: now };
+    const refilled = bucket.tokens + ((now - bucket.updatedAt) / (60 * 1000)) * limits.requestsPerMinute!;
+    return Math.min(capacity, refilled);
+  }
+
+  private static periodStatus(used: number, budget: number | undefined, resetsAt: Date): QuotaPeriodStatus {
+    return {
+      used,
+      budget,
+      remaining: budget !== undefined ? Math.max(0, budget - used) : undefined,
+      resetsAt: resetsAt.toISOString()
+    };
+  }
+
+  private static dayOf(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  // One usage document per provider per month, holding that month's daily counts
+  private static key(provider: string, date: Date): string {
+    return `${this.KEY_PREFIX}${provider}/${date.toISOString().slice(0, 7)}`;
+  }
+}
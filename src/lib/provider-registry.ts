@@ -0,0 +1,248 @@
+// Provider Registry - single place where API routes pick a flight price source
+import fs from 'fs';
+import { amadeusProvider } from './amadeus';
+import { aviasalesProvider } from './aviasales';
+import { skyscannerProvider } from './skyscanner';
+import { mockProvider } from './mock-provider';
+import { FlightPriceProvider, NormalizedFlightOffer, NormalizedSearchRequest } from './flight-provider';
+import { ProviderHealthConfig, ProviderHealthStatus, ProviderHealthTracker } from './provider-health';
+import { CacheStatus, ProviderCache } from './provider-cache';
+import { ProviderLimitConfig, ProviderQuotaStatus, ProviderRateLimiter, QuotaExceededError } from './provider-rate-limit';
+import { ProviderAbortedError, ProviderErrorKind, ProviderHttpClient, ProviderHttpConfig, ProviderRequestError } from './provider-http';
+
+export interface ProviderAttempt {
+  provider: string;
+  status: 'served' | 'empty' | 'failed' | 'skipped';
+  latencyMs: number;
+  reason?: string;
+  errorKind?: ProviderErrorKind; // Set on failed attempts the provider reported as a ProviderRequestError
+  cache?: CacheStatus;
+}
+
+export interface ProviderSearchResult {
+  provider: string;
+  offers: NormalizedFlightOffer[];
+  attempts: ProviderAttempt[];
+  cache?: CacheStatus; // How the serving provider's offers were obtained
+  quotaExceeded?: QuotaExceededError; // First provider skipped for being out of quota
+}
+
+export interface ProviderChainConfig {
+  chain: string[];
+  health?: Partial<ProviderHealthConfig>;
+  limits?: { [provider: string]: ProviderLimitConfig }; // Rate limits and request budgets
+  http?: { [provider: string]: Partial<ProviderHttpConfig> }; // Timeouts and retries ("default" for all)
+}
+
+export class ProviderRegistry {
+  private static providers: Map<string, FlightPriceProvider> = new Map();
+  private static chainConfig: ProviderChainConfig | null = null;
+  private static readonly DEFAULT_CHAIN = ['aviasales', 'skyscanner', 'amadeus', 'mock'];
+
+  /**
+   * Register a provider (replaces any provider with the same id)
+   */
+  static register(provider: FlightPriceProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Get a provider by id
+   */
+  static getProvider(id: string): FlightPriceProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Get all registered providers in registration order
+   */
+  static getProviders(): FlightPriceProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Ordered fallback chain. Read from the JSON file named by FLIGHT_PROVIDER_CONFIG,
+   * else the comma-separated FLIGHT_PROVIDER_CHAIN, else the default order.
+   */
+  static getChain(): FlightPriceProvider[] {
+    const config = this.getChainConfig();
+    return config.chain
+      .map(id => {
+        const provider = this.providers.get(id);
+        if (!provider) console.warn(`Ignoring unknown provider in chain: ${id}`);
+        return provider;
+      })
+      .filter((provider): provider is FlightPriceProvider => !!provider);
+  }
+
+  /**
+   * Replace the chain configuration (e.g. from an admin action or a test)
+   */
+  static configureChain(config: ProviderChainConfig): void {
+    this.chainConfig = config;
+    ProviderHealthTracker.configure(config.health || {});
+    ProviderRateLimiter.configure(config.limits || {});
+    ProviderHttpClient.configure(config.http || {});
+  }
+
+  /**
+   * Search through the fallback chain, or with a single provider when one is given.
+   * The first provider that returns offers serves the request. Responses come from the
+   * provider cache unless bypassCache is set (e.g. when recording observed prices). A
+   * provider out of quota is skipped; with serveExpired, it serves its last cached offers
+   * (possibly days old) instead, which only suits interactive callers showing a price.
+   * When the signal aborts, the chain stops and ProviderAbortedError is thrown.
+   */
+  static async search(
+    request: NormalizedSearchRequest,
+    provider?: FlightPriceProvider,
+    options: { bypassCache?: boolean; serveExpired?: boolean; signal?: AbortSignal } = {}
+  ): Promise<ProviderSearchResult> {
+    this.getChainConfig(); // Make sure health thresholds from the config are applied
+    const candidates = provider ? [provider] : this.getChain();
+    const attempts: ProviderAttempt[] = [];
+    let quotaExceeded: QuotaExceededError | undefined;
+
+    for (const candidate of candidates) {
+      if (options.signal?.aborted) throw new ProviderAbortedError(candidate.id);
+      if (!candidate.isConfigured()) {
+        attempts.push({ provider: candidate.id, status: 'skipped', latencyMs: 0, reason: 'not configured' });
+        continue;
+      }
+      if (!ProviderHealthTracker.isAvailable(candidate.id)) {
+        const status = ProviderHealthTracker.getStatus(candidate.id);
+        attempts.push({ provider: candidate.id, status: 'skipped', latencyMs: 0, reason: `unhealthy: ${status.reason}` });
+        continue;
+      }
+
+      const startedAt = Date.now();
+      try {
+        const { value: offers, status: cache, degradedReason } = await ProviderCache.getOrFetch(
+          candidate.id,
+          this.toCacheRequest(request),
+          signal => this.fetchOffers(candidate, request, signal),
+          {
+            shouldCache: offers => offers.length > 0,
+            bypass: options.bypassCache,
+            serveExpiredOnError: error => !!options.serveExpired && error instanceof QuotaExceededError,
+            signal: options.signal
+          }
+        );
+        const latencyMs = Date.now() - startedAt;
+
+        if (offers.length > 0) {
+          attempts.push({ provider: candidate.id, status: 'served', latencyMs, cache, reason: degradedReason });
+          return { provider: candidate.id, offers, attempts, cache, quotaExceeded };
+        }
+        attempts.push({ provider: candidate.id, status: 'empty', latencyMs, cache });
+      } catch (error) {
+        const latencyMs = Date.now() - startedAt;
+        if (options.signal?.aborted) throw new ProviderAbortedError(candidate.id);
+        if (error instanceof QuotaExceededError) {
+          console.log(`Skipping provider ${candidate.id}: ${error.message}`);
+          quotaExceeded = quotaExceeded || error;
+          attempts.push({ provider: candidate.id, status: 'skipped', latencyMs, reason: error.message });
+          continue;
+        }
+        attempts.push({
+          provider: candidate.id,
+          status: 'failed',
+          latencyMs,
+          reason: error instanceof Error ? error.message : String(error),
+          errorKind: error instanceof ProviderRequestError ? error.kind : undefined
+        });
+        console.error(`Provider ${candidate.id} failed, trying next in chain:`, error);
+      }
+    }
+
+    console.log('No provider in the chain returned offers:', attempts);
+    return { provider: 'none', offers: [], attempts, quotaExceeded };
+  }
+
+  // Calls that reach the provider are charged to its quota and measured for its health;
+  // cache hits, calls refused by the rate limiter and cancelled calls aren't
+  private static async fetchOffers(
+    provider: FlightPriceProvider,
+    request: NormalizedSearchRequest,
+    signal?: AbortSignal
+  ): Promise<NormalizedFlightOffer[]> {
+    await ProviderRateLimiter.acquire(provider.id);
+    const startedAt = Date.now();
+    try {
+      const offers = await provider.search(request, { signal });
+      ProviderHealthTracker.recordSuccess(provider.id, Date.now() - startedAt);
+      return offers;
+    } catch (error) {
+      // A retry refused for quota isn't the provider failing
+      if (!signal?.aborted && !(error instanceof QuotaExceededError)) {
+        ProviderHealthTracker.recordFailure(provider.id, Date.now() - startedAt, error);
+      }
+      throw error;
+    }
+  }
+
+  // The request with defaults filled in and codes upper-cased, so equivalent searches share a cache entry
+  private static toCacheRequest(request: NormalizedSearchRequest) {
+    return {
+      origin: request.origin.toUpperCase(),
+      destination: request.destination.toUpperCase(),
+      departureDate: request.departureDate,
+      returnDate: request.returnDate || null,
+      adults: request.adults,
+      children: request.children || 0,
+      infants: request.infants || 0,
+      cabinClass: request.cabinClass || 'ECONOMY',
+      currency: request.currency.toUpperCase(),
+      directOnly: !!request.directOnly,
+      maxResults: request.maxResults || null
+    };
+  }
+
+  /**
+   * Health of every provider in the chain
+   */
+  static getHealth(): ProviderHealthStatus[] {
+    this.getChainConfig();
+    return this.getChain().map(provider => ProviderHealthTracker.getStatus(provider.id));
+  }
+
+  /**
+   * Remaining rate limit tokens and request budgets for every provider in the chain
+   */
+  static async getQuotas(): Promise<ProviderQuotaStatus[]> {
+    this.getChainConfig();
+    return Promise.all(this.getChain().map(provider => ProviderRateLimiter.getStatus(provider.id)));
+  }
+
+  private static getChainConfig(): ProviderChainConfig {
+    if (this.chainConfig) return this.chainConfig;
+
+    let config: ProviderChainConfig = { chain: this.DEFAULT_CHAIN };
+    const configPath = process.env.FLIGHT_PROVIDER_CONFIG;
+    if (configPath) {
+      try {
+        const fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf8')) as Partial<ProviderChainConfig>;
+        config = {
+          chain: Array.isArray(fileConfig.chain) && fileConfig.chain.length > 0 ? fileConfig.chain : this.DEFAULT_CHAIN,
+          health: fileConfig.health,
+          limits: fileConfig.limits,
+          http: fileConfig.http
+        };
+      } catch (error) {
+        console.error(`Failed to read provider config from ${configPath}, using defaults:`, error);
+      }
+    } else if (process.env.FLIGHT_PROVIDER_CHAIN) {
+      config = {
+        chain: process.env.FLIGHT_PROVIDER_CHAIN.split(',').map(id => id.trim()).filter(Boolean)
+      };
+    }
+
+    this.configureChain(config);
+    return config;
+  }
+}
+
+ProviderRegistry.register(aviasalesProvider);
+ProviderRegistry.register(skyscannerProvider);
+ProviderRegistry.register(amadeusProvider);
+ProviderRegistry.register(mockProvider);
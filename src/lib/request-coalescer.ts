@@ -0,0 +1,100 @@
+// Request Coalescer - concurrent identical upstream queries share one in-flight promise,
+// so a page that asks for the same route several times at once makes one API call.
+// Every caller gets the same resolved value, so results must be treated as read-only.
+
+/**
+ * JSON with object keys sorted (undefined fields dropped), so equal requests give equal keys
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as { [key: string]: unknown })
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([name, item]) => `${JSON.stringify(name)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+interface InFlightRequest {
+  key: string;
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number; // Callers still interested; the shared task is cancelled when it reaches 0
+}
+
+export class RequestCoalescer {
+  private static inFlight: Map<string, InFlightRequest> = new Map();
+  private static stats = { started: 0, joined: 0 };
+
+  /**
+   * Run the task, or join the identical one already running. The key is forgotten as soon
+   * as the task settles, so a failure isn't shared with later callers. A caller whose
+   * signal aborts stops waiting; the task's own signal only aborts once every caller
+   * has (callers without a signal always wait).
+   */
+  static run<T>(key: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    let request = this.inFlight.get(key);
+    if (request) {
+      this.stats.joined++;
+      request.waiting++;
+    } else {
+      this.stats.started++;
+      const controller = new AbortController();
+      const started: InFlightRequest = { key, promise: Promise.resolve(), controller, waiting: 1 };
+      started.promise = task(controller.signal).finally(() => this.forget(started));
+      this.inFlight.set(key, started);
+      request = started;
+    }
+    return this.follow(request, signal) as Promise<T>;
+  }
+
+  /**
+   * Key for a request to an upstream namespace (e.g. "aviasales/flights")
+   */
+  static keyFor(namespace: string, request: unknown): string {
+    return `${namespace}:${stableStringify(request)}`;
+  }
+
+  static isInFlight(key: string): boolean {
+    return this.inFlight.has(key);
+  }
+
+  /**
+   * Calls started and calls that joined one already in flight, since the process started
+   */
+  static getStats(): { started: number; joined: number; inFlight: number } {
+    return { ...this.stats, inFlight: this.inFlight.size };
+  }
+
+  private static follow(request: InFlightRequest, signal?: AbortSignal): Promise<unknown> {
+    if (!signal) return request.promise;
+
+    const leave = () => {
+      if (--request.waiting > 0) return;
+      this.forget(request); // Later callers start afresh instead of joining a cancelled task
+      request.controller.abort(signal.reason);
+    };
+    if (signal.aborted) {
+      leave();
+      request.promise.catch(() => undefined); // Nobody is left to handle it
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        leave();
+        request.promise.catch(() => undefined);
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private static forget(request: InFlightRequest): void {
+    if (this.inFlight.get(request.key) === request) this.inFlight.delete(request.key);
+  }
+}
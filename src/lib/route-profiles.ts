@@ -0,0 +1,248 @@
+// Route Profiles - monthly price profiles learned from stored observations,
+// with a distance/region prior for routes we haven't observed yet
+import type { RouteAnalysis } from './prediction';
+import { AirportService } from './airport-data';
+import { PriceObservation, PriceObservationStore } from './price-observations';
+import { Storage } from './storage';
+
+export interface RouteProfile {
+  route: string;
+  source: 'observed' | 'prior' | 'generic';
+  months: RouteAnalysis[]; // Always 12 rows, January first
+  observedMonths: number[]; // Months backed by enough observations (the rest come from the prior)
+  observationCount: number;
+  updatedAt: string;
+}
+
+interface StoredProfiles {
+  refreshedAt: string;
+  profiles: { [route: string]: RouteProfile };
+}
+
+export class RouteProfileService {
+  private static readonly STORAGE_KEY = 'route-profiles/profiles';
+  private static readonly MIN_OBSERVATIONS_PER_MONTH = 5;
+  private static readonly LOOKBACK_DAYS = 365;
+
+  // Seasonal shape of fares by departure month, relative to the route's base price
+  private static readonly NORTHERN_SEASONALITY = [0.8, 0.75, 0.9, 1.0, 1.1, 1.3, 1.4, 1.35, 1.0, 0.9, 0.85, 1.1];
+  private static readonly SOUTHERN_SEASONALITY = [1.3, 1.1, 0.95, 0.9, 0.85, 0.9, 1.05, 1.0, 0.9, 0.95, 1.05, 1.4];
+
+  private static profiles: { [route: string]: RouteProfile } = {};
+  private static lastRefreshed: Date | null = null;
+  private static refreshing: Promise<void> | null = null;
+
+  /**
+   * Monthly profile for a route. Uses the cached learned profile when there is one,
+   * otherwise the prior; a stale cache is refreshed in the background.
+   */
+  static getProfile(route: string): RouteProfile {
+    if (this.isStale()) {
+      this.refreshIfStale().catch(error => console.error('Background route profile refresh failed:', error));
+    }
+    return this.profiles[route] || this.getPriorProfile(route);
+  }
+
+  /**
+   * The profile row for one departure month (1-12)
+   */
+  static getMonthProfile(route: string, month: number): RouteAnalysis {
+    const profile = this.getProfile(route);
+    return profile.months.find(m => m.month === month) || profile.months[0];
+  }
+
+  /**
+   * Reload profiles when the cache is older than ROUTE_PROFILE_REFRESH_HOURS (default 6).
+   * Profiles saved by another process (e.g. the collector) are reused while fresh.
+   */
+  static async refreshIfStale(): Promise<void> {
+    if (!this.isStale()) return;
+    if (this.refreshing) return this.refreshing;
+
+    this.refreshing = (async () => {
+      const stored = await Storage.get<StoredProfiles>(this.STORAGE_KEY);
+      if (stored && Date.now() - new Date(stored.refreshedAt).getTime() < this.getRefreshIntervalMs()) {
+        this.profiles = stored.profiles;
+        this.lastRefreshed = new Date(stored.refreshedAt);
+        return;
+      }
+      await this.refresh();
+    })();
+
+    try {
+      await this.refreshing;
+    } finally {
+      this.refreshing = null;
+    }
+  }
+
+  /**
+   * Profile learned only from observations seen before `asOf` (for backtests; not cached)
+   */
+  static async getProfileAsOf(route: string, asOf: Date): Promise<RouteProfile> {
+    const observations = await PriceObservationStore.query({
+      route,
+      since: this.getLookbackStart(asOf),
+      until: asOf.toISOString(),
+      realOnly: true
+    });
+    return this.buildObservedProfile(route, observations, asOf) || this.getPriorProfile(route);
+  }
+
+  /**
+   * Recompute profiles for every route with real observations and save them
+   */
+  static async refresh(now: Date = new Date()): Promise<void> {
+    const since = this.getLookbackStart(now);
+    const routes = await PriceObservationStore.getRoutes();
+    const profiles: { [route: string]: RouteProfile } = {};
+
+    for (const route of routes) {
+      const observations = await PriceObservationStore.query({ route, since, realOnly: true });
+      const profile = this.buildObservedProfile(route, observations, now);
+      if (profile) profiles[route] = profile;
+    }
+
+    this.profiles = profiles;
+    this.lastRefreshed = now;
+    await Storage.set<StoredProfiles>(this.STORAGE_KEY, { refreshedAt: now.toISOString(), profiles });
+    console.log(`Refreshed route profiles: ${Object.keys(profiles).length} routes learned from observations`);
+  }
+
+  /**
+   * Prior profile from great-circle distance and destination region. Routes with an
+   * airport we have no coordinates for get a flat generic profile.
+   */
+  static getPriorProfile(route: string): RouteProfile {
+    const [origin, destination] = route.split('-');
+    const distanceKm = origin && destination ? AirportService.getDistanceKm(origin, destination) : undefined;
+
+    if (distanceKm === undefined) {
+      return this.toProfile(route, 'generic', 400, this.NORTHERN_SEASONALITY, 0.15);
+    }
+
+    const originRegion = AirportService.getAirportLocation(origin)!.region;
+    const destinationLocation = AirportService.getAirportLocation(destination)!;
+
+    // Roughly £0.085/km up to long-haul distances, tapering beyond 8000km
+    let basePrice = 45 + 0.085 * Math.min(distanceKm, 8000) + 0.055 * Math.max(0, distanceKm - 8000);
+
+    // Short-haul within the UK/Europe is dominated by low-cost carriers
+    const regions = [originRegion, destinationLocation.region];
+    if (regions.every(region => region === 'UK' || region === 'Europe')) {
+      basePrice *= 0.9;
+    } else if (regions.includes('Africa') || regions.includes('South America')) {
+      basePrice *= 1.1; // Less competition on these markets
+    }
+
+    const seasonality = destinationLocation.latitude < -15 ? this.SOUTHERN_SEASONALITY : this.NORTHERN_SEASONALITY;
+    const priceVariation = distanceKm < 1500 ? 0.2 : 0.15;
+
+    return this.toProfile(route, 'prior', basePrice, seasonality, priceVariation);
+  }
+
+  /**
+   * Summary of cached profiles (for status endpoints)
+   */
+  static getCacheStatus() {
+    return {
+      lastRefreshed: this.lastRefreshed?.toISOString() || null,
+      learnedRoutes: Object.keys(this.profiles).length,
+      refreshIntervalHours: this.getRefreshIntervalMs() / (60 * 60 * 1000)
+    };
+  }
+
+  private static buildObservedProfile(route: string, observations: PriceObservation[], now: Date): RouteProfile | null {
+    const byMonth: { [month: number]: number[] } = {};
+    for (const observation of observations) {
+      const month = new Date(observation.departureDate).getUTCMonth() + 1;
+      if (!byMonth[month]) byMonth[month] = [];
+      byMonth[month].push(observation.price);
+    }
+
+    const observedMonths = Object.keys(byMonth)
+      .map(Number)
+      .filter(month => byMonth[month].length >= this.MIN_OBSERVATIONS_PER_MONTH)
+      .sort((a, b) => a - b);
+    if (observedMonths.length === 0) return null;
+
+    const prior = this.getPriorProfile(route);
+
+    // Scale the prior to the observed price level for months we haven't seen
+    const levelRatio = observedMonths.reduce((sum, month) => {
+      const prices = byMonth[month];
+      const average = prices.reduce((s, p) => s + p, 0) / prices.length;
+      return sum + average / prior.months[month - 1].averagePrice;
+    }, 0) / observedMonths.length;
+
+    const months: RouteAnalysis[] = prior.months.map(priorMonth => {
+      const prices = byMonth[priorMonth.month];
+      if (!observedMonths.includes(priorMonth.month)) {
+        return {
+          ...priorMonth,
+          route,
+          averagePrice: Math.round(priorMonth.averagePrice * levelRatio),
+          minPrice: Math.round(priorMonth.minPrice * levelRatio),
+          maxPrice: Math.round(priorMonth.maxPrice * levelRatio)
+        };
+      }
+
+      const average = prices.reduce((sum, p) => sum + p, 0) / prices.length;
+      const variance = prices.reduce((sum, p) => sum + Math.pow(p - average, 2), 0) / prices.length;
+      return {
+        route,
+        month: priorMonth.month,
+        averagePrice: Math.round(average),
+        minPrice: Math.round(Math.min(...prices)),
+        maxPrice: Math.round(Math.max(...prices)),
+        priceVariation: Math.round((Math.sqrt(variance) / average) * 100) / 100
+      };
+    });
+
+    return {
+      route,
+      source: 'observed',
+      months,
+      observedMonths,
+      observationCount: observations.length,
+      updatedAt: now.toISOString()
+    };
+  }
+
+  private static toProfile(
+    route: string,
+    source: 'prior' | 'generic',
+    basePrice: number,
+    seasonality: number[],
+    priceVariation: number
+  ): RouteProfile {
+    return {
+      route,
+      source,
+      months: seasonality.map((multiplier, index) => ({
+        route,
+        month: index + 1,
+        averagePrice: Math.round(basePrice * multiplier),
+        minPrice: Math.round(basePrice * multiplier * 0.8),
+        maxPrice: Math.round(basePrice * multiplier * 1.2),
+        priceVariation
+      })),
+      observedMonths: [],
+      observationCount: 0,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private static getLookbackStart(now: Date): string {
+    return new Date(now.getTime() - this.LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  private static isStale(): boolean {
+    return !this.lastRefreshed || Date.now() - this.lastRefreshed.getTime() >= this.getRefreshIntervalMs();
+  }
+
+  private static getRefreshIntervalMs(): number {
+    const hours = parseFloat(process.env.ROUTE_PROFILE_REFRESH_HOURS || '6') || 6;
+    return hours * 60 * 60 * 1000;
+  }
+}
@@ -0,0 +1,326 @@
+// Significance testing for A/B experiments - chi-square across all variants, pairwise
+// two-proportion z-tests corrected for multiple comparisons, an optional sequential
+// boundary for checking early, and the sample size each variant needs.
+
+export interface VariantCounts {
+  variantId: string;
+  successes: number;
+  trials: number; // Recommendations with a known outcome
+}
+
+export interface SignificanceOptions {
+  alpha?: number; // Family-wise error rate (default 0.05)
+  power?: number; // For the sample size guidance (default 0.8)
+  minimumDetectableEffect?: number; // Smallest success-rate difference worth detecting, 0-1 (default 0.05)
+  correction?: 'holm' | 'bonferroni'; // Default holm
+  sequential?: boolean; // Allow a decision before the required sample size is reached
+}
+
+export interface PairwiseComparison {
+  variantA: string;
+  variantB: string;
+  rateA: number;
+  rateB: number;
+  difference: number; // rateA - rateB
+  zScore: number;
+  pValue: number; // Unadjusted (sequential: against the early-look boundary)
+  adjustedPValue: number;
+  significant: boolean;
+}
+
+export interface SampleSizeGuidance {
+  requiredPerVariant: number;
+  baselineRate: number;
+  minimumDetectableEffect: number;
+  power: number;
+  smallestVariantSample: number;
+  informationFraction: number; // Smallest variant sample / required, capped at 1
+}
+
+export interface SignificanceAnalysis {
+  alpha: number;
+  correction: 'holm' | 'bonferroni';
+  sequential: boolean;
+  chiSquare: {
+    statistic: number;
+    degreesOfFreedom: number;
+    pValue: number;
+    lowExpectedCounts: boolean; // Some expected cell count below 5, so the approximation is rough
+  } | null;
+  comparisons: PairwiseComparison[];
+  sampleSize: SampleSizeGuidance;
+  leader: string | null; // Highest observed success rate
+  winner: string | null; // Leader, when it beats every other variant significantly
+  status: 'insufficient-data' | 'collecting' | 'significant' | 'not-significant';
+  guidance: string;
+}
+
+export class SignificanceTester {
+  static readonly DEFAULT_ALPHA = 0.05;
+  static readonly DEFAULT_POWER = 0.8;
+  static readonly DEFAULT_MINIMUM_DETECTABLE_EFFECT = 0.05;
+
+  /**
+   * Compare every variant's success rate. In fixed-horizon mode a winner is only declared
+   * once every variant has the required sample. In sequential mode each look is tested
+   * against an O'Brien-Fleming-shaped boundary z / sqrt(t), where t is the share of the
+   * required sample collected - strict early on, converging to the fixed test at t = 1.
+   */
+  static analyze(counts: VariantCounts[], options: SignificanceOptions = {}): SignificanceAnalysis {
+    const alpha = options.alpha ?? this.DEFAULT_ALPHA;
+    const power = options.power ?? this.DEFAULT_POWER;
+    const minimumDetectableEffect = options.minimumDetectableEffect ?? this.DEFAULT_MINIMUM_DETECTABLE_EFFECT;
+    const correction = options.correction || 'holm';
+    const sequential = !!options.sequential;
+    const variants = counts.filter(c => c.trials > 0); // Variants without outcomes can't be compared yet
+
+    const totalTrials = variants.reduce((sum, v) => sum + v.trials, 0);
+    const pooledRate = totalTrials > 0 ? variants.reduce((sum, v) => sum + v.successes, 0) / totalTrials : 0.5;
+    const pairs = Math.max(1, (variants.length * (variants.length - 1)) / 2);
+    const requiredPerVariant = this.requiredSampleSize(
+      pooledRate > 0 && pooledRate < 1 ? pooledRate : 0.5,
+      minimumDetectableEffect,
+      correction === 'bonferroni' ? alpha / pairs : alpha, // Holm's first step uses the same level as Bonferroni
+      power
+    );
+    const smallestVariantSample = variants.length > 0 ? Math.min(...variants.map(v => v.trials)) : 0;
+    const informationFraction = Math.min(1, smallestVariantSample / requiredPerVariant);
+    const sampleSize: SampleSizeGuidance = {
+      requiredPerVariant,
+      baselineRate: this.round(pooledRate),
+      minimumDetectableEffect,
+      power,
+      smallestVariantSample,
+      informationFraction: this.round(informationFraction)
+    };
+
+    if (variants.length < 2) {
+      return {
+        alpha, correction, sequential, chiSquare: null, comparisons: [], sampleSize,
+        leader: variants[0]?.variantId || null,
+        winner: null,
+        status: 'insufficient-data',
+        guidance: `Need outcomes for at least two variants; plan for ${requiredPerVariant} per variant`
+      };
+    }
+
+    // Sequential looks scale each z-score by sqrt(t), which is the same as comparing z with the z / sqrt(t) boundary
+    const lookScale = sequential ? Math.sqrt(informationFraction) : 1;
+    const comparisons: PairwiseComparison[] = [];
+    for (let i = 0; i < variants.length; i++) {
+      for (let j = i + 1; j < variants.length; j++) {
+        const { zScore, rateA, rateB } = this.twoProportionZTest(variants[i], variants[j]);
+        comparisons.push({
+          variantA: variants[i].variantId,
+          variantB: variants[j].variantId,
+          rateA: this.round(rateA),
+          rateB: this.round(rateB),
+          difference: this.round(rateA - rateB),
+          zScore: this.round(zScore),
+          pValue: this.twoSidedPValue(zScore * lookScale),
+          adjustedPValue: 1,
+          significant: false
+        });
+      }
+    }
+
+    const adjusted = this.adjustPValues(comparisons.map(c => c.pValue), correction);
+    comparisons.forEach((comparison, index) => {
+      comparison.pValue = this.round(comparison.pValue);
+      comparison.adjustedPValue = this.round(adjusted[index]);
+      comparison.significant = adjusted[index] < alpha;
+    });
+
+    const leader = [...variants].sort((a, b) => b.successes / b.trials - a.successes / a.trials)[0].variantId;
+    const leaderBeatsAll = comparisons
+      .filter(c => c.variantA === leader || c.variantB === leader)
+      .every(c => c.significant && (c.variantA === leader ? c.difference > 0 : c.difference < 0));
+    const enoughSample = sequential ? informationFraction > 0 : informationFraction >= 1;
+    const winner = leaderBeatsAll && enoughSample ? leader : null;
+
+    let status: SignificanceAnalysis['status'];
+    let guidance: string;
+    if (winner) {
+      status = 'significant';
+      guidance = `${winner} beats every other variant at alpha ${alpha} (${correction}-corrected${sequential ? ', sequential boundary' : ''})`;
+    } else if (informationFraction < 1) {
+      status = 'collecting';
+      guidance = sequential
+        ? `No variant clears the early-look boundary yet; ${requiredPerVariant - smallestVariantSample} more outcomes for the smallest variant reach the planned sample`
+        : `Keep collecting: ${requiredPerVariant - smallestVariantSample} more outcomes for the smallest variant before reading results (or use sequential testing to check early)`;
+    } else {
+      status = 'not-significant';
+      guidance = `No significant difference at the planned sample size; differences under ${Math.round(minimumDetectableEffect * 100)} points are likely noise`;
+    }
+
+    return {
+      alpha, correction, sequential,
+      chiSquare: this.chiSquareTest(variants),
+      comparisons,
+      sampleSize,
+      leader,
+      winner,
+      status,
+      guidance
+    };
+  }
+
+  /**
+   * Two-proportion z-test with the pooled standard error
+   */
+  static twoProportionZTest(a: VariantCounts, b: VariantCounts): { zScore: number; rateA: number; rateB: number } {
+    const rateA = a.successes / a.trials;
+    const rateB = b.successes / b.trials;
+    const pooled = (a.successes + b.successes) / (a.trials + b.trials);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / a.trials + 1 / b.trials));
+    return { zScore: standardError > 0 ? (rateA - rateB) / standardError : 0, rateA, rateB };
+  }
+
+  /**
+   * Pearson chi-square test of independence on the variants x (success, failure) table
+   */
+  static chiSquareTest(counts: VariantCounts[]): NonNullable<SignificanceAnalysis['chiSquare']> {
+    const totalTrials = counts.reduce((sum, c) => sum + c.trials, 0);
+    const pooled = counts.reduce((sum, c) => sum + c.successes, 0) / totalTrials;
+    let statistic = 0;
+    let lowExpectedCounts = false;
+
+    for (const c of counts) {
+      const expectedSuccesses = c.trials * pooled;
+      const expectedFailures = c.trials * (1 - pooled);
+      if (expectedSuccesses < 5 || expectedFailures < 5) lowExpectedCounts = true;
+      if (expectedSuccesses > 0) statistic += Math.pow(c.successes - expectedSuccesses, 2) / expectedSuccesses;
+      if (expectedFailures > 0) statistic += Math.pow(c.trials - c.successes - expectedFailures, 2) / expectedFailures;
+    }
+
+    const degreesOfFreedom = counts.length - 1;
+    return {
+      statistic: this.round(statistic),
+      degreesOfFreedom,
+      pValue: this.round(this.chiSquareSurvival(statistic, degreesOfFreedom)),
+      lowExpectedCounts
+    };
+  }
+
+  /**
+   * Holm (step-down) or Bonferroni adjusted p-values, in the input order
+   */
+  static adjustPValues(pValues: number[], method: 'holm' | 'bonferroni'): number[] {
+    const m = pValues.length;
+    if (method === 'bonferroni') return pValues.map(p => Math.min(1, p * m));
+
+    const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+    const adjusted = new Array<number>(m);
+    let running = 0;
+    order.forEach(({ p, index }, rank) => {
+      running = Math.max(running, Math.min(1, p * (m - rank)));
+      adjusted[index] = running;
+    });
+    return adjusted;
+  }
+
+  /**
+   * Outcomes each variant needs to detect a difference of `minimumDetectableEffect`
+   * from `baselineRate` with a two-sided test at `alpha` and the given power
+   */
+  static requiredSampleSize(baselineRate: number, minimumDetectableEffect: number, alpha: number, power: number): number {
+    const p1 = baselineRate;
+    const p2 = Math.min(0.999, Math.max(0.001, baselineRate + minimumDetectableEffect));
+    const meanRate = (p1 + p2) / 2;
+    const zAlpha = this.normalQuantile(1 - alpha / 2);
+    const zBeta = this.normalQuantile(power);
+    const numerator = zAlpha * Math.sqrt(2 * meanRate * (1 - meanRate)) + zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+    return Math.ceil(Math.pow(numerator, 2) / Math.pow(p2 - p1, 2));
+  }
+
+  /**
+   * Standard normal CDF (Abramowitz-Stegun 7.1.26, error < 1.5e-7)
+   */
+  static normalCdf(x: number): number {
+    const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-(x * x) / 2);
+    return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  }
+
+  /**
+   * Inverse standard normal CDF (Acklam's rational approximation)
+   */
+  static normalQuantile(p: number): number {
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const low = 0.02425;
+
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    if (p < low) {
+      const q = Math.sqrt(-2 * Math.log(p));
+      return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - low) return -this.normalQuantile(1 - p);
+
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+
+  private static twoSidedPValue(z: number): number {
+    return Math.min(1, 2 * (1 - this.normalCdf(Math.abs(z))));
+  }
+
+  // P(X > x) for X ~ chi-square(df): the regularized upper incomplete gamma Q(df/2, x/2)
+  private static chiSquareSurvival(x: number, df: number): number {
+    if (x <= 0) return 1;
+    const a = df / 2;
+    const z = x / 2;
+    const logPrefix = -z + a * Math.log(z) - this.logGamma(a);
+
+    if (z < a + 1) {
+      // Series for the lower incomplete gamma
+      let term = 1 / a;
+      let sum = term;
+      for (let n = 1; n < 200 && Math.abs(term) > Math.abs(sum) * 1e-12; n++) {
+        term *= z / (a + n);
+        sum += term;
+      }
+      return Math.max(0, 1 - sum * Math.exp(logPrefix));
+    }
+
+    // Continued fraction for the upper incomplete gamma (Lentz)
+    const tiny = 1e-300;
+    let b = z + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 200; i++) {
+      const an = -i * (i - a);
+      b += 2;
+      d = an * d + b;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = b + an / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      const delta = d * c;
+      h *= delta;
+      if (Math.abs(delta - 1) < 1e-12) break;
+    }
+    return Math.min(1, Math.exp(logPrefix) * h);
+  }
+
+  // Lanczos approximation
+  private static logGamma(x: number): number {
+    const coefficients = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let series = 1.000000000190015;
+    for (const coefficient of coefficients) series += coefficient / ++y;
+    return -tmp + Math.log(2.5066282746310005 * series / x);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -1,6 +1,18 @@
 // Skyscanner API integration via RapidAPI
 // Get your API key from: https://rapidapi.com/3b-data-3b-data-default/api/skyscanner44
 
+import {
+  CabinClass,
+  FlightPriceProvider,
+  NormalizedFlightOffer,
+  NormalizedSearchRequest,
+  ProviderSearchOptions,
+  sortByPrice
+} from './flight-provider';
+import { RequestCoalescer } from './request-coalescer';
+import { ProviderFixtures } from './provider-fixtures';
+import { ProviderHttpClient } from './provider-http';
+
 export interface SkyscannerFlightOffer {
   id: string;
   price: {
@@ -50,87 +62,98 @@ export class SkyscannerService {
   private static readonly BASE_URL = 'https://skyscanner44.p.rapidapi.com';
 
   /**
-   * Search for flights using Skyscanner API
+   * Whether calls can be made: an API key is set, or responses are replayed from fixtures
+   */
+  static isAvailable(): boolean {
+    return !!this.API_KEY || ProviderFixtures.isReplaying();
+  }
+
+  /**
+   * Search for flights using Skyscanner API, falling back to mock data when no API key is
+   * set. API failures are thrown as ProviderRequestError.
    */
   static async searchFlights(params: SkyscannerSearchParams): Promise<SkyscannerFlightOffer[]> {
-    if (!this.API_KEY) {
+    if (!this.isAvailable()) {
       console.log('No Skyscanner API key found, using fallback');
       return this.generateMockSkyscannerData(params);
     }
 
-    try {
-      const searchParams = new URLSearchParams({
-        originSkyId: params.originSkyId,
-        destinationSkyId: params.destinationSkyId,
-        originEntityId: params.originEntityId,
-        destinationEntityId: params.destinationEntityId,
-        departureDate: params.departureDate,
-        cabinClass: params.cabinClass,
-        adults: params.adults.toString(),
-        sortBy: params.sortBy,
-        currency: params.currency,
-        market: params.market,
-        countryCode: params.countryCode
-      });
+    return this.fetchFlights(params);
+  }
 
-      if (params.returnDate) {
-        searchParams.append('returnDate', params.returnDate);
-      }
-      if (params.children) {
-        searchParams.append('children', params.children.toString());
-      }
-      if (params.infants) {
-        searchParams.append('infants', params.infants.toString());
-      }
-
-      const response = await fetch(`${this.BASE_URL}/search?${searchParams.toString()}`, {
-        method: 'GET',
-        headers: {
-          'X-RapidAPI-Key': this.API_KEY,
-          'X-RapidAPI-Host': 'skyscanner44.p.rapidapi.com'
-        }
-      });
+  /**
+   * Search for flights against the live Skyscanner API (throws ProviderRequestError on failure).
+   * Concurrent calls with the same params share one upstream request.
+   */
+  static fetchFlights(params: SkyscannerSearchParams, signal?: AbortSignal): Promise<SkyscannerFlightOffer[]> {
+    return RequestCoalescer.run(
+      RequestCoalescer.keyFor('skyscanner/flights', params),
+      sharedSignal => this.requestFlights(params, sharedSignal),
+      signal
+    );
+  }
 
-      if (!response.ok) {
-        throw new Error(`Skyscanner API error: ${response.status}`);
-      }
+  private static async requestFlights(params: SkyscannerSearchParams, signal: AbortSignal): Promise<SkyscannerFlightOffer[]> {
+    if (!this.isAvailable()) {
+      throw new Error('Skyscanner API key is not configured');
+    }
 
-      const data = await response.json();
-      return this.parseSkyscannerResponse(data);
-    } catch (error) {
-      console.error('Skyscanner API error:', error);
-      return this.generateMockSkyscannerData(params);
+    const searchParams = new URLSearchParams({
+      originSkyId: params.originSkyId,
+      destinationSkyId: params.destinationSkyId,
+      originEntityId: params.originEntityId,
+      destinationEntityId: params.destinationEntityId,
+      departureDate: params.departureDate,
+      cabinClass: params.cabinClass,
+      adults: params.adults.toString(),
+      sortBy: params.sortBy,
+      currency: params.currency,
+      market: params.market,
+      countryCode: params.countryCode
+    });
+
+    if (params.returnDate) {
+      searchParams.append('returnDate', params.returnDate);
     }
+    if (params.children) {
+      searchParams.append('children', params.children.toString());
+    }
+    if (params.infants) {
+      searchParams.append('infants', params.infants.toString());
+    }
+
+    const data = await ProviderHttpClient.getJson<unknown>('skyscanner', `${this.BASE_URL}/search?${searchParams.toString()}`, {
+      headers: this.headers(),
+      signal
+    });
+    return this.parseSkyscannerResponse(data);
   }
 
   /**
    * Get airport/city information for search
    */
   static async searchPlaces(query: string): Promise<any[]> {
-    if (!this.API_KEY) {
+    if (!this.isAvailable()) {
       return [];
     }
 
     try {
-      const response = await fetch(`${this.BASE_URL}/searchAirport?query=${encodeURIComponent(query)}`, {
-        method: 'GET',
-        headers: {
-          'X-RapidAPI-Key': this.API_KEY,
-          'X-RapidAPI-Host': 'skyscanner44.p.rapidapi.com'
-        }
+      return await ProviderHttpClient.getJson<unknown[]>('skyscanner', `${this.BASE_URL}/searchAirport?query=${encodeURIComponent(query)}`, {
+        headers: this.headers()
       });
-
-      if (!response.ok) {
-        throw new Error(`Skyscanner places API error: ${response.status}`);
-      }
-
-      return await response.json();
     } catch (error) {
       console.error('Skyscanner places API error:', error);
       return [];
     }
   }
 
+  private static headers(): { [key: string]: string } {
+    return {
+      'X-RapidAPI-Key': this.API_KEY || '',
+      'X-RapidAPI-Host': 'skyscanner44.p.rapidapi.com'
+    };
+  }
+
   /**
    * Parse Skyscanner API response into our format
    */
@@ -335,3 +358,62 @@ export class SkyscannerService {
     };
   }
 }
+
+/**
+ * Map a Skyscanner offer into the provider-neutral shape
+ */
+export function normalizeSkyscannerOffer(
+  offer: SkyscannerFlightOffer,
+  request: NormalizedSearchRequest
+): NormalizedFlightOffer {
+  const outbound = offer.legs[0];
+
+  return {
+    id: `skyscanner-${offer.id}`,
+    provider: 'skyscanner',
+    price: offer.price.amount,
+    currency: offer.price.currency,
+    origin: request.origin,
+    destination: request.destination,
+    departureDate: request.departureDate,
+    returnDate: request.returnDate,
+    airline: outbound?.carriers[0]?.name || 'Multiple Airlines',
+    durationMinutes: outbound?.duration || 0,
+    stops: Math.max(0, (outbound?.segments || 1) - 1),
+    deepLink: offer.deeplink || undefined
+  };
+}
+
+const SKYSCANNER_CABIN_CLASSES: { [key in CabinClass]: SkyscannerSearchParams['cabinClass'] } = {
+  ECONOMY: 'economy',
+  PREMIUM_ECONOMY: 'premium_economy',
+  BUSINESS: 'business',
+  FIRST: 'first'
+};
+
+export const skyscannerProvider: FlightPriceProvider = {
+  id: 'skyscanner',
+  name: 'Skyscanner',
+  isConfigured: () => SkyscannerService.isAvailable(),
+  async search(request: NormalizedSearchRequest, options: ProviderSearchOptions = {}): Promise<NormalizedFlightOffer[]> {
+    const offers = await SkyscannerService.fetchFlights({
+      originSkyId: SkyscannerService.getSkySkyId(request.origin),
+      destinationSkyId: SkyscannerService.getSkySkyId(request.destination),
+      originEntityId: SkyscannerService.getEntityId(request.origin),
+      destinationEntityId: SkyscannerService.getEntityId(request.destination),
+      departureDate: request.departureDate,
+      returnDate: request.returnDate,
+      cabinClass: SKYSCANNER_CABIN_CLASSES[request.cabinClass || 'ECONOMY'],
+      adults: request.adults,
+      children: request.children,
+      infants: request.infants,
+      sortBy: 'best',
+      currency: request.currency,
+      market: 'UK',
+      countryCode: 'GB'
+    }, options.signal);
+    const normalized = offers.map(offer => normalizeSkyscannerOffer(offer, request));
+    const filtered = request.directOnly ? normalized.filter(o => o.stops === 0) : normalized;
+    return sortByPrice(filtered);
+  }
+};
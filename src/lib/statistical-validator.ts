@@ -1,5 +1,10 @@
 import { HistoricalDataManager, ValidationResult, BacktestResult } from './historical-data-manager';
 import { ABTestingFramework } from './ab-testing';
+import { PriceObservationStore } from './price-observations';
+import { PredictionEngine } from './prediction-engine';
+import type { PricePrediction } from './prediction';
+import { PredictionAuditContext, PredictionAuditLog } from './prediction-audit';
+import { Job, JobQueue } from './job-queue';
 
 export interface StatisticalConfidenceMetrics {
   trueConfidence: number; // Statistically validated confidence
@@ -19,32 +24,22 @@ export interface StatisticalConfidenceMetrics {
   lastValidation: string;
 }
 
-export interface EnhancedPredictionWithValidation {
-  // Original prediction fields
-  currentPrice: number;
-  currency: string;
-  timestamp: string;
-  probabilityIncrease: number;
-  probabilityDecrease: number;
-  recommendation: 'BUY_NOW' | 'WAIT';
-  historicalContext: string;
-  priceRange: {
-    min: number;
-    max: number;
-    average: number;
-  };
-  
+export interface EnhancedPredictionWithValidation extends PricePrediction {
   // Enhanced statistical validation
   statisticalConfidence: StatisticalConfidenceMetrics;
   validatedConfidence: number; // The actual statistically validated confidence
-  errorBounds: {
+  errorBounds?: { // Missing until the validation backtest has run
     expectedError: number;
     maxError: number;
     minError: number;
+    basis: 'route' | 'all-routes' | 'default'; // Which backtests the price errors come from
+    sampleSize: number;
   };
+  strategyRecommendation: 'BUY_NOW' | 'WAIT'; // The strategy's call before the A/B variant was applied
   
-  // A/B test variant info
+  // A/B test variant info (only for users enrolled in a running experiment)
   abTestVariant?: string;
+  abTestExperiment?: string;
   abTestMetrics?: {
     variantSuccessRate: number;
     totalTests: number;
@@ -52,108 +47,106 @@ export interface EnhancedPredictionWithValidation {
 }
 
 export class StatisticalValidator {
+  static readonly VALIDATION_JOB = 'statistical-validation';
   private static validationCache: ValidationResult | null = null;
   private static lastValidationTime: Date | null = null;
   private static readonly VALIDATION_CACHE_HOURS = 24;
+  private static readonly MIN_ROUTE_BACKTESTS = 10; // Below this, error bounds use every route's backtests
 
   /**
-   * Initialize statistical validation system
-   */
-  static async initializeValidation(): Promise<void> {
-    console.log('Initializing statistical validation system...');
-    
-    // Check if we need to refresh validation
-    if (this.needsValidationRefresh()) {
-      await this.performFullValidation();
-    } else {
-      console.log('Using cached validation results');
-    }
-  }
-
-  /**
-   * Perform complete statistical validation
+   * Perform complete statistical validation: walk-forward backtest of the default
+   * strategy over the observations stored by the price snapshot collector.
+   * Returns null (keeping any earlier results) when there is nothing to score yet.
    */
-  static async performFullValidation(): Promise<ValidationResult> {
+  static async performFullValidation(): Promise<ValidationResult | null> {
     console.log('Performing full statistical validation...');
     
-    // Step 1: Collect real historical data (6+ months)
-    const routes = ['LHR-JFK', 'LHR-KUL', 'LHR-CPH', 'LHR-DXB', 'LHR-SYD'];
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setMonth(startDate.getMonth() - 6); // 6 months back
-    
-    console.log('Collecting historical data...');
-    const historicalData = await HistoricalDataManager.collectRealHistoricalData(
-      routes,
-      startDate,
-      endDate
-    );
-    
-    // Step 2: Perform backtesting
+    // Step 1: Backtest against real observations from the last 90 days
     console.log('Performing backtesting...');
-    const backtestResults = await HistoricalDataManager.performBacktesting(
-      historicalData,
-      90 // Test last 90 days
-    );
+    const backtestResults = await HistoricalDataManager.performBacktesting(90);
     
-    // Step 3: Calculate validation metrics
+    // Checked again after 24 hours either way
+    this.lastValidationTime = new Date();
+
+    if (backtestResults.length === 0) {
+      console.log('Not enough observed price history to validate predictions yet');
+      return null;
+    }
+    
+    // Step 2: Calculate validation metrics
     console.log('Calculating validation metrics...');
-    const validationResult = HistoricalDataManager.calculateValidationMetrics(backtestResults);
+    const validationResult = await HistoricalDataManager.calculateValidationMetrics(backtestResults);
     
     // Cache results
     this.validationCache = validationResult;
-    this.lastValidationTime = new Date();
     
     console.log(`Validation complete. True accuracy: ${validationResult.accuracy}%`);
     return validationResult;
   }
 
   /**
-   * Get statistically validated prediction with true confidence
+   * Get statistically validated prediction: the strategy's prediction with the user's
+   * A/B variant applied, error bounds from backtested price errors and validation metrics
    */
   static async getValidatedPrediction(
     currentPrice: number,
     origin: string,
     destination: string,
     departureDate: string,
-    userId: string = 'anonymous'
+    userId: string | null = null, // Visitor id; without one the user isn't enrolled in A/B tests
+    currency: string = 'GBP',
+    audit?: PredictionAuditContext
   ): Promise<EnhancedPredictionWithValidation> {
     
-    // Ensure validation is initialized
-    if (!this.validationCache) {
-      await this.initializeValidation();
-    }
+    // The backtest is too slow to run inside a request; it's queued for the job runner
+    await this.scheduleValidationIfStale();
 
     // Get A/B test variant for user
-    const abVariant = ABTestingFramework.assignUserToVariant(userId);
+    const abAssignment = await ABTestingFramework.assignUserToVariant(userId);
+    const abVariant = abAssignment.variant;
     
-    // Calculate base prediction (using existing enhanced prediction logic)
-    const basePrediction = await this.calculateBasePrediction(
-      currentPrice, origin, destination, departureDate
-    );
+    // Base prediction from the default strategy, with calibrated confidence
+    const basePrediction = await PredictionEngine.predict({
+      currentPrice,
+      origin,
+      destination,
+      departureDate,
+      currency,
+      audit: audit || { source: 'validated-prediction', visitorId: userId }
+    });
     
     // Apply A/B test variant
-    const variantPrediction = ABTestingFramework.applyVariantToPrediction(
+    const variantPrediction: PricePrediction = ABTestingFramework.applyVariantToPrediction(
       basePrediction,
       abVariant
     );
+    await PredictionAuditLog.recordShown(basePrediction.predictionId, {
+      recommendation: variantPrediction.recommendation,
+      abTest: abVariant ? { experimentId: abAssignment.experimentId, variantId: abVariant.id, enrolled: abAssignment.enrolled } : undefined
+    });
 
     // Calculate statistical confidence metrics
-    const statisticalMetrics = this.calculateStatisticalMetrics();
+    const statisticalMetrics = await this.calculateStatisticalMetrics();
     
     // Calculate error bounds based on validation
-    const errorBounds = this.calculateErrorBounds(currentPrice);
+    const errorBounds = this.lastValidationTime
+      ? await this.calculateErrorBounds(currentPrice, `${origin}-${destination}`)
+      : undefined;
     
-    // Get A/B test metrics for this variant
-    const abMetrics = ABTestingFramework.calculateTestMetrics()
-      .find(m => m.variantId === abVariant.id);
+    // Get A/B test metrics for this variant (only while the user is in a running experiment)
+    const abMetrics = abAssignment.enrolled && abVariant
+      ? (await ABTestingFramework.calculateTestMetrics()).find(m => m.variantId === abVariant.id)
+      : undefined;
 
     const validatedPrediction: EnhancedPredictionWithValidation = {
       ...variantPrediction,
       statisticalConfidence: statisticalMetrics,
-      validatedConfidence: statisticalMetrics.trueConfidence,
+      // Calibrated for this route class and booking window, so more specific than overall accuracy
+      validatedConfidence: basePrediction.confidence,
       errorBounds,
-      abTestVariant: abVariant.id,
+      strategyRecommendation: basePrediction.recommendation,
+      abTestVariant: abAssignment.enrolled ? abVariant?.id : undefined,
+      abTestExperiment: abAssignment.enrolled ? abAssignment.experimentId : undefined,
       abTestMetrics: abMetrics ? {
         variantSuccessRate: abMetrics.successRate,
         totalTests: abMetrics.totalRecommendations
@@ -166,17 +159,17 @@ export class StatisticalValidator {
   /**
    * Calculate statistical confidence metrics
    */
-  private static calculateStatisticalMetrics(): StatisticalConfidenceMetrics {
+  private static async calculateStatisticalMetrics(): Promise<StatisticalConfidenceMetrics> {
     const validation = this.validationCache;
     if (!validation) {
       return this.getDefaultMetrics();
     }
 
     // Calculate data quality metrics
-    const historicalData = HistoricalDataManager.loadBacktestResults() || [];
-    const realDataCount = historicalData.filter(d => (d as any).source === 'amadeus').length;
-    const realDataPercentage = historicalData.length > 0 ? 
-      (realDataCount / historicalData.length) * 100 : 0;
+    const observationCounts = await PriceObservationStore.count();
+    const backtestResults = await HistoricalDataManager.loadBacktestResults() || [];
+    const realDataPercentage = observationCounts.total > 0 ? 
+      (observationCounts.real / observationCounts.total) * 100 : 0;
 
     // Calculate temporal coverage (months of data)
     const dateRange = validation.validationPeriod;
@@ -194,70 +187,81 @@ export class StatisticalValidator {
       dataQuality: {
         realDataPercentage: Math.round(realDataPercentage * 100) / 100,
         temporalCoverage: monthsDiff,
-        routeCoverage: 5 // We're testing 5 routes
+        routeCoverage: new Set(backtestResults.map(r => r.route)).size
       },
       lastValidation: this.lastValidationTime?.toISOString() || new Date().toISOString()
     };
   }
 
   /**
-   * Calculate error bounds for predictions
+   * Pick up validation results saved by the job runner and, when there are none or they're
+   * older than VALIDATION_CACHE_HOURS, queue a validation job (once per period)
    */
-  private static calculateErrorBounds(currentPrice: number) {
-    const validation = this.validationCache;
-    if (!validation) {
-      return {
-        expectedError: currentPrice * 0.1,
-        maxError: currentPrice * 0.2,
-        minError: currentPrice * 0.05
-      };
+  private static async scheduleValidationIfStale(): Promise<void> {
+    if (!this.needsValidationRefresh()) return;
+
+    await this.loadStoredResults();
+    if (!this.needsValidationRefresh()) return;
+
+    // enqueue always writes, which could overwrite the job runner's progress on the job
+    const periodMs = this.VALIDATION_CACHE_HOURS * 60 * 60 * 1000;
+    const id = `${this.VALIDATION_JOB}-${Math.floor(Date.now() / periodMs)}`;
+    if (!await JobQueue.get(id)) {
+      await JobQueue.enqueue(this.VALIDATION_JOB, {}, { id });
     }
+  }
 
-    const errorPercentage = validation.meanAbsoluteError / currentPrice;
-    
-    return {
-      expectedError: Math.round(validation.meanAbsoluteError * 100) / 100,
-      maxError: Math.round(validation.rootMeanSquareError * 100) / 100,
-      minError: Math.round(validation.meanAbsoluteError * 0.5 * 100) / 100
-    };
+  // Adopt results the job runner saved when they're newer than the ones in memory
+  private static async loadStoredResults(): Promise<void> {
+    const stored = await HistoricalDataManager.loadValidationResults();
+    if (stored?.validatedAt && (!this.lastValidationTime || new Date(stored.validatedAt) > this.lastValidationTime)) {
+      this.validationCache = stored;
+      this.lastValidationTime = new Date(stored.validatedAt);
+    }
   }
 
   /**
-   * Base prediction calculation (simplified version of enhanced prediction)
+   * Queue a validation backtest for the job runner now, whatever the age of the current
+   * results; a validation that's already queued or running is returned instead
    */
-  private static async calculateBasePrediction(
-    currentPrice: number,
-    origin: string,
-    destination: string,
-    departureDate: string
-  ) {
-    // Simplified prediction logic - in real implementation, 
-    // this would use the full enhanced prediction service
-    const departureDateTime = new Date(departureDate);
-    const month = departureDateTime.getMonth() + 1;
-    const dayOfWeek = departureDateTime.getDay();
-    
-    // Basic seasonal and day-of-week effects
-    const seasonalMultiplier = month >= 6 && month <= 8 ? 1.2 : 
-                              month === 12 || month === 1 ? 1.3 : 1.0;
-    const weekendMultiplier = (dayOfWeek === 0 || dayOfWeek === 6) ? 1.1 : 1.0;
-    
-    const expectedPrice = currentPrice * seasonalMultiplier * weekendMultiplier;
-    const probabilityIncrease = expectedPrice > currentPrice ? 0.7 : 0.3;
+  static async queueValidation(): Promise<Job> {
+    const active = (await JobQueue.list({ type: this.VALIDATION_JOB }))
+      .find(job => job.status === 'pending' || job.status === 'running');
+    return active || JobQueue.enqueue(this.VALIDATION_JOB, {});
+  }
+
+  /**
+   * Error bounds for the predicted price, scaled to the current price from the percentage
+   * errors of backtested forecasts (this route's when there are enough, otherwise all routes)
+   */
+  private static async calculateErrorBounds(currentPrice: number, route: string): Promise<EnhancedPredictionWithValidation['errorBounds']> {
+    const backtestResults = await HistoricalDataManager.loadBacktestResults() || [];
+    const routeResults = backtestResults.filter(r => r.route === route);
+    const basis = routeResults.length >= this.MIN_ROUTE_BACKTESTS ? 'route' : 'all-routes';
+    const results = basis === 'route' ? routeResults : backtestResults;
+
+    if (results.length === 0) {
+      return {
+        expectedError: Math.round(currentPrice * 0.1 * 100) / 100,
+        maxError: Math.round(currentPrice * 0.2 * 100) / 100,
+        minError: Math.round(currentPrice * 0.05 * 100) / 100,
+        basis: 'default',
+        sampleSize: 0
+      };
+    }
+
+    const meanPercentageError = results.reduce((sum, r) => sum + r.percentageError, 0) / results.length;
+    const rootMeanSquarePercentageError = Math.sqrt(
+      results.reduce((sum, r) => sum + r.percentageError * r.percentageError, 0) / results.length
+    );
+    const expectedError = currentPrice * meanPercentageError / 100;
     
     return {
-      currentPrice,
-      currency: 'GBP',
-      timestamp: new Date().toISOString(),
-      probabilityIncrease,
-      probabilityDecrease: 1 - probabilityIncrease,
-      recommendation: probabilityIncrease > 0.75 ? 'BUY_NOW' as const : 'WAIT' as const,
-      historicalContext: `Seasonal analysis for ${month}/${departureDateTime.getFullYear()}`,
-      priceRange: {
-        min: Math.round(currentPrice * 0.8),
-        max: Math.round(currentPrice * 1.2),
-        average: currentPrice
-      }
+      expectedError: Math.round(expectedError * 100) / 100,
+      maxError: Math.round(currentPrice * rootMeanSquarePercentageError / 100 * 100) / 100,
+      minError: Math.round(expectedError * 0.5 * 100) / 100,
+      basis,
+      sampleSize: results.length
     };
   }
 
@@ -265,7 +269,7 @@ export class StatisticalValidator {
    * Check if validation needs refresh
    */
   private static needsValidationRefresh(): boolean {
-    if (!this.lastValidationTime || !this.validationCache) {
+    if (!this.lastValidationTime) {
       return true;
     }
     
@@ -301,10 +305,11 @@ export class StatisticalValidator {
   /**
    * Get validation summary for admin dashboard
    */
-  static getValidationSummary() {
+  static async getValidationSummary() {
+    await this.loadStoredResults();
     const validation = this.validationCache;
-    const abMetrics = ABTestingFramework.calculateTestMetrics();
-    const winningVariant = ABTestingFramework.getWinningVariant();
+    const abMetrics = await ABTestingFramework.calculateTestMetrics();
+    const winningVariant = await ABTestingFramework.getWinningVariant();
     
     return {
       validation,
@@ -315,3 +320,8 @@ export class StatisticalValidator {
     };
   }
 }
+
+JobQueue.registerHandler(StatisticalValidator.VALIDATION_JOB, async () => {
+  const result = await StatisticalValidator.performFullValidation();
+  return result && { accuracy: result.accuracy, sampleSize: result.sampleSize };
+});
@@ -0,0 +1,181 @@
+// Server-side storage - small key/value document store with pluggable backends
+// Keys are slash-separated paths (e.g. "observations/LHR-JFK"); values are JSON.
+import fs from 'fs';
+import path from 'path';
+
+export interface StorageBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * Keys under a prefix (e.g. "observations/")
+   */
+  keys(prefix?: string): Promise<string[]>;
+}
+
+/**
+ * Keeps documents in process memory - for tests and environments without a writable disk
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory';
+  private documents: Map<string, string> = new Map();
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = this.documents.get(key);
+    return raw !== undefined ? JSON.parse(raw) as T : null;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    // Store serialized so callers can't mutate what's saved
+    this.documents.set(key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.documents.delete(key);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    return Array.from(this.documents.keys()).filter(key => key.startsWith(prefix)).sort();
+  }
+}
+
+/**
+ * One JSON file per key under a data directory (".data" by default)
+ */
+export class JsonFileStorageBackend implements StorageBackend {
+  readonly name = 'json-file';
+
+  constructor(private readonly directory: string) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const raw = await fs.promises.readFile(this.filePath(key), 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temp file and rename so a crash never leaves half a document
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(value), 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const keys: string[] = [];
+    await this.collectKeys(this.directory, '', keys);
+    return keys.filter(key => key.startsWith(prefix)).sort();
+  }
+
+  private async collectKeys(directory: string, keyPrefix: string, keys: string[]): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        await this.collectKeys(path.join(directory, entry.name), `${keyPrefix}${entry.name}/`, keys);
+      } else if (entry.name.endsWith('.json')) {
+        keys.push(`${keyPrefix}${decodeURIComponent(entry.name.slice(0, -'.json'.length))}`);
+      }
+    }
+  }
+
+  private filePath(key: string): string {
+    const segments = key.split('/').filter(Boolean).map(segment => encodeURIComponent(segment));
+    if (segments.length === 0 || segments.some(segment => segment === '.' || segment === '..')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    const fileName = `${segments.pop()}.json`;
+    return path.join(this.directory, ...segments, fileName);
+  }
+}
+
+export class Storage {
+  private static backend: StorageBackend | null = null;
+  private static locks: Map<string, Promise<unknown>> = new Map();
+
+  /**
+   * Active backend. Chosen by STORAGE_BACKEND ("file" or "memory", default "file");
+   * the file backend writes under STORAGE_DIR (default ".data").
+   */
+  static getBackend(): StorageBackend {
+    if (!this.backend) {
+      const backendName = process.env.STORAGE_BACKEND || 'file';
+      if (backendName === 'memory') {
+        this.backend = new MemoryStorageBackend();
+      } else {
+        if (backendName !== 'file') {
+          console.warn(`Unknown STORAGE_BACKEND "${backendName}", using file storage`);
+        }
+        const directory = path.resolve(process.env.STORAGE_DIR || '.data');
+        this.backend = new JsonFileStorageBackend(directory);
+      }
+      console.log(`Using ${this.backend.name} storage backend`);
+    }
+    return this.backend;
+  }
+
+  /**
+   * Swap the backend (e.g. an in-memory store for scripts and tests)
+   */
+  static useBackend(backend: StorageBackend): void {
+    this.backend = backend;
+    this.locks.clear();
+  }
+
+  static async get<T>(key: string): Promise<T | null> {
+    return this.getBackend().get<T>(key);
+  }
+
+  static async set<T>(key: string, value: T): Promise<void> {
+    await this.withLock(key, () => this.getBackend().set(key, value));
+  }
+
+  static async delete(key: string): Promise<void> {
+    await this.withLock(key, () => this.getBackend().delete(key));
+  }
+
+  static async keys(prefix?: string): Promise<string[]> {
+    return this.getBackend().keys(prefix);
+  }
+
+  /**
+   * Read-modify-write a document. Updates to the same key run one at a time,
+   * so concurrent requests in this process never overwrite each other.
+   */
+  static async update<T>(key: string, updater: (current: T | null) => T): Promise<T> {
+    return this.withLock(key, async () => {
+      const backend = this.getBackend();
+      const next = updater(await backend.get<T>(key));
+      await backend.set(key, next);
+      return next;
+    });
+  }
+
+  private static async withLock<R>(key: string, task: () => Promise<R>): Promise<R> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.locks.set(key, run);
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(key) === run) this.locks.delete(key);
+    }
+  }
+}
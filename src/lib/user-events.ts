@@ -0,0 +1,92 @@
+// User Events - what people did after seeing a prediction (clicked through to a booking
+// partner, dismissed it, set a reminder). Events are stored per prediction id and feed
+// the A/B follow rate: a click-through counts as BOUGHT and a reminder as WAITED.
+import crypto from 'crypto';
+import { Storage } from './storage';
+import { ABTestingFramework } from './ab-testing';
+
+export type UserEventType = 'click_through' | 'dismiss' | 'reminder_set';
+
+export interface UserEvent {
+  id: string;
+  predictionId: string;
+  visitorId: string | null; // Null for visitors who opted out
+  type: UserEventType;
+  partner?: string; // Booking partner for click-throughs, e.g. 'aviasales' or 'wayaway'
+  timestamp: string;
+}
+
+// What anyone with the prediction id may see; the visitor id stays server-side
+export type PublicUserEvent = Omit<UserEvent, 'visitorId'>;
+
+export class UserEventService {
+  static readonly EVENT_TYPES: UserEventType[] = ['click_through', 'dismiss', 'reminder_set'];
+  private static readonly KEY_PREFIX = 'events/';
+  private static readonly MAX_EVENTS_PER_PREDICTION = 100;
+
+  // Dismissing says nothing about whether the user will book later, so it doesn't map to an action
+  private static readonly AB_ACTIONS: { [type: string]: 'BOUGHT' | 'WAITED' } = {
+    click_through: 'BOUGHT',
+    reminder_set: 'WAITED'
+  };
+
+  static isEventType(type: unknown): type is UserEventType {
+    return typeof type === 'string' && this.EVENT_TYPES.includes(type as UserEventType);
+  }
+
+  /**
+   * Store an event and, for visitors in the A/B experiment, update the user action
+   * on the recommendation they were shown
+   */
+  static async record(input: Omit<UserEvent, 'id' | 'timestamp'>): Promise<UserEvent> {
+    const event: UserEvent = {
+      ...input,
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString()
+    };
+
+    await Storage.update<UserEvent[]>(this.key(event.predictionId), events =>
+      [...(events || []), event].slice(-this.MAX_EVENTS_PER_PREDICTION)
+    );
+
+    const userAction = this.AB_ACTIONS[event.type];
+    if (userAction && event.visitorId) {
+      await ABTestingFramework.recordUserAction(event.predictionId, event.visitorId, userAction);
+    }
+
+    console.log(`Recorded ${event.type} event for prediction ${event.predictionId}${event.partner ? ` (${event.partner})` : ''}`);
+    return event;
+  }
+
+  static async getEvents(predictionId: string): Promise<UserEvent[]> {
+    return await Storage.get<UserEvent[]>(this.key(predictionId)) || [];
+  }
+
+  /**
+   * Drop a visitor's id from their events. The events stay, since the follow rate is
+   * counted from them.
+   */
+  static async forgetVisitor(visitorId: string): Promise<number> {
+    let forgotten = 0;
+    for (const key of await Storage.keys(this.KEY_PREFIX)) {
+      const events = await Storage.get<UserEvent[]>(key);
+      if (!events?.some(event => event.visitorId === visitorId)) continue;
+
+      await Storage.update<UserEvent[]>(key, current => (current || []).map(event => {
+        if (event.visitorId !== visitorId) return event;
+        forgotten++;
+        return { ...event, visitorId: null };
+      }));
+    }
+    return forgotten;
+  }
+
+  static toPublic(event: UserEvent): PublicUserEvent {
+    const { id, predictionId, type, partner, timestamp } = event;
+    return { id, predictionId, type, partner, timestamp };
+  }
+
+  private static key(predictionId: string): string {
+    return `${this.KEY_PREFIX}${predictionId}`;
+  }
+}
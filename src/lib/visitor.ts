@@ -0,0 +1,68 @@
+// Visitor identity - a stable anonymous id kept in a first-party cookie by the middleware.
+// It keys A/B assignments, tracked recommendations and anything saved per visitor.
+// Imported by the middleware, so it must stay free of Node-only modules.
+import type { NextRequest, NextResponse } from 'next/server';
+
+export interface VisitorIdentity {
+  visitorId: string | null; // Null when opted out
+  optedOut: boolean;
+}
+
+export class VisitorService {
+  static readonly COOKIE_NAME = 'fpiq_vid';
+  static readonly OPT_OUT_COOKIE_NAME = 'fpiq_optout';
+  // Set by the middleware on the forwarded request, so a visitor's first request already has an id
+  static readonly HEADER_NAME = 'x-visitor-id';
+  private static readonly MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+  private static readonly ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+  /**
+   * The visitor behind a request. Route handlers should use this rather than ids sent in the body.
+   */
+  static fromRequest(request: NextRequest): VisitorIdentity {
+    if (request.cookies.get(this.OPT_OUT_COOKIE_NAME)?.value === '1') {
+      return { visitorId: null, optedOut: true };
+    }
+
+    const candidate = request.headers.get(this.HEADER_NAME) || request.cookies.get(this.COOKIE_NAME)?.value;
+    return { visitorId: this.isValidId(candidate) ? candidate! : null, optedOut: false };
+  }
+
+  static createId(): string {
+    return crypto.randomUUID();
+  }
+
+  static isValidId(id: string | null | undefined): boolean {
+    return !!id && this.ID_PATTERN.test(id);
+  }
+
+  static setVisitorCookie(response: NextResponse, visitorId: string): void {
+    response.cookies.set(this.COOKIE_NAME, visitorId, this.cookieOptions(this.MAX_AGE_SECONDS));
+  }
+
+  static clearVisitorCookie(response: NextResponse): void {
+    response.cookies.set(this.COOKIE_NAME, '', this.cookieOptions(0));
+  }
+
+  /**
+   * Opt out (or back in). Opting out also drops the visitor id cookie.
+   */
+  static setOptOut(response: NextResponse, optedOut: boolean): void {
+    if (optedOut) {
+      response.cookies.set(this.OPT_OUT_COOKIE_NAME, '1', this.cookieOptions(this.MAX_AGE_SECONDS));
+      this.clearVisitorCookie(response);
+    } else {
+      response.cookies.set(this.OPT_OUT_COOKIE_NAME, '', this.cookieOptions(0));
+    }
+  }
+
+  private static cookieOptions(maxAge: number) {
+    return {
+      httpOnly: true,
+      sameSite: 'lax' as const,
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge
+    };
+  }
+}
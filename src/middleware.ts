@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VisitorService } from '@/lib/visitor';
+
+// Gives every visitor who hasn't opted out a stable anonymous id cookie, and forwards
+// the id to route handlers in a header (clients can't set that header themselves)
+export function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers);
+  headers.delete(VisitorService.HEADER_NAME);
+
+  const optedOut = request.cookies.get(VisitorService.OPT_OUT_COOKIE_NAME)?.value === '1';
+  const existingId = request.cookies.get(VisitorService.COOKIE_NAME)?.value;
+  const visitorId = optedOut ? null : VisitorService.isValidId(existingId) ? existingId! : VisitorService.createId();
+
+  if (visitorId) headers.set(VisitorService.HEADER_NAME, visitorId);
+  const response = NextResponse.next({ request: { headers } });
+
+  if (visitorId && visitorId !== existingId) {
+    VisitorService.setVisitorCookie(response, visitorId);
+  }
+  return response;
+}
+
+export const config = {
+  // Pages and API routes, not static assets
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)']
+};